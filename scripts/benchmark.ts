@@ -0,0 +1,110 @@
+#!/usr/bin/env bun
+
+/**
+ * Benchmark the compiled rule matcher against a plain rule-by-rule scan.
+ *
+ * Builds a long document from the weak example texts and a large rule set
+ * from rules.json plus generated rules, then times findMatches with and
+ * without the trie index and checks that both find the same matches.
+ *
+ * Usage: bun run bench [--words <count>] [--rules <count>]
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { compileMatcher } from '../src/lib/matcher.js';
+import { convertRuleEntry, findMatches, type TokenRule } from '../src/lib/rule-engine.js';
+import { bold, dim, green } from '../src/utils/colors.js';
+import { validateRulesDatabase } from '../src/utils/schemas.js';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+const FILLER_WORDS = ['quite', 'really', 'somewhat', 'kind', 'sort', 'pretty', 'rather', 'fairly'];
+const TOPIC_WORDS = ['budget', 'roadmap', 'launch', 'hiring', 'design', 'review', 'pricing'];
+
+function parseCount(args: string[], flag: string, fallback: number): number {
+  const index = args.indexOf(flag);
+  if (index === -1) return fallback;
+  const value = Number.parseInt(args[index + 1], 10);
+  if (Number.isNaN(value) || value < 1) {
+    throw new Error(`${flag} must be a positive number`);
+  }
+  return value;
+}
+
+function buildDocument(targetWords: number): string {
+  const examplesDir = join(ROOT, 'docs/examples');
+  const samples = readdirSync(examplesDir)
+    .filter((name) => name.endsWith('-weak.txt'))
+    .map((name) => readFileSync(join(examplesDir, name), 'utf-8'));
+
+  const parts: string[] = [];
+  let words = 0;
+  for (let i = 0; words < targetWords; i++) {
+    const sample = samples[i % samples.length];
+    parts.push(sample);
+    words += sample.split(/\s+/).length;
+  }
+  return parts.join('\n\n');
+}
+
+function buildRules(targetRules: number): TokenRule[] {
+  const raw = JSON.parse(readFileSync(join(ROOT, 'src/data/rules.json'), 'utf-8'));
+  const db = validateRulesDatabase(raw);
+  const rules = [
+    ...db.conservative.map((entry) => convertRuleEntry(entry, 'conservative')),
+    ...db.moderate.map((entry) => convertRuleEntry(entry, 'moderate')),
+    ...db.aggressive.map((entry) => convertRuleEntry(entry, 'aggressive')),
+  ];
+
+  for (let i = 0; rules.length < targetRules; i++) {
+    const filler = FILLER_WORDS[i % FILLER_WORDS.length];
+    const topic = TOPIC_WORDS[Math.floor(i / FILLER_WORDS.length) % TOPIC_WORDS.length];
+    const pattern = `${filler} ${topic} item${i}`;
+    rules.push(
+      convertRuleEntry(
+        { pattern, replacement: `${topic} item${i}`, category: 'filler' },
+        'aggressive'
+      )
+    );
+  }
+  return rules;
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const words = parseCount(args, '--words', 20000);
+  const ruleCount = parseCount(args, '--rules', 1000);
+
+  const text = buildDocument(words);
+  const rules = buildRules(ruleCount);
+
+  console.log(bold('speak-strong matcher benchmark'));
+  console.log(dim(`${text.split(/\s+/).length} words, ${rules.length} rules\n`));
+
+  const compiled = time(() => compileMatcher(rules));
+  const indexed = time(() => findMatches(text, compiled.result));
+  const scan = time(() => findMatches(text, compileMatcher(rules, { index: false })));
+
+  const signature = (matches: ReturnType<typeof findMatches>) =>
+    matches.map((m) => `${m.rule.id}@${m.textStart}-${m.textEnd}`).join(',');
+  if (signature(indexed.result) !== signature(scan.result)) {
+    console.error('Indexed and scanned matches differ');
+    process.exit(1);
+  }
+
+  console.log(`  compile index   ${compiled.ms.toFixed(1)} ms`);
+  console.log(`  indexed match   ${indexed.ms.toFixed(1)} ms`);
+  console.log(`  full scan       ${scan.ms.toFixed(1)} ms`);
+  console.log(`  matches         ${indexed.result.length}`);
+  console.log(green(`\n  ${(scan.ms / indexed.ms).toFixed(1)}x faster with the index`));
+}
+
+main();
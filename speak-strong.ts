@@ -1,6 +1,16 @@
 #!/usr/bin/env bun
 
+import { findFiles, processFiles } from './src/lib/batch.js';
+import { checkThresholds, getThresholds, listFindings } from './src/lib/check.js';
 import {
+  applyDocumentReplacements,
+  DOCUMENT_FORMATS,
+  detectFormat,
+  isDocumentFormat,
+  processDocument,
+} from './src/lib/document.js';
+import {
+  createBatchEntry,
   createEntryFromResult,
   formatEntryDetails,
   formatHistoryList,
@@ -10,20 +20,27 @@ import {
   saveEntry,
   undoEntry,
 } from './src/lib/history.js';
+import { isInteractiveSupported, runInteractive } from './src/lib/interactive.js';
+import { isLanguage, LANGUAGES } from './src/lib/languages.js';
+import { getStrictnessLevel } from './src/lib/replacer.js';
 import {
-  applyAcceptedReplacements,
-  isInteractiveSupported,
-  runInteractive,
-} from './src/lib/interactive.js';
-import { getStrictnessLevel, processText } from './src/lib/replacer.js';
-import {
+  formatBatchSummary,
+  formatFindings,
   formatInteractiveOutput,
   formatOutput,
+  logBatchStats,
   logInteractiveStats,
   logStats,
+  logThresholdBreaches,
 } from './src/lib/reporter.js';
 import { watchFile } from './src/lib/watcher.js';
-import type { CliOptions, InteractiveResult, ProcessResult } from './src/types/index.js';
+import type {
+  CliOptions,
+  DocumentFormat,
+  InteractiveResult,
+  ProcessResult,
+  StrictnessLevel,
+} from './src/types/index.js';
 import { dim, error, green, red, warning } from './src/utils/colors.js';
 import {
   ArgumentError,
@@ -31,10 +48,19 @@ import {
   FileReadError,
   FileWriteError,
 } from './src/utils/errors.js';
-import { readTextFile, writeTextFile } from './src/utils/file.js';
+import {
+  backupFile,
+  isStdinPiped,
+  readStdin,
+  readTextFile,
+  STDIN_PATH,
+  writeTextFile,
+} from './src/utils/file.js';
 import { Logger } from './src/utils/logger.js';
 
 const VERSION = '1.0.0';
+// Exit status of --check when the findings go over the thresholds
+const EXIT_CHECK_FAILED = 4;
 
 function printHelp(): void {
   console.log(`
@@ -43,13 +69,39 @@ Transform weak language into strong, confident communication
 
 USAGE:
   speak-strong [options]
+  speak-strong check <paths...> [options]
 
-INPUT (one required):
-  -f, --file <path>      Input file (markdown, text, etc.)
+INPUT (one required, or pipe text to stdin):
+  -f, --file <path>      Input file (.md, .html and .eml files keep their markup)
+                         Use - to read stdin
   -m, --message <text>   Input message string
 
 OUTPUT:
   -o, --output <path>    Write result to file (default: stdout)
+                         When stdout is not a terminal, only the result is
+                         written to it and the report goes to stderr
+  --write                Rewrite the input file(s) in place (undo with --undo)
+  --backup               With --write, keep the original as <file>.bak
+
+CHECK MODE (for CI; never changes text):
+  --check                Print findings as file:line:column and exit with
+                         status 4 when they go over the thresholds
+  --max-replacements <n> Replacements allowed (default: 0)
+  --max-suggestions <n>  Suggestions allowed (default: 0)
+  --max-category <c=n>   Findings allowed in category c, which then doesn't
+                         count toward the limits above (repeatable)
+
+CHECK (many files at once):
+  check <paths...>       Process files, directories and globs ("docs/**/*.md")
+                         and print a summary table; .gitignore is respected
+  --include <glob>       Only process files matching the glob (repeatable)
+  --exclude <glob>       Skip files matching the glob (repeatable)
+  --out-dir <dir>        Write transformed files to dir, mirroring the tree
+
+LANGUAGE:
+  --lang <code>          Rule language: en, es, de, fr (default: detected)
+  --format <type>        Input format: text, markdown, html, email
+                         (default: from the file extension)
 
 STRICTNESS LEVELS:
   (default)              Conservative - obvious hedges and minimizers
@@ -76,13 +128,27 @@ EXAMPLES:
   speak-strong -f email.md -o email-strong.md
   speak-strong -f notes.txt --moderate
   speak-strong -m "I think we should" --aggressive
+  speak-strong -f correo.txt --lang es
+  speak-strong -f reply.txt                 # Skips quotes and signature
   speak-strong -f email.txt -i              # Interactive mode
   speak-strong -f email.txt --watch         # Watch mode
+  speak-strong check docs --exclude 'CHANGELOG.md' --out-dir strong
+  speak-strong check docs --write --backup  # Fix a whole tree in place
+  speak-strong check docs --check --max-category filler=5
+  pbpaste | speak-strong -q | pbcopy        # Filter the clipboard
   speak-strong --history                    # View history
   speak-strong --undo                       # Undo last change
 `);
 }
 
+function parseCount(flag: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!(value && Number.isInteger(count) && count >= 0)) {
+    throw new ArgumentError(`${flag} must be a whole number of 0 or more`);
+  }
+  return count;
+}
+
 function parseArgs(args: string[]): CliOptions {
   const options: CliOptions = {};
   let i = 0;
@@ -103,6 +169,22 @@ function parseArgs(args: string[]): CliOptions {
       case '--output':
         options.output = args[++i];
         break;
+      case '--lang': {
+        const lang = args[++i];
+        if (!(lang && isLanguage(lang))) {
+          throw new ArgumentError(`--lang must be one of: ${LANGUAGES.join(', ')}`);
+        }
+        options.lang = lang;
+        break;
+      }
+      case '--format': {
+        const format = args[++i];
+        if (!(format && isDocumentFormat(format))) {
+          throw new ArgumentError(`--format must be one of: ${DOCUMENT_FORMATS.join(', ')}`);
+        }
+        options.format = format;
+        break;
+      }
       case '--moderate':
         options.moderate = true;
         break;
@@ -160,10 +242,47 @@ function parseArgs(args: string[]): CliOptions {
         console.log(VERSION);
         process.exit(0);
         break;
+      case '--include':
+        options.include = [...(options.include ?? []), args[++i]];
+        break;
+      case '--exclude':
+        options.exclude = [...(options.exclude ?? []), args[++i]];
+        break;
+      case '--out-dir':
+        options.outDir = args[++i];
+        break;
+      case '--write':
+        options.write = true;
+        break;
+      case '--backup':
+        options.backup = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--max-replacements':
+        options.maxReplacements = parseCount(arg, args[++i]);
+        break;
+      case '--max-suggestions':
+        options.maxSuggestions = parseCount(arg, args[++i]);
+        break;
+      case '--max-category': {
+        const [category, count] = (args[++i] ?? '').split('=');
+        if (!(category && count !== undefined)) {
+          throw new ArgumentError('--max-category takes <category>=<count>, e.g. hedging=2');
+        }
+        options.maxCategories = { ...options.maxCategories, [category]: parseCount(arg, count) };
+        break;
+      }
       default:
         if (arg.startsWith('-')) {
           throw new ArgumentError(`Unknown option: ${arg}`);
         }
+        if (i === 0 && arg === 'check') {
+          options.command = 'check';
+        } else {
+          options.paths = [...(options.paths ?? []), arg];
+        }
     }
     i++;
   }
@@ -175,12 +294,64 @@ function isHistoryCommand(options: CliOptions): boolean {
   return !!(options.history || options.undo || options.show);
 }
 
-function validateOptions(options: CliOptions): void {
+function validateCheckOptions(options: CliOptions): void {
+  if (!options.paths?.length) {
+    throw new ArgumentError('check requires at least one file, directory or glob');
+  }
+  if (options.file || options.message || options.output) {
+    throw new ArgumentError('check takes paths instead of --file, --message and --output');
+  }
+  if (options.interactive || options.watch) {
+    throw new ArgumentError('check cannot be used with --interactive or --watch');
+  }
+  if (options.moderate && options.aggressive) {
+    throw new ArgumentError('Cannot use both --moderate and --aggressive');
+  }
+  if (options.write && options.outDir) {
+    throw new ArgumentError('Cannot use both --write and --out-dir');
+  }
+  if (options.backup && !options.write) {
+    throw new ArgumentError('--backup requires --write');
+  }
+}
+
+function validateLintOptions(options: CliOptions): void {
+  const thresholds =
+    options.maxReplacements !== undefined ||
+    options.maxSuggestions !== undefined ||
+    options.maxCategories !== undefined;
+  if (thresholds && !options.check) {
+    throw new ArgumentError(
+      '--max-replacements, --max-suggestions and --max-category need --check'
+    );
+  }
+  if (
+    options.check &&
+    (options.output || options.write || options.outDir || options.interactive || options.watch)
+  ) {
+    throw new ArgumentError(
+      '--check never changes text; it cannot be used with --output, --write, --out-dir, --interactive or --watch'
+    );
+  }
+}
+
+function validateOptions(options: CliOptions, stdinText?: string): void {
   if (isHistoryCommand(options)) {
     return;
   }
+  validateLintOptions(options);
+  if (options.command === 'check') {
+    validateCheckOptions(options);
+    return;
+  }
+  if (options.paths?.length) {
+    throw new ArgumentError(`Unexpected argument: ${options.paths[0]}`);
+  }
+  if (options.include || options.exclude || options.outDir) {
+    throw new ArgumentError('--include, --exclude and --out-dir only work with check');
+  }
 
-  if (!(options.file || options.message)) {
+  if (!(options.file || options.message || stdinText)) {
     throw new ArgumentError('Either --file or --message is required');
   }
   if (options.file && options.message) {
@@ -192,75 +363,211 @@ function validateOptions(options: CliOptions): void {
   if (options.watch && !options.file) {
     throw new ArgumentError('--watch requires --file (cannot watch a message)');
   }
+  if (options.watch && options.file === STDIN_PATH) {
+    throw new ArgumentError('--watch requires --file (cannot watch stdin)');
+  }
   if (options.watch && options.interactive) {
     throw new ArgumentError('Cannot use both --watch and --interactive');
   }
+  if (options.write && !(options.file && options.file !== STDIN_PATH)) {
+    throw new ArgumentError('--write requires --file (cannot rewrite a message or stdin)');
+  }
+  if (options.write && options.output) {
+    throw new ArgumentError('Cannot use both --write and --output');
+  }
+  if (options.write && options.watch) {
+    throw new ArgumentError('Cannot use both --write and --watch');
+  }
+  if (options.backup && !options.write) {
+    throw new ArgumentError('--backup requires --write');
+  }
 }
 
-function getInputText(options: CliOptions): string {
+/**
+ * Input comes from stdin with "-f -", or when text is piped or redirected in
+ * without --file or --message
+ */
+function readsStdin(options: CliOptions): boolean {
+  if (options.file || options.message || options.command || isHistoryCommand(options)) {
+    return options.file === STDIN_PATH;
+  }
+  return isStdinPiped();
+}
+
+function getInputText(options: CliOptions, stdinText?: string): string {
   if (options.message) {
     return options.message;
   }
+  if (stdinText !== undefined) {
+    return stdinText;
+  }
   if (options.file) {
     return readTextFile(options.file);
   }
   throw new ArgumentError('No input provided');
 }
 
+function getInputFormat(options: CliOptions, inputText: string): DocumentFormat {
+  return options.format ?? detectFormat(inputText, options.file);
+}
+
+/**
+ * Print the result, or write it to --output or over the input with --write.
+ * Returns the files written, for the history entry.
+ */
 function outputResult(
   result: ProcessResult,
   options: CliOptions,
   interactiveResult?: InteractiveResult
-): void {
+): { outputFile?: string; backupFile?: string } {
   const showDiff = !options.quiet;
-
-  if (interactiveResult) {
-    const output = formatInteractiveOutput(result, interactiveResult, showDiff);
-
-    if (options.output) {
-      const transformed = applyAcceptedReplacements(result.original, interactiveResult.accepted);
-      writeTextFile(options.output, transformed);
-      Logger.info(`Output written to ${options.output}`);
-      if (showDiff) {
-        console.error(output);
-      }
+  const transformed = interactiveResult
+    ? applyDocumentReplacements(
+        result.original,
+        interactiveResult.accepted,
+        result.format,
+        result.language
+      )
+    : result.transformed;
+  const output = interactiveResult
+    ? formatInteractiveOutput(result, interactiveResult, showDiff)
+    : formatOutput(result, showDiff);
+
+  const outputFile = options.write ? options.file : options.output;
+  let written: { outputFile?: string; backupFile?: string } = {};
+
+  if (outputFile) {
+    if (options.write && transformed === result.original) {
+      Logger.info(`No changes to write to ${outputFile}`);
     } else {
-      console.log(output);
+      const backupPath = options.backup ? backupFile(outputFile) : undefined;
+      writeTextFile(outputFile, transformed);
+      Logger.info(`Output written to ${outputFile}`);
+      written = { outputFile, backupFile: backupPath };
     }
-
-    if (!options.quiet) {
-      logInteractiveStats(interactiveResult, result.suggestions, options.aggressive);
+    if (showDiff) {
+      console.error(output);
+    }
+  } else if (!process.stdout.isTTY) {
+    // A pipe or redirect gets the text alone, exactly as transformed
+    process.stdout.write(transformed);
+    if (showDiff) {
+      console.error(output);
     }
   } else {
-    const output = formatOutput(result, showDiff);
+    console.log(output);
+  }
 
-    if (options.output) {
-      writeTextFile(options.output, result.transformed);
-      Logger.info(`Output written to ${options.output}`);
-      if (showDiff) {
-        console.error(output);
-      }
+  if (!options.quiet) {
+    if (interactiveResult) {
+      logInteractiveStats(interactiveResult, result.suggestions, options.aggressive);
     } else {
-      console.log(output);
+      logStats(result);
     }
+  }
+  return written;
+}
 
-    if (!options.quiet) {
-      logStats(result);
+/**
+ * Print the findings of each source as source:line:column, then exit with
+ * EXIT_CHECK_FAILED if they go over the thresholds
+ */
+function reportFindings(
+  sources: Array<{ source: string; result: ProcessResult }>,
+  options: CliOptions
+): void {
+  let findingCount = 0;
+  for (const { source, result } of sources) {
+    const findings = listFindings(result);
+    findingCount += findings.length;
+    if (findings.length > 0) {
+      console.log(formatFindings(source, findings));
     }
   }
+
+  const thresholds = getThresholds({
+    maxReplacements: options.maxReplacements,
+    maxSuggestions: options.maxSuggestions,
+    categories: options.maxCategories,
+  });
+  const breaches = checkThresholds(
+    sources.map(({ result }) => result),
+    thresholds
+  );
+  if (!options.quiet) {
+    logThresholdBreaches(breaches, findingCount);
+  }
+  if (breaches.length > 0) {
+    process.exit(EXIT_CHECK_FAILED);
+  }
+}
+
+function getSourceName(options: CliOptions): string {
+  if (options.message) {
+    return '<message>';
+  }
+  return options.file && options.file !== STDIN_PATH ? options.file : '<stdin>';
+}
+
+function runCheck(options: CliOptions, level: StrictnessLevel): void {
+  const files = findFiles(options.paths ?? [], {
+    include: options.include,
+    exclude: options.exclude,
+    skipDirectory: options.outDir,
+  });
+  if (files.length === 0) {
+    throw new ArgumentError('No files matched the given paths');
+  }
+  Logger.verbose(`Checking ${files.length} file${files.length === 1 ? '' : 's'}`);
+
+  const results = processFiles(files, {
+    level,
+    language: options.lang,
+    format: options.format,
+    outDir: options.outDir,
+    write: options.write,
+    backup: options.backup,
+  });
+
+  if (options.check) {
+    reportFindings(
+      results.map(({ file, result }) => ({ source: file, result })),
+      options
+    );
+    return;
+  }
+
+  const entry = createBatchEntry(results, level);
+  if (entry) {
+    saveEntry(entry);
+  }
+
+  console.log(formatBatchSummary(results));
+  if (options.outDir) {
+    Logger.info(`Output written to ${options.outDir}`);
+  }
+  if (options.write) {
+    const rewritten = results.filter((file) => file.outputFile).length;
+    Logger.info(`Rewrote ${rewritten} file${rewritten === 1 ? '' : 's'} in place`);
+  }
+  if (!options.quiet) {
+    logBatchStats(results);
+  }
 }
 
 async function main(): Promise<void> {
   try {
     const args = process.argv.slice(2);
+    const options = parseArgs(args);
+    // Read stdin up front so an empty pipe counts as no input at all
+    const stdinText = readsStdin(options) ? await readStdin() : undefined;
 
-    if (args.length === 0) {
+    if (args.length === 0 && !stdinText) {
       printHelp();
       process.exit(0);
     }
 
-    const options = parseArgs(args);
-    validateOptions(options);
+    validateOptions(options, stdinText);
 
     Logger.configure({
       quiet: options.interactive || options.watch ? true : options.quiet,
@@ -307,11 +614,18 @@ async function main(): Promise<void> {
 
     const level = getStrictnessLevel(options);
 
+    if (options.command === 'check') {
+      runCheck(options, level);
+      return;
+    }
+
     if (options.watch && options.file) {
       const { stop } = watchFile({
         file: options.file,
         output: options.output,
         level,
+        language: options.lang,
+        format: options.format,
         quiet: options.quiet,
       });
 
@@ -324,16 +638,24 @@ async function main(): Promise<void> {
       return;
     }
 
-    const inputText = getInputText(options);
+    const inputText = getInputText(options, stdinText);
     Logger.verbose(`Processing ${inputText.length} characters`);
     Logger.verbose(`Using strictness level: ${level}`);
 
-    const result = processText(inputText, level);
+    const format = getInputFormat(options, inputText);
+    Logger.verbose(`Reading input as ${format}`);
+
+    const result = processDocument(inputText, format, level, options.lang);
+
+    if (options.check) {
+      reportFindings([{ source: getSourceName(options), result }], options);
+      return;
+    }
 
     if (options.interactive) {
       if (!isInteractiveSupported()) {
         console.error(
-          warning('Interactive mode not available (not a TTY). Running in normal mode.')
+          warning('Interactive mode not available (no terminal). Running in normal mode.')
         );
         outputResult(result, { ...options, interactive: false });
         return;
@@ -346,28 +668,33 @@ async function main(): Promise<void> {
         process.exit(0);
       }
 
-      outputResult(result, options, interactiveResult);
+      const written = outputResult(result, options, interactiveResult);
 
       if (interactiveResult.accepted.length > 0) {
         const entryData = createEntryFromResult(
           {
             ...result,
             replacements: interactiveResult.accepted,
-            transformed: applyAcceptedReplacements(result.original, interactiveResult.accepted),
+            transformed: applyDocumentReplacements(
+              result.original,
+              interactiveResult.accepted,
+              result.format,
+              result.language
+            ),
           },
           level,
-          { inputFile: options.file, inputMessage: options.message, outputFile: options.output }
+          { inputFile: options.file, inputMessage: options.message, ...written }
         );
         saveEntry(entryData);
       }
     } else {
-      outputResult(result, options);
+      const written = outputResult(result, options);
 
       if (result.replacements.length > 0) {
         const entryData = createEntryFromResult(result, level, {
           inputFile: options.file,
           inputMessage: options.message,
-          outputFile: options.output,
+          ...written,
         });
         saveEntry(entryData);
       }
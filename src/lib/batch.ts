@@ -0,0 +1,282 @@
+/**
+ * Batch processing for "speak-strong check".
+ *
+ * Expands the paths given on the command line into files: plain file paths,
+ * directories searched recursively for text, markdown, HTML and email files,
+ * and glob patterns with "*", "**", "?", "[...]" and "{a,b}". Directory
+ * walks skip .git, node_modules and anything ignored by a .gitignore on the
+ * way down, and --include/--exclude globs narrow the list further. Each file
+ * is processed as its own document and may be written to a mirrored tree.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { isAbsolute, posix, resolve } from 'node:path';
+import type { BatchFileResult, DocumentFormat, Language, StrictnessLevel } from '../types/index.js';
+import { ArgumentError, FileNotFoundError } from '../utils/errors.js';
+import { backupFile, fileExists, readTextFile, writeTextFile } from '../utils/file.js';
+import { detectFormat, processDocument } from './document.js';
+
+export interface FindOptions {
+  /** Only keep files matching one of these globs */
+  include?: string[];
+  /** Drop files matching any of these globs */
+  exclude?: string[];
+  /** Directory never searched, such as the output tree */
+  skipDirectory?: string;
+}
+
+export interface BatchOptions {
+  level: StrictnessLevel;
+  /** Rule language; detected from each file when omitted */
+  language?: Language;
+  /** Document format; taken from each file's extension when omitted */
+  format?: DocumentFormat;
+  /** Write each transformed file here, at the same relative path */
+  outDir?: string;
+  /** Rewrite each changed file in place */
+  write?: boolean;
+  /** Keep a .bak copy of each file rewritten in place */
+  backup?: boolean;
+}
+
+interface IgnoreRule {
+  /** Directory of the .gitignore, as a path prefix ending in "/" or empty */
+  base: string;
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+// Files picked up when searching a directory
+const SEARCHED_EXTENSIONS = new Set(['.txt', '.md', '.markdown', '.html', '.htm', '.eml']);
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+const GLOB_CHARACTERS = /[*?[{]/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function globSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" everything
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      const set = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+      source += `[${set.replace(/^!/, '^')}]`;
+      i = close;
+    } else if (char === '{' && glob.indexOf('}', i) !== -1) {
+      const close = glob.indexOf('}', i);
+      const options = glob.slice(i + 1, close).split(',');
+      source += `(?:${options.map(globSource).join('|')})`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile a glob pattern to a regular expression over "/"-separated paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globSource(glob)}$`);
+}
+
+function toPosix(filepath: string): string {
+  return filepath.replace(/\\/g, '/');
+}
+
+/**
+ * Match a path against a glob; a glob without "/" matches the file name at
+ * any depth, like a .gitignore pattern
+ */
+function matchesGlob(filepath: string, glob: string): boolean {
+  const pattern = globToRegExp(posix.normalize(toPosix(glob)));
+  return glob.includes('/') ? pattern.test(filepath) : pattern.test(posix.basename(filepath));
+}
+
+function readIgnoreRules(directory: string): IgnoreRule[] {
+  const file = posix.join(directory, '.gitignore');
+  if (!fileExists(file)) return [];
+
+  const base = directory === '.' ? '' : `${directory}/`;
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (line.startsWith('\\')) line = line.slice(1);
+
+    // A pattern with a "/" is relative to the .gitignore, others match at any depth
+    const anchored = line.includes('/');
+    const glob = anchored ? line.replace(/^\//, '') : line;
+    const source = anchored ? globSource(glob) : `(?:.*/)?${globSource(glob)}`;
+    rules.push({ base, pattern: new RegExp(`^${source}$`), negated, directoryOnly });
+  }
+  return rules;
+}
+
+function isIgnored(filepath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !filepath.startsWith(rule.base)) continue;
+    if (rule.pattern.test(filepath.slice(rule.base.length))) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * The .gitignore rules of the directories between the current directory and
+ * a directory about to be searched
+ */
+function ancestorIgnoreRules(directory: string): IgnoreRule[] {
+  const relative = posix.relative('.', directory);
+  if (!relative || relative.startsWith('..') || isAbsolute(relative)) return [];
+
+  const rules = readIgnoreRules('.');
+  const parts = relative.split('/');
+  for (let depth = 1; depth < parts.length; depth++) {
+    rules.push(...readIgnoreRules(parts.slice(0, depth).join('/')));
+  }
+  return rules;
+}
+
+function walk(
+  directory: string,
+  inherited: IgnoreRule[],
+  skipDirectory: string | undefined,
+  visit: (file: string) => void
+): void {
+  const rules = [...inherited, ...readIgnoreRules(directory)];
+  const entries = readdirSync(directory, { withFileTypes: true }).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  for (const entry of entries) {
+    const filepath = posix.join(directory, entry.name);
+    const isDirectory = entry.isDirectory();
+    if (isIgnored(filepath, isDirectory, rules)) continue;
+
+    if (isDirectory) {
+      if (SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      if (skipDirectory && resolve(filepath) === skipDirectory) continue;
+      walk(filepath, rules, skipDirectory, visit);
+    } else if (entry.isFile()) {
+      visit(filepath);
+    }
+  }
+}
+
+/**
+ * The directory part of a glob before its first wildcard
+ */
+function globBase(glob: string): string {
+  const parts = glob.split('/');
+  const wildcard = parts.findIndex((part) => GLOB_CHARACTERS.test(part));
+  const base = parts.slice(0, wildcard).join('/');
+  return base || (glob.startsWith('/') ? '/' : '.');
+}
+
+/**
+ * Expand files, directories and globs into a sorted list of files
+ * @throws {FileNotFoundError} If a path that is not a glob doesn't exist
+ */
+export function findFiles(paths: string[], options: FindOptions = {}): string[] {
+  const found = new Set<string>();
+  const skipDirectory = options.skipDirectory && resolve(options.skipDirectory);
+
+  for (const path of paths) {
+    const normalized = posix.normalize(toPosix(path));
+
+    if (GLOB_CHARACTERS.test(normalized) && !fileExists(path)) {
+      const base = globBase(normalized);
+      if (!fileExists(base)) continue;
+      const pattern = globToRegExp(normalized);
+      walk(base, ancestorIgnoreRules(base), skipDirectory, (file) => {
+        if (pattern.test(file)) found.add(file);
+      });
+      continue;
+    }
+
+    if (!fileExists(path)) {
+      throw new FileNotFoundError(path);
+    }
+    if (statSync(path).isDirectory()) {
+      walk(normalized, ancestorIgnoreRules(normalized), skipDirectory, (file) => {
+        if (SEARCHED_EXTENSIONS.has(posix.extname(file).toLowerCase())) found.add(file);
+      });
+    } else {
+      found.add(normalized);
+    }
+  }
+
+  const { include = [], exclude = [] } = options;
+  return [...found]
+    .filter((file) => include.length === 0 || include.some((glob) => matchesGlob(file, glob)))
+    .filter((file) => !exclude.some((glob) => matchesGlob(file, glob)))
+    .sort();
+}
+
+/**
+ * Where a file's transformed copy goes in the output tree
+ * @throws {ArgumentError} If the file is outside the current directory
+ */
+export function outputPathFor(file: string, outDir: string): string {
+  const relative = posix.relative('.', toPosix(file));
+  if (relative.startsWith('..') || isAbsolute(relative)) {
+    throw new ArgumentError(
+      `Cannot mirror ${file} into --out-dir: it is outside the current directory`
+    );
+  }
+  return posix.join(toPosix(outDir), relative);
+}
+
+/**
+ * Process each file as its own document, writing the transformed text to
+ * the output tree when there is one, or over each changed file with write
+ */
+export function processFiles(files: string[], options: BatchOptions): BatchFileResult[] {
+  const { outDir } = options;
+  // Check every output path before writing any of them
+  const outputFiles = files.map((file) => (outDir ? outputPathFor(file, outDir) : undefined));
+
+  return files.map((file, i) => {
+    const text = readTextFile(file);
+    const format = options.format ?? detectFormat(text, file);
+    const result = processDocument(text, format, options.level, options.language);
+
+    if (options.write) {
+      if (result.transformed === text) {
+        return { file, result };
+      }
+      const backupPath = options.backup ? backupFile(file) : undefined;
+      writeTextFile(file, result.transformed);
+      return { file, result, outputFile: file, backupFile: backupPath };
+    }
+
+    const outputFile = outputFiles[i];
+    if (!outputFile) {
+      return { file, result };
+    }
+    writeTextFile(outputFile, result.transformed);
+    return { file, result, outputFile };
+  });
+}
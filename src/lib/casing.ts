@@ -0,0 +1,124 @@
+/**
+ * Case preservation for replacements.
+ *
+ * A replacement takes its case from the whole matched span and from where
+ * the span sits in its sentence: an all-caps span gives an all-caps
+ * replacement, a Title Case heading gives Title Case, and otherwise the
+ * first word follows the first matched word. The pronoun "I" is capitalized
+ * everywhere, so it says nothing about the case of the text around it.
+ */
+
+export type CaseStyle = 'upper' | 'title' | 'capitalized' | 'lower' | 'mixed';
+
+type WordCase = 'upper' | 'capitalized' | 'lower' | 'mixed' | 'none';
+
+// Words that stay lowercase inside Title Case unless they come first
+const MINOR_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'and',
+  'but',
+  'or',
+  'nor',
+  'for',
+  'so',
+  'yet',
+  'as',
+  'at',
+  'by',
+  'in',
+  'of',
+  'on',
+  'to',
+  'up',
+  'via',
+  'with',
+  'from',
+  'into',
+  'than',
+]);
+
+// "I" and its contractions: I'm, I'll, I’d
+const PRONOUN_I = /^i(?:['’ʼ]\p{L}+)?$/iu;
+
+function lettersOf(word: string): string {
+  return word.replace(/[^\p{L}]/gu, '');
+}
+
+function wordCase(word: string): WordCase {
+  const letters = lettersOf(word);
+  if (!letters) return 'none';
+  if (letters === letters.toLowerCase()) return 'lower';
+  if (letters.length > 1 && letters === letters.toUpperCase()) return 'upper';
+  const rest = letters.slice(1);
+  return letters[0] !== letters[0].toLowerCase() && rest === rest.toLowerCase()
+    ? 'capitalized'
+    : 'mixed';
+}
+
+function isPronounI(word: string): boolean {
+  return PRONOUN_I.test(word);
+}
+
+function capitalize(word: string): string {
+  return word.replace(/\p{L}/u, (letter) => letter.toUpperCase());
+}
+
+function lowercaseFirst(word: string): string {
+  return word.replace(/\p{L}/u, (letter) => letter.toLowerCase());
+}
+
+/**
+ * Decide the case style of a matched span from all of its words and whether
+ * it starts a sentence
+ */
+export function detectCaseStyle(words: string[], atSentenceStart: boolean): CaseStyle {
+  const cased = words.filter((word) => wordCase(word) !== 'none');
+  if (cased.length === 0) return 'mixed';
+
+  const letters = lettersOf(cased.join(''));
+  if (letters.length > 1 && letters === letters.toUpperCase()) return 'upper';
+
+  const content = cased.filter(
+    (word) => !(isPronounI(word) || MINOR_WORDS.has(word.toLowerCase()))
+  );
+  const headingCase = (word: string) => ['capitalized', 'upper'].includes(wordCase(word));
+  if (content.length >= 2 && content.every(headingCase)) return 'title';
+
+  const [first] = cased;
+  if (isPronounI(first)) return atSentenceStart ? 'capitalized' : 'lower';
+
+  const firstCase = wordCase(first);
+  if (firstCase === 'upper') return 'capitalized';
+  return firstCase === 'none' ? 'mixed' : firstCase;
+}
+
+/**
+ * Give a replacement the case of the span it replaces. Only the first word
+ * changes unless the span is all caps or Title Case; the rest keeps the
+ * rule's own casing, and "I" stays capitalized.
+ */
+export function matchCase(replacement: string, words: string[], atSentenceStart: boolean): string {
+  if (!replacement) return replacement;
+
+  const style = detectCaseStyle(words, atSentenceStart);
+  const replacementWords = replacement.split(' ');
+
+  switch (style) {
+    case 'upper':
+      return replacement.toUpperCase();
+    case 'title':
+      return replacementWords
+        .map((word, i) => (i > 0 && MINOR_WORDS.has(word.toLowerCase()) ? word : capitalize(word)))
+        .join(' ');
+    case 'capitalized':
+      return capitalize(replacement);
+    case 'lower': {
+      const [first, ...rest] = replacementWords;
+      return [isPronounI(first) ? first : lowercaseFirst(first), ...rest].join(' ');
+    }
+    default:
+      return replacement;
+  }
+}
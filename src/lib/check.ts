@@ -0,0 +1,92 @@
+/**
+ * Lint mode for speak-strong.
+ *
+ * --check reports what would change without changing anything, and fails
+ * when there are more findings than the thresholds allow. The thresholds
+ * come from the check section of the config, overridden on the command
+ * line: a number of replacements and of suggestions allowed overall, and a
+ * number of findings allowed per category. A category with its own
+ * threshold is not counted against the overall ones.
+ */
+
+import type { CheckThresholds, Finding, ProcessResult, ThresholdBreach } from '../types/index.js';
+import { getConfig } from '../utils/config.js';
+import { locateMatches } from './positions.js';
+
+/**
+ * The thresholds from the config, with any set on the command line on top
+ */
+export function getThresholds(overrides: Partial<CheckThresholds> = {}): CheckThresholds {
+  const config = getConfig().check;
+  return {
+    maxReplacements: overrides.maxReplacements ?? config.maxReplacements,
+    maxSuggestions: overrides.maxSuggestions ?? config.maxSuggestions,
+    categories: { ...config.categories, ...overrides.categories },
+  };
+}
+
+/**
+ * List the replacements and suggestions of a result in document order, each
+ * with its line and column
+ */
+export function listFindings(result: ProcessResult): Finding[] {
+  return [
+    ...locateMatches(result.original, result.replacements).map((match) => ({
+      kind: 'replacement' as const,
+      match,
+    })),
+    ...locateMatches(result.original, result.suggestions).map((match) => ({
+      kind: 'suggestion' as const,
+      match,
+    })),
+  ].sort((a, b) => a.match.start - b.match.start);
+}
+
+/**
+ * Compare the findings of one or more results with the thresholds
+ */
+export function checkThresholds(
+  results: ProcessResult[],
+  thresholds: CheckThresholds
+): ThresholdBreach[] {
+  const totals = { replacements: 0, suggestions: 0 };
+  const byCategory = new Map<string, number>();
+
+  for (const result of results) {
+    for (const [kind, matches] of [
+      ['replacements', result.replacements],
+      ['suggestions', result.suggestions],
+    ] as const) {
+      for (const { rule } of matches) {
+        if (Object.hasOwn(thresholds.categories, rule.category)) {
+          byCategory.set(rule.category, (byCategory.get(rule.category) ?? 0) + 1);
+        } else {
+          totals[kind]++;
+        }
+      }
+    }
+  }
+
+  const breaches: ThresholdBreach[] = [];
+  if (totals.replacements > thresholds.maxReplacements) {
+    breaches.push({
+      name: 'replacements',
+      count: totals.replacements,
+      limit: thresholds.maxReplacements,
+    });
+  }
+  if (totals.suggestions > thresholds.maxSuggestions) {
+    breaches.push({
+      name: 'suggestions',
+      count: totals.suggestions,
+      limit: thresholds.maxSuggestions,
+    });
+  }
+  for (const [category, count] of byCategory) {
+    const limit = thresholds.categories[category];
+    if (count > limit) {
+      breaches.push({ name: category, count, limit });
+    }
+  }
+  return breaches;
+}
@@ -0,0 +1,155 @@
+/**
+ * Declarative rule constraints.
+ *
+ * Rules loaded from rules.json can narrow where they apply with a small
+ * constraint vocabulary. Each entry compiles to a MatchContext predicate so
+ * the rule engine evaluates them like any other constraint function.
+ */
+
+import type { RuleConstraints } from '../types/index.js';
+import { RulesError } from '../utils/errors.js';
+import { hasPosTag, parsePosTags } from './pos-tagger.js';
+import type { MatchContext } from './rule-engine.js';
+import { isWordToken, normalizeForMatching, type Token } from './tokenizer.js';
+import { isWordClass, matchesWordClass } from './word-classes.js';
+
+type Predicate = (context: MatchContext) => boolean;
+
+const LIST_MARKERS = new Set(['-', '*', '•']);
+const NEGATION_WINDOW = 3;
+
+function previousSignificant(tokens: Token[], from: number): number {
+  let i = from;
+  while (i >= 0 && tokens[i].type === 'whitespace' && !tokens[i].text.includes('\n')) {
+    i--;
+  }
+  return i;
+}
+
+function isLineBreak(token: Token | undefined): boolean {
+  return token?.type === 'whitespace' && token.text.includes('\n');
+}
+
+function isSentenceInitial(context: MatchContext): boolean {
+  const { allTokens } = context;
+  if (allTokens[context.startIndex].start === context.sentence.start) return true;
+
+  // Lines without terminal punctuation, such as headings, also end a sentence
+  let i = previousSignificant(allTokens, context.startIndex - 1);
+
+  // A list marker at the start of a line also starts a sentence
+  if (i >= 0 && LIST_MARKERS.has(allTokens[i].text)) {
+    const markerStart = previousSignificant(allTokens, i - 1);
+    if (markerStart >= 0 && !isLineBreak(allTokens[markerStart])) return false;
+    i = markerStart;
+  }
+
+  return i < 0 || isLineBreak(allTokens[i]);
+}
+
+/**
+ * Get up to `limit` word tokens before the match, stopping at the start of
+ * its sentence when `withinSentence` is set
+ */
+function wordsBefore(context: MatchContext, limit: number, withinSentence = false): Token[] {
+  const { allTokens } = context;
+  const words: Token[] = [];
+  for (let i = context.startIndex - 1; i >= 0 && words.length < limit; i--) {
+    const token = allTokens[i];
+    if (withinSentence && token.start < context.sentence.start) break;
+    if (isWordToken(token)) words.unshift(token);
+  }
+  return words;
+}
+
+/**
+ * Get up to `limit` word tokens after the match
+ */
+function wordsAfter(context: MatchContext, limit: number): Token[] {
+  const { allTokens } = context;
+  const words: Token[] = [];
+  for (let i = context.endIndex; i < allTokens.length && words.length < limit; i++) {
+    if (isWordToken(allTokens[i])) words.push(allTokens[i]);
+  }
+  return words;
+}
+
+function notFollowedBy(phrases: string[]): Predicate {
+  const sequences = phrases.map((phrase) =>
+    normalizeForMatching(phrase).split(/\s+/).filter(Boolean)
+  );
+  const longest = Math.max(...sequences.map((words) => words.length));
+  return (context) => {
+    const next = wordsAfter(context, longest);
+    return !sequences.some((words) => words.every((word, i) => next[i]?.normalized === word));
+  };
+}
+
+function requireWordClass(className: string): void {
+  if (!isWordClass(className)) {
+    throw new RulesError(`Unknown word class "${className}" in rule constraints`);
+  }
+}
+
+/**
+ * Compile declarative constraints into a single match predicate
+ * @throws {RulesError} If a constraint names an unknown word class or tag
+ */
+export function compileConstraints(constraints: RuleConstraints): Predicate {
+  const predicates: Predicate[] = [];
+
+  if (constraints.sentenceInitial) {
+    predicates.push(isSentenceInitial);
+  }
+
+  if (constraints.notFollowedBy && constraints.notFollowedBy.length > 0) {
+    predicates.push(notFollowedBy(constraints.notFollowedBy));
+  }
+
+  if (constraints.notPrecededByNegation) {
+    predicates.push((context) => {
+      const words = wordsBefore(context, NEGATION_WINDOW, true);
+      return !words.some((token) => matchesWordClass(token, 'negation'));
+    });
+  }
+
+  if (constraints.notInQuestion) {
+    predicates.push((context) => !context.sentence.terminator?.includes('?'));
+  }
+
+  const { previousClass, nextClass } = constraints;
+  if (previousClass) {
+    requireWordClass(previousClass);
+    predicates.push((context) => {
+      const previous = wordsBefore(context, 1)[0];
+      return previous !== undefined && matchesWordClass(previous, previousClass);
+    });
+  }
+
+  if (nextClass) {
+    requireWordClass(nextClass);
+    predicates.push((context) => {
+      const next = wordsAfter(context, 1)[0];
+      return next !== undefined && matchesWordClass(next, nextClass);
+    });
+  }
+
+  const { previousTag, nextTag } = constraints;
+  if (previousTag) {
+    const tags = parsePosTags(previousTag, 'rule constraints');
+    predicates.push((context) => {
+      const previous = wordsBefore(context, 1)[0];
+      return previous !== undefined && hasPosTag(previous, tags);
+    });
+  }
+
+  if (nextTag) {
+    const tags = parsePosTags(nextTag, 'rule constraints');
+    predicates.push((context) => {
+      const next = wordsAfter(context, 1)[0];
+      return next !== undefined && hasPosTag(next, tags);
+    });
+  }
+
+  return (context) => predicates.every((predicate) => predicate(context));
+}
@@ -0,0 +1,623 @@
+/**
+ * Structured documents for speak-strong.
+ *
+ * A format parser finds the prose in a document as regions of the file and
+ * marks the inline markup inside them. Each region becomes a run of plain
+ * prose with an offset map back into the file. Only the runs are processed:
+ * matches are mapped back to file offsets, and the rewritten prose is merged
+ * into the file with the markup and everything between runs left as it was.
+ */
+
+import { extname } from 'node:path';
+import type {
+  DocumentFormat,
+  Language,
+  Match,
+  ProcessResult,
+  SentenceSpan,
+  StrictnessLevel,
+} from '../types/index.js';
+import { isReply, parseEmail } from './email.js';
+import { parseHtml } from './html.js';
+import { applyAcceptedReplacements } from './interactive.js';
+import { detectLanguage } from './languages.js';
+import { parseMarkdown } from './markdown.js';
+import { locateResult } from './positions.js';
+import { processProse, processText } from './replacer.js';
+import { segmentSentences } from './sentences.js';
+
+export interface OffsetRange {
+  start: number;
+  end: number;
+}
+
+/** Markup that wraps prose, such as "**" ... "**" or "[" ... "](url)" */
+export interface MarkupPair {
+  open: OffsetRange;
+  close: OffsetRange;
+}
+
+/** An escaped character, such as "&amp;", and the text it stands for */
+export interface EscapedCharacter extends OffsetRange {
+  text: string;
+}
+
+/** A stretch of prose in a document, as found by a format parser */
+export interface ProseRegion extends OffsetRange {
+  /** Inline markup inside the region, sorted and not overlapping */
+  markup: OffsetRange[];
+  /** Markup pairs, dropped when everything between them is removed */
+  pairs: MarkupPair[];
+  /** Escaped characters, read as the text they stand for */
+  escapes?: EscapedCharacter[];
+  /** Encode new text for writing into the region */
+  encode?: (text: string) => string;
+}
+
+/** A prose region with its markup removed and escapes read */
+export interface ProseRun extends ProseRegion {
+  text: string;
+  /** Document offset of each character of text */
+  offsets: number[];
+  /** Document offset just past each character of text */
+  ends: number[];
+}
+
+type DiffOp =
+  | { kind: 'equal' | 'delete'; start: number; end: number }
+  | { kind: 'insert'; text: string };
+
+type DiffStep = 'equal' | 'delete' | 'insert';
+
+/** A change between two texts: tokens from..to of the old text become insert */
+interface Hunk {
+  from: number;
+  to: number;
+  insert: string[];
+}
+
+export const DOCUMENT_FORMATS: readonly DocumentFormat[] = ['text', 'markdown', 'html', 'email'];
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.eml': 'email',
+};
+
+const DIFF_TOKEN = /[\p{L}\p{N}'’]+|\s+|[\s\S]/gu;
+const WHITESPACE = /^\s+$/;
+
+/**
+ * Check whether a string names a supported document format
+ */
+export function isDocumentFormat(value: string): value is DocumentFormat {
+  return (DOCUMENT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the document format for a file from its extension
+ */
+export function formatForFile(filepath: string): DocumentFormat {
+  return FORMATS_BY_EXTENSION[extname(filepath).toLowerCase()] ?? 'text';
+}
+
+/**
+ * Pick the document format for input text, from the extension of the file it
+ * came from if that names one. Plain text with quoted lines, an attribution
+ * or a signature is read as an email reply.
+ */
+export function detectFormat(text: string, filepath?: string): DocumentFormat {
+  const format = filepath ? formatForFile(filepath) : 'text';
+  return format === 'text' && isReply(text) ? 'email' : format;
+}
+
+function parseRegions(text: string, format: DocumentFormat): ProseRegion[] {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(text);
+    case 'html':
+      return parseHtml(text);
+    case 'email':
+      return parseEmail(text);
+    default:
+      return [{ start: 0, end: text.length, markup: [], pairs: [] }];
+  }
+}
+
+/**
+ * Find the prose runs of a document
+ */
+export function extractProse(text: string, format: DocumentFormat): ProseRun[] {
+  return parseRegions(text, format).map((region) => {
+    let prose = '';
+    const offsets: number[] = [];
+    const ends: number[] = [];
+    const escapes = new Map((region.escapes ?? []).map((escaped) => [escaped.start, escaped]));
+    let pos = region.start;
+    for (const markup of [...region.markup, { start: region.end, end: region.end }]) {
+      for (let i = pos; i < markup.start; i++) {
+        const escaped = escapes.get(i);
+        const end = escaped ? escaped.end : i + 1;
+        const read = escaped ? escaped.text : text[i];
+        prose += read;
+        for (let unit = 0; unit < read.length; unit++) {
+          offsets.push(i);
+          ends.push(end);
+        }
+        i = end - 1;
+      }
+      pos = Math.max(pos, markup.end);
+    }
+    return { ...region, text: prose, offsets, ends };
+  });
+}
+
+/**
+ * Map a range in a run's prose to document offsets
+ */
+function toDocument(run: ProseRun, start: number, end: number): OffsetRange {
+  const docStart = start < run.offsets.length ? run.offsets[start] : run.end;
+  return { start: docStart, end: end > start ? run.ends[end - 1] : docStart };
+}
+
+/**
+ * Map a document range back into a run's prose
+ */
+function toProse(run: ProseRun, start: number, end: number): OffsetRange {
+  const firstAtOrAfter = (offset: number) => {
+    let low = 0;
+    let high = run.offsets.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (run.offsets[mid] < offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  return { start: firstAtOrAfter(start), end: firstAtOrAfter(end) };
+}
+
+function mapMatch(match: Match, run: ProseRun, sentenceIndex: number): Match {
+  const { start, end } = toDocument(run, match.start, match.end);
+  let sentence: SentenceSpan | undefined;
+  if (match.sentence) {
+    const span = toDocument(run, match.sentence.start, match.sentence.end);
+    sentence = { index: match.sentence.index + sentenceIndex, ...span };
+  }
+  return { ...match, start, end, sentence };
+}
+
+function unmapMatch(match: Match, run: ProseRun): Match {
+  const { start, end } = toProse(run, match.start, match.end);
+  const sentence = match.sentence && {
+    ...match.sentence,
+    ...toProse(run, match.sentence.start, match.sentence.end),
+  };
+  return { ...match, start, end, sentence };
+}
+
+/**
+ * Find where a shortest edit script from a[aStart..aEnd] to b[bStart..bEnd]
+ * crosses its middle (Myers), searching from both ends at once and keeping
+ * only the furthest point on each diagonal. Returns undefined when nothing
+ * matches.
+ */
+function middleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number
+): { x: number; y: number } | undefined {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  const forward = new Int32Array(2 * max + 3).fill(-1);
+  const backward = new Int32Array(2 * max + 3).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  const odd = delta % 2 !== 0;
+
+  for (let d = 0; d < max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const reverseK = delta - k;
+      if (odd && reverseK >= -d && reverseK <= d && backward[offset + reverseK] !== -1) {
+        if (x >= n - backward[offset + reverseK]) return { x, y };
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && forward[offset + forwardK] !== -1) {
+        const forwardX = forward[offset + forwardK];
+        if (forwardX >= n - x) return { x: forwardX, y: forwardX - forwardK };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Diff a[aStart..aEnd] against b[bStart..bEnd], adding one step per token
+ * of either range
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  steps: DiffStep[]
+): void {
+  let prefix = 0;
+  while (
+    aStart + prefix < aEnd &&
+    bStart + prefix < bEnd &&
+    a[aStart + prefix] === b[bStart + prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < aEnd - aStart - prefix &&
+    suffix < bEnd - bStart - prefix &&
+    a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  for (let i = 0; i < prefix; i++) steps.push('equal');
+
+  const from = { a: aStart + prefix, b: bStart + prefix };
+  const to = { a: aEnd - suffix, b: bEnd - suffix };
+  const middle =
+    from.a < to.a && from.b < to.b ? middleSnake(a, from.a, to.a, b, from.b, to.b) : undefined;
+  if (middle) {
+    diffRange(a, from.a, from.a + middle.x, b, from.b, from.b + middle.y, steps);
+    diffRange(a, from.a + middle.x, to.a, b, from.b + middle.y, to.b, steps);
+  } else {
+    for (let i = from.a; i < to.a; i++) steps.push('delete');
+    for (let i = from.b; i < to.b; i++) steps.push('insert');
+  }
+
+  for (let i = 0; i < suffix; i++) steps.push('equal');
+}
+
+/**
+ * Diff two token lists, as one step per token of either list. The diff
+ * splits at the middle of the edit script and recurses, so it needs space
+ * linear in the lists.
+ */
+function diffTokens(a: string[], b: string[]): DiffStep[] {
+  const steps: DiffStep[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, steps);
+  return steps;
+}
+
+/**
+ * Group the steps of a diff into hunks. Whitespace left between two changes
+ * joins them into one, so the words of a single edit are replaced together.
+ */
+function toHunks(steps: DiffStep[], a: string[], b: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let aIndex = 0;
+  let bIndex = 0;
+  // Equal tokens since the current hunk, as a range of a
+  let equalFrom = 0;
+
+  for (const step of steps) {
+    if (step === 'equal') {
+      aIndex++;
+      bIndex++;
+      continue;
+    }
+    const between = a.slice(equalFrom, aIndex);
+    if (current && between.every((token) => WHITESPACE.test(token))) {
+      current.to = aIndex;
+      current.insert.push(...between);
+    } else {
+      current = { from: aIndex, to: aIndex, insert: [] };
+      hunks.push(current);
+    }
+    if (step === 'delete') {
+      current.to = ++aIndex;
+    } else {
+      current.insert.push(b[bIndex++]);
+    }
+    equalFrom = aIndex;
+  }
+
+  // Joining can leave tokens that didn't change at either end of a hunk
+  for (const hunk of hunks) {
+    while (hunk.from < hunk.to && hunk.insert.length > 0 && a[hunk.from] === hunk.insert[0]) {
+      hunk.from++;
+      hunk.insert.shift();
+    }
+    while (
+      hunk.from < hunk.to &&
+      hunk.insert.length > 0 &&
+      a[hunk.to - 1] === hunk.insert[hunk.insert.length - 1]
+    ) {
+      hunk.to--;
+      hunk.insert.pop();
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Diff two texts word by word, as operations on the old text. A deletion
+ * that could equally be made a token earlier or later ("a b b" less one "b")
+ * is placed where it crosses the fewest markup boundaries, as counted by
+ * crossings over a range of the old text.
+ */
+function diffWords(
+  before: string,
+  after: string,
+  crossings: (start: number, end: number) => number = () => 0
+): DiffOp[] {
+  const a = before.match(DIFF_TOKEN) ?? [];
+  const b = after.match(DIFF_TOKEN) ?? [];
+  const hunks = toHunks(diffTokens(a, b), a, b);
+
+  // Offset of each token of a, and of the end of the text
+  const offsets = [0];
+  for (const token of a) offsets.push(offsets[offsets.length - 1] + token.length);
+
+  hunks.forEach((hunk, i) => {
+    if (hunk.insert.length > 0 || hunk.from === hunk.to) return;
+    const low = i > 0 ? hunks[i - 1].to : 0;
+    const high = i < hunks.length - 1 ? hunks[i + 1].from : a.length;
+    let from = hunk.from;
+    let to = hunk.to;
+    while (from > low && a[from - 1] === a[to - 1]) {
+      from--;
+      to--;
+    }
+    let best = { from, to, count: Infinity };
+    for (; ; from++, to++) {
+      const count = crossings(offsets[from], offsets[to]);
+      // Ties keep the deletion the diff found
+      if (count < best.count || (count === best.count && from === hunk.from)) {
+        best = { from, to, count };
+      }
+      if (to >= high || a[from] !== a[to]) break;
+    }
+    hunk.from = best.from;
+    hunk.to = best.to;
+  });
+
+  const ops: DiffOp[] = [];
+  let pos = 0;
+  for (const hunk of hunks) {
+    if (hunk.from > pos) ops.push({ kind: 'equal', start: offsets[pos], end: offsets[hunk.from] });
+    // Deletions come before insertions, so markup between removed words is
+    // passed before the new words are written
+    if (hunk.to > hunk.from) {
+      ops.push({ kind: 'delete', start: offsets[hunk.from], end: offsets[hunk.to] });
+    }
+    if (hunk.insert.length > 0) ops.push({ kind: 'insert', text: hunk.insert.join('') });
+    pos = hunk.to;
+  }
+  if (pos < a.length) ops.push({ kind: 'equal', start: offsets[pos], end: offsets[a.length] });
+  return ops;
+}
+
+/**
+ * Check whether a range is covered by the given ranges
+ */
+function isCovered(start: number, end: number, ranges: OffsetRange[]): boolean {
+  let pos = start;
+  for (const range of [...ranges].sort((p, q) => p.start - q.start)) {
+    if (range.start > pos) break;
+    pos = Math.max(pos, range.end);
+  }
+  return pos >= end;
+}
+
+/**
+ * Index of the first range in a sorted list that starts at or after offset
+ */
+function firstStartingAt(ranges: OffsetRange[], offset: number): number {
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ranges[mid].start < offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Write a run's rewritten prose back into the document text it came from,
+ * keeping its markup. Pairs of markup left with nothing between them are
+ * dropped, and words written where a pair's contents were deleted go after
+ * the pair rather than into it.
+ */
+function mergeRun(text: string, run: ProseRun, rewritten: string): string {
+  let output = '';
+  let pos = run.start;
+  let nextMarkup = 0;
+  const markupAt = new Map<number, number>();
+  const pairsByClose = [...run.pairs].sort((p, q) => p.close.start - q.close.start);
+  const closes = pairsByClose.map((pair) => pair.close);
+
+  const passMarkup = (to: number) => {
+    while (nextMarkup < run.markup.length && run.markup[nextMarkup].start < to) {
+      const markup = run.markup[nextMarkup++];
+      if (markup.start >= pos) markupAt.set(markup.start, output.length + markup.start - pos);
+    }
+    output += text.slice(pos, to);
+    pos = to;
+  };
+
+  // Markup strictly inside the document text of a range of the prose
+  const crossings = (start: number, end: number) => {
+    if (end <= start) return 0;
+    const from = run.offsets[start];
+    const to = run.ends[end - 1];
+    return Math.max(0, firstStartingAt(run.markup, to) - firstStartingAt(run.markup, from + 1));
+  };
+
+  // Pass the closing markup of pairs whose contents a deletion removed, up to
+  // the next prose left in the run
+  const passEmptiedPairs = (deletedFrom: number) => {
+    const nextProse = toProse(run, pos, pos).start;
+    const limit = nextProse < run.offsets.length ? run.offsets[nextProse] : run.end;
+    for (
+      let i = firstStartingAt(closes, pos);
+      i < pairsByClose.length && pairsByClose[i].close.start < limit;
+      i++
+    ) {
+      const contents = toProse(run, pairsByClose[i].open.end, pairsByClose[i].close.start);
+      if (contents.start >= deletedFrom) passMarkup(pairsByClose[i].close.end);
+    }
+  };
+
+  for (const op of diffWords(run.text, rewritten, crossings)) {
+    if (op.kind === 'insert') {
+      output += run.encode ? run.encode(op.text) : op.text;
+      continue;
+    }
+    for (let i = op.start; i < op.end; i++) {
+      // The rest of an escape that stands for more than one UTF-16 unit
+      if (run.offsets[i] < pos) continue;
+      passMarkup(run.offsets[i]);
+      if (op.kind === 'equal') output += text.slice(pos, run.ends[i]);
+      pos = run.ends[i];
+    }
+    if (op.kind === 'delete') passEmptiedPairs(op.start);
+  }
+  passMarkup(run.end);
+
+  // Inner pairs first, so a pair holding only emptied pairs is emptied too
+  const removed: OffsetRange[] = [];
+  const pairs = [...run.pairs].sort(
+    (p, q) => p.close.start - p.open.end - (q.close.start - q.open.end)
+  );
+  for (const pair of pairs) {
+    const open = markupAt.get(pair.open.start);
+    const close = markupAt.get(pair.close.start);
+    if (open === undefined || close === undefined) continue;
+    const openEnd = open + pair.open.end - pair.open.start;
+    if (isCovered(openEnd, close, removed)) {
+      removed.push(
+        { start: open, end: openEnd },
+        { start: close, end: close + pair.close.end - pair.close.start }
+      );
+    }
+  }
+  for (const range of removed.sort((p, q) => q.start - p.start)) {
+    output = output.slice(0, range.start) + output.slice(range.end);
+  }
+
+  return output;
+}
+
+/**
+ * Rebuild a document from the rewritten prose of each of its runs
+ */
+function mergeRuns(text: string, runs: ProseRun[], rewritten: string[]): string {
+  let output = '';
+  let pos = 0;
+  runs.forEach((run, i) => {
+    output += text.slice(pos, run.start);
+    output +=
+      rewritten[i] === run.text
+        ? text.slice(run.start, run.end)
+        : mergeRun(text, run, rewritten[i]);
+    pos = run.end;
+  });
+  return output + text.slice(pos);
+}
+
+/**
+ * Process a document, sending only its prose through the rules. Match
+ * offsets, lines and columns refer to the document.
+ */
+export function processDocument(
+  text: string,
+  format: DocumentFormat,
+  level: StrictnessLevel,
+  language?: Language
+): ProcessResult {
+  if (format === 'text') {
+    return { ...processText(text, level, language), format };
+  }
+
+  const runs = extractProse(text, format);
+  const runLanguage = language ?? detectLanguage(runs.map((run) => run.text).join('\n\n'));
+  const replacements: Match[] = [];
+  const suggestions: Match[] = [];
+  const repairs: NonNullable<ProcessResult['repairs']> = [];
+  const rewritten: string[] = [];
+  let sentenceIndex = 0;
+
+  for (const run of runs) {
+    const result = processProse(run.text, level, runLanguage);
+    replacements.push(...result.replacements.map((m) => mapMatch(m, run, sentenceIndex)));
+    suggestions.push(...result.suggestions.map((m) => mapMatch(m, run, sentenceIndex)));
+    repairs.push(...(result.repairs ?? []));
+    rewritten.push(result.transformed);
+    sentenceIndex += segmentSentences(run.text).length;
+  }
+
+  return locateResult({
+    original: text,
+    transformed: mergeRuns(text, runs, rewritten),
+    replacements,
+    suggestions,
+    repairs,
+    language: runLanguage,
+    format,
+  });
+}
+
+/**
+ * Apply accepted replacements to a document, one prose run at a time
+ */
+export function applyDocumentReplacements(
+  original: string,
+  accepted: Match[],
+  format: DocumentFormat = 'text',
+  language: Language = 'en'
+): string {
+  if (format === 'text') {
+    return applyAcceptedReplacements(original, accepted, language);
+  }
+
+  const runs = extractProse(original, format);
+  const rewritten = runs.map((run) => {
+    const inRun = accepted
+      .filter((match) => match.start >= run.start && match.end <= run.end)
+      .map((match) => unmapMatch(match, run));
+    return applyAcceptedReplacements(run.text, inRun, language);
+  });
+  return mergeRuns(original, runs, rewritten);
+}
@@ -0,0 +1,400 @@
+/**
+ * Email structure for speak-strong.
+ *
+ * Finds the author's own text in an email: an RFC 5322 message (.eml) or a
+ * plain reply. Headers, the ">"-quoted thread, attribution lines ("On Tue,
+ * Sam wrote:"), forwarded or original messages and the signature below
+ * "-- " are not prose. Multipart messages are split into their parts; text
+ * parts are read, quoted-printable ones decoded, and HTML parts handled by
+ * the HTML parser with their <blockquote> thread skipped. Attachments and
+ * base64 parts are left alone.
+ */
+
+import type { EscapedCharacter, MarkupPair, OffsetRange, ProseRegion } from './document.js';
+import { parseHtml } from './html.js';
+
+interface Headers {
+  fields: Map<string, string>;
+  /** Offset of the body, after the blank line that ends the headers */
+  bodyStart: number;
+}
+
+/** A body read through its transfer encoding */
+interface DecodedBody {
+  text: string;
+  /** Offset in the message of each character of text */
+  starts: number[];
+  /** Offset in the message just past each character of text */
+  ends: number[];
+  /** Encode new text for the body's transfer encoding */
+  encode?: (text: string) => string;
+}
+
+const HEADER_FIELD = /^[!-9;-~]+:/;
+const HEADER_CONTINUATION = /^[ \t]+\S/;
+const SIGNATURE = /^--[ \t]?$/;
+const THREAD_SEPARATOR =
+  /^(?:-{2,}[ \t]*(?:Original Message|Forwarded message|Ursprüngliche Nachricht|Message d'origine|Mensaje original)[ \t]*-{2,}|_{10,})[ \t]*$/i;
+const QUOTED = /^[ \t]*>/;
+// "On Tue, 3 Jun 2025 at 10:00, Sam <sam@example.com> wrote:" and its translations
+const ATTRIBUTION_START = /^[ \t]*(?:On|Am|Le|El)[ \t]\S/;
+// German puts the name after the verb: "Am 3. Juni schrieb Sam <sam@example.com>:"
+const ATTRIBUTION_END = /(?:wrote|schrieb|a écrit|escribió)(?:[ \t][^:]*)?:[ \t]*$/i;
+const UTF8_CHARSETS = new Set(['utf-8', 'utf8', 'us-ascii', 'ascii']);
+
+/**
+ * Split text into lines with their offsets; the end excludes the line break
+ */
+function lines(text: string, start: number, end: number): OffsetRange[] {
+  const result: OffsetRange[] = [];
+  let pos = start;
+  while (pos < end) {
+    const newline = text.indexOf('\n', pos);
+    const next = newline === -1 || newline >= end ? end : newline + 1;
+    let lineEnd = next;
+    if (text[lineEnd - 1] === '\n') lineEnd--;
+    if (text[lineEnd - 1] === '\r') lineEnd--;
+    result.push({ start: pos, end: lineEnd });
+    pos = next;
+  }
+  return result;
+}
+
+/**
+ * Read a header block starting at start, if the text starts with one
+ */
+function readHeaders(text: string, start: number, end: number): Headers | undefined {
+  const fields = new Map<string, string>();
+  let name: string | undefined;
+
+  for (const line of lines(text, start, end)) {
+    const content = text.slice(line.start, line.end);
+    if (content === '') {
+      const newline = text.indexOf('\n', line.start);
+      const bodyStart = newline === -1 || newline >= end ? end : newline + 1;
+      return name ? { fields, bodyStart } : undefined;
+    }
+    if (name && HEADER_CONTINUATION.test(content)) {
+      fields.set(name, `${fields.get(name)} ${content.trim()}`);
+    } else if (HEADER_FIELD.test(content)) {
+      const colon = content.indexOf(':');
+      name = content.slice(0, colon).toLowerCase();
+      fields.set(name, content.slice(colon + 1).trim());
+    } else {
+      return undefined;
+    }
+  }
+  return name ? { fields, bodyStart: end } : undefined;
+}
+
+/**
+ * Split a header value such as 'text/plain; charset="utf-8"' into its value
+ * and lowercased parameter names
+ */
+function parseHeaderValue(value = ''): { value: string; params: Map<string, string> } {
+  const [main, ...rest] = value.split(';');
+  const params = new Map<string, string>();
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+    const key = param.slice(0, equals).trim().toLowerCase();
+    params.set(
+      key,
+      param
+        .slice(equals + 1)
+        .trim()
+        .replace(/^"(.*)"$/, '$1')
+    );
+  }
+  return { value: main.trim().toLowerCase(), params };
+}
+
+function plainBody(text: string, start: number, end: number): DecodedBody {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let i = start; i < end; i++) {
+    starts.push(i);
+    ends.push(i + 1);
+  }
+  return { text: text.slice(start, end), starts, ends };
+}
+
+/**
+ * Encode text as quoted-printable, leaving printable ASCII as it is
+ */
+export function encodeQuotedPrintable(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    if (char !== '=' && /^[\t\x20-\x7e]$/.test(char)) {
+      encoded += char;
+    } else {
+      for (const byte of new TextEncoder().encode(char)) {
+        encoded += `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      }
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Read a UTF-8 quoted-printable body. Soft line breaks read as nothing, and
+ * each run of "=XX" bytes reads as the characters it encodes.
+ */
+function decodeQuotedPrintable(text: string, start: number, end: number): DecodedBody {
+  const body: DecodedBody = { text: '', starts: [], ends: [], encode: encodeQuotedPrintable };
+  const softBreak = /=\r?\n/y;
+  const encodedByte = /=([\da-fA-F]{2})/y;
+
+  // The bytes of one character may be split by soft line breaks
+  const readByte = (pos: number): { byte: number; end: number } | undefined => {
+    let at = pos;
+    softBreak.lastIndex = at;
+    while (softBreak.test(text) && softBreak.lastIndex <= end) at = softBreak.lastIndex;
+    encodedByte.lastIndex = at;
+    const match = encodedByte.exec(text);
+    return match && encodedByte.lastIndex <= end
+      ? { byte: Number.parseInt(match[1], 16), end: encodedByte.lastIndex }
+      : undefined;
+  };
+
+  let i = start;
+  while (i < end) {
+    softBreak.lastIndex = i;
+    if (softBreak.test(text) && softBreak.lastIndex <= end) {
+      i = softBreak.lastIndex;
+      continue;
+    }
+
+    const first = text[i] === '=' ? readByte(i) : undefined;
+    if (!first) {
+      body.text += text[i];
+      body.starts.push(i);
+      body.ends.push(i + 1);
+      i++;
+      continue;
+    }
+
+    // A UTF-8 character takes as many bytes as its lead byte says
+    const length = first.byte >= 0xf0 ? 4 : first.byte >= 0xe0 ? 3 : first.byte >= 0xc0 ? 2 : 1;
+    const bytes = [first.byte];
+    let charEnd = first.end;
+    while (bytes.length < length) {
+      const next = readByte(charEnd);
+      if (!next) break;
+      bytes.push(next.byte);
+      charEnd = next.end;
+    }
+    const char = new TextDecoder().decode(new Uint8Array(bytes));
+    body.text += char;
+    for (let unit = 0; unit < char.length; unit++) {
+      body.starts.push(i);
+      body.ends.push(charEnd);
+    }
+    i = charEnd;
+  }
+  return body;
+}
+
+/**
+ * Find the author's own text in a plain-text body, as ranges of the body,
+ * one per paragraph
+ */
+function authorBlocks(body: string): OffsetRange[] {
+  const blocks: OffsetRange[] = [];
+  let block: OffsetRange | undefined;
+  const finish = () => {
+    if (block) blocks.push(block);
+    block = undefined;
+  };
+
+  const bodyLines = lines(body, 0, body.length);
+  for (let i = 0; i < bodyLines.length; i++) {
+    const line = bodyLines[i];
+    const content = body.slice(line.start, line.end);
+
+    if (SIGNATURE.test(content) || THREAD_SEPARATOR.test(content)) break;
+
+    const attribution =
+      ATTRIBUTION_START.test(content) &&
+      (ATTRIBUTION_END.test(content) ||
+        (i + 1 < bodyLines.length &&
+          ATTRIBUTION_END.test(body.slice(bodyLines[i + 1].start, bodyLines[i + 1].end))));
+    if (attribution) {
+      if (!ATTRIBUTION_END.test(content)) i++;
+      finish();
+      continue;
+    }
+
+    if (QUOTED.test(content)) {
+      finish();
+      continue;
+    }
+
+    if (/\S/.test(content)) {
+      block ??= { start: line.start, end: line.end };
+      block.end = line.end;
+    } else {
+      finish();
+    }
+  }
+  finish();
+
+  return blocks.map((range) => {
+    const text = body.slice(range.start, range.end);
+    const lead = text.length - text.trimStart().length;
+    return { start: range.start + lead, end: range.start + text.trimEnd().length };
+  });
+}
+
+/**
+ * Map a region found in a decoded body back to the message. Characters the
+ * transfer encoding escaped become escaped characters, and soft line breaks
+ * become markup.
+ */
+function toMessage(region: ProseRegion, body: DecodedBody): ProseRegion {
+  const range = ({ start, end }: OffsetRange) => ({
+    start: body.starts[start],
+    end: body.ends[end - 1],
+  });
+  const markup = region.markup.map(range);
+  const escapes: EscapedCharacter[] = (region.escapes ?? []).map((escaped) => ({
+    ...range(escaped),
+    text: escaped.text,
+  }));
+  const covered = [...region.markup, ...(region.escapes ?? [])];
+  const isCovered = (i: number) => covered.some((r) => i >= r.start && i < r.end);
+
+  for (let i = region.start; i < region.end; i++) {
+    if (i > region.start && body.starts[i] > body.ends[i - 1] && !isCovered(i)) {
+      markup.push({ start: body.ends[i - 1], end: body.starts[i] });
+    }
+    if (isCovered(i)) continue;
+    let last = i;
+    while (last + 1 < region.end && body.starts[last + 1] === body.starts[i]) last++;
+    if (body.ends[i] - body.starts[i] !== last - i + 1) {
+      escapes.push({
+        start: body.starts[i],
+        end: body.ends[i],
+        text: body.text.slice(i, last + 1),
+      });
+    }
+    i = last;
+  }
+
+  const pairs: MarkupPair[] = region.pairs.map((pair) => ({
+    open: range(pair.open),
+    close: range(pair.close),
+  }));
+  const encodeBody = body.encode;
+  const encodeRegion = region.encode;
+  return {
+    ...range(region),
+    markup: markup.sort((a, b) => a.start - b.start),
+    pairs,
+    escapes,
+    encode:
+      encodeBody || encodeRegion
+        ? (text: string) => {
+            const encoded = encodeRegion ? encodeRegion(text) : text;
+            return encodeBody ? encodeBody(encoded) : encoded;
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Find the prose of one body: a text part, or a multipart body's parts
+ */
+function bodyRegions(
+  text: string,
+  headers: Map<string, string>,
+  start: number,
+  end: number
+): ProseRegion[] {
+  const type = parseHeaderValue(headers.get('content-type') ?? 'text/plain');
+  const disposition = parseHeaderValue(headers.get('content-disposition')).value;
+  const encoding = parseHeaderValue(headers.get('content-transfer-encoding') ?? '7bit').value;
+
+  if (type.value.startsWith('multipart/')) {
+    const boundary = type.params.get('boundary');
+    return boundary ? multipartRegions(text, boundary, start, end) : [];
+  }
+  if (disposition === 'attachment' || !['text/plain', 'text/html'].includes(type.value)) return [];
+
+  let body: DecodedBody;
+  if (encoding === 'quoted-printable') {
+    const charset = (type.params.get('charset') ?? 'us-ascii').toLowerCase();
+    if (!UTF8_CHARSETS.has(charset)) return [];
+    body = decodeQuotedPrintable(text, start, end);
+  } else if (['7bit', '8bit', 'binary'].includes(encoding)) {
+    body = plainBody(text, start, end);
+  } else {
+    return [];
+  }
+
+  const regions =
+    type.value === 'text/html'
+      ? parseHtml(body.text, { skipQuotes: true })
+      : authorBlocks(body.text).map((block) => ({ ...block, markup: [], pairs: [] }));
+  return regions.map((region) => toMessage(region, body));
+}
+
+/**
+ * Find the prose of each part of a multipart body
+ */
+function multipartRegions(
+  text: string,
+  boundary: string,
+  start: number,
+  end: number
+): ProseRegion[] {
+  const regions: ProseRegion[] = [];
+  const delimiters = lines(text, start, end).filter((line) =>
+    text.slice(line.start, line.end).trimEnd().startsWith(`--${boundary}`)
+  );
+
+  for (let i = 0; i + 1 < delimiters.length; i++) {
+    if (text.slice(delimiters[i].start, delimiters[i].end).trimEnd() === `--${boundary}--`) break;
+    const partStart = text.indexOf('\n', delimiters[i].end) + 1;
+    // The line break before the next delimiter belongs to the delimiter
+    let partEnd = delimiters[i + 1].start;
+    if (text[partEnd - 1] === '\n') partEnd--;
+    if (text[partEnd - 1] === '\r') partEnd--;
+    if (partStart <= 0 || partStart > partEnd) continue;
+
+    const partHeaders =
+      text.startsWith('\n', partStart) || text.startsWith('\r\n', partStart)
+        ? { fields: new Map<string, string>(), bodyStart: text.indexOf('\n', partStart) + 1 }
+        : readHeaders(text, partStart, partEnd);
+    if (!partHeaders) continue;
+    regions.push(...bodyRegions(text, partHeaders.fields, partHeaders.bodyStart, partEnd));
+  }
+  return regions;
+}
+
+/**
+ * Check whether plain text has the structure of a reply: ">"-quoted lines,
+ * an attribution line or a "-- " signature
+ */
+export function isReply(text: string): boolean {
+  const contents = lines(text, 0, text.length).map((line) => text.slice(line.start, line.end));
+  return contents.some(
+    (content, i) =>
+      QUOTED.test(content) ||
+      SIGNATURE.test(content) ||
+      (ATTRIBUTION_START.test(content) &&
+        (ATTRIBUTION_END.test(content) || ATTRIBUTION_END.test(contents[i + 1] ?? '')))
+  );
+}
+
+/**
+ * Find the prose regions of an email: a message with headers, or the plain
+ * text of a reply
+ */
+export function parseEmail(text: string): ProseRegion[] {
+  const headers = readHeaders(text, 0, text.length);
+  if (headers) {
+    return bodyRegions(text, headers.fields, headers.bodyStart, text.length);
+  }
+  return authorBlocks(text).map((block) => ({ ...block, markup: [], pairs: [] }));
+}
@@ -1,15 +1,17 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { join, resolve } from 'node:path';
 import type {
+  BatchFileResult,
   HistoryDatabase,
   HistoryEntry,
+  HistoryFile,
   ProcessResult,
   StrictnessLevel,
 } from '../types/index.js';
 import { bold, cyan, dim, green, red, yellow } from '../utils/colors.js';
 import { getConfig } from '../utils/config.js';
-import { writeTextFile } from '../utils/file.js';
+import { STDIN_PATH, writeTextFile } from '../utils/file.js';
 
 function getHistoryDir(): string {
   const config = getConfig();
@@ -103,15 +105,23 @@ export function getLatestEntry(): HistoryEntry | null {
   return db.entries[0] || null;
 }
 
+/**
+ * Make a path absolute so --undo works from any directory
+ */
+function absolutePath(path: string | undefined): string | undefined {
+  return path && path !== STDIN_PATH ? resolve(path) : path;
+}
+
 export function createEntryFromResult(
   result: ProcessResult,
   level: StrictnessLevel,
-  options: { inputFile?: string; inputMessage?: string; outputFile?: string }
+  options: { inputFile?: string; inputMessage?: string; outputFile?: string; backupFile?: string }
 ): Omit<HistoryEntry, 'id' | 'timestamp'> {
   return {
-    inputFile: options.inputFile,
+    inputFile: absolutePath(options.inputFile),
     inputMessage: options.inputMessage,
-    outputFile: options.outputFile,
+    outputFile: absolutePath(options.outputFile),
+    backupFile: absolutePath(options.backupFile),
     original: result.original,
     transformed: result.transformed,
     level,
@@ -120,6 +130,44 @@ export function createEntryFromResult(
   };
 }
 
+/**
+ * Create one entry for the files a batch run wrote, so a single --undo
+ * restores all of them. Returns null when no file was changed.
+ */
+export function createBatchEntry(
+  results: BatchFileResult[],
+  level: StrictnessLevel
+): Omit<HistoryEntry, 'id' | 'timestamp'> | null {
+  const written = results.filter(
+    ({ result, outputFile }) => outputFile && result.replacements.length > 0
+  );
+  if (written.length === 0) return null;
+
+  const files: HistoryFile[] = written.map(({ file, result, outputFile, backupFile }) => ({
+    inputFile: resolve(file),
+    outputFile: resolve(outputFile as string),
+    backupFile: absolutePath(backupFile),
+    original: result.original,
+    transformed: result.transformed,
+  }));
+
+  return {
+    files,
+    original: '',
+    transformed: '',
+    level,
+    replacementCount: written.reduce((sum, { result }) => sum + result.replacements.length, 0),
+    suggestionCount: written.reduce((sum, { result }) => sum + result.suggestions.length, 0),
+  };
+}
+
+function describeSource(entry: HistoryEntry): string {
+  if (entry.files) {
+    return `${entry.files.length} file${entry.files.length === 1 ? '' : 's'}`;
+  }
+  return entry.inputFile || '(message)';
+}
+
 export function formatHistoryList(entries: HistoryEntry[]): string {
   if (entries.length === 0) {
     return dim('No history entries found.');
@@ -131,7 +179,7 @@ export function formatHistoryList(entries: HistoryEntry[]): string {
   for (const entry of entries) {
     const date = new Date(entry.timestamp);
     const timeStr = date.toLocaleString();
-    const source = entry.inputFile || '(message)';
+    const source = describeSource(entry);
     const stats = `${entry.replacementCount} replacement${entry.replacementCount === 1 ? '' : 's'}`;
 
     lines.push(`  ${cyan(entry.id)}  ${dim(timeStr)}`);
@@ -156,9 +204,21 @@ export function formatEntryDetails(entry: HistoryEntry): string {
   if (entry.outputFile) {
     lines.push(`  ${dim('Output file:')} ${entry.outputFile}`);
   }
+  if (entry.backupFile) {
+    lines.push(`  ${dim('Backup file:')} ${entry.backupFile}`);
+  }
 
   lines.push(`  ${dim('Replacements:')} ${entry.replacementCount}`);
   lines.push(`  ${dim('Suggestions:')} ${entry.suggestionCount}`);
+
+  if (entry.files) {
+    lines.push(`  ${dim('Files:')}`);
+    for (const file of entry.files) {
+      lines.push(`    ${file.outputFile}`);
+    }
+    return lines.join('\n');
+  }
+
   lines.push('');
   lines.push(bold(red('── Original ──────────────────────────────────────')));
   lines.push(entry.original);
@@ -169,26 +229,19 @@ export function formatEntryDetails(entry: HistoryEntry): string {
   return lines.join('\n');
 }
 
-export function undoEntry(entry: HistoryEntry): { success: boolean; message: string } {
-  if (!entry.outputFile) {
-    return {
-      success: false,
-      message: `Cannot undo: output was to stdout.\n\nOriginal text was:\n${dim('─'.repeat(50))}\n${entry.original}`,
-    };
-  }
-
-  if (!existsSync(entry.outputFile)) {
+function restoreFile(outputFile: string, original: string): { success: boolean; message: string } {
+  if (!existsSync(outputFile)) {
     return {
       success: false,
-      message: `Cannot undo: output file no longer exists: ${entry.outputFile}`,
+      message: `Cannot undo: output file no longer exists: ${outputFile}`,
     };
   }
 
   try {
-    writeTextFile(entry.outputFile, entry.original);
+    writeTextFile(outputFile, original);
     return {
       success: true,
-      message: `Restored original content to ${entry.outputFile}`,
+      message: `Restored original content to ${outputFile}`,
     };
   } catch (err) {
     return {
@@ -197,3 +250,29 @@ export function undoEntry(entry: HistoryEntry): { success: boolean; message: str
     };
   }
 }
+
+/**
+ * Restore every file of a batch entry, carrying on past files that fail
+ */
+function undoFiles(files: HistoryFile[]): { success: boolean; message: string } {
+  const results = files.map((file) => restoreFile(file.outputFile, file.original));
+  return {
+    success: results.every((result) => result.success),
+    message: results.map((result) => result.message).join('\n'),
+  };
+}
+
+export function undoEntry(entry: HistoryEntry): { success: boolean; message: string } {
+  if (entry.files) {
+    return undoFiles(entry.files);
+  }
+
+  if (!entry.outputFile) {
+    return {
+      success: false,
+      message: `Cannot undo: output was to stdout.\n\nOriginal text was:\n${dim('─'.repeat(50))}\n${entry.original}`,
+    };
+  }
+
+  return restoreFile(entry.outputFile, entry.original);
+}
@@ -0,0 +1,281 @@
+/**
+ * HTML structure for speak-strong.
+ *
+ * Finds the prose in an HTML document: the text of each block element, with
+ * inline elements such as <b>, <em> and <a> as markup inside it, so rules
+ * match across "I <b>just</b> wanted to". Tags and their attributes are
+ * never rewritten. The contents of <code>, <pre>, <script>, <style> and
+ * <textarea> are not prose, and neither are comments. Character references
+ * such as "&nbsp;" and "&rsquo;" are read as the characters they stand for.
+ */
+
+import type { EscapedCharacter, MarkupPair, OffsetRange, ProseRegion } from './document.js';
+
+export interface HtmlOptions {
+  /** Skip <blockquote> elements, such as the quoted thread of an email */
+  skipQuotes?: boolean;
+}
+
+interface OpenRegion extends OffsetRange {
+  markup: OffsetRange[];
+  escapes: EscapedCharacter[];
+  openTags: Array<OffsetRange & { name: string }>;
+  pairs: MarkupPair[];
+}
+
+// Elements whose text flows into the surrounding sentence
+const INLINE_ELEMENTS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'cite',
+  'data',
+  'del',
+  'dfn',
+  'em',
+  'font',
+  'i',
+  'img',
+  'ins',
+  'label',
+  'mark',
+  'q',
+  's',
+  'small',
+  'span',
+  'strike',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+  'wbr',
+]);
+
+// Elements whose contents are not prose, kept inline or between blocks
+const RAW_INLINE_ELEMENTS = new Set(['code', 'kbd', 'samp']);
+const RAW_BLOCK_ELEMENTS = new Set(['pre', 'script', 'style', 'textarea', 'template']);
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const NAMED_REFERENCES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  eacute: 'é',
+  egrave: 'è',
+  aacute: 'á',
+  agrave: 'à',
+  iacute: 'í',
+  oacute: 'ó',
+  uacute: 'ú',
+  ntilde: 'ñ',
+  ccedil: 'ç',
+  auml: 'ä',
+  ouml: 'ö',
+  uuml: 'ü',
+  szlig: 'ß',
+};
+
+const TAG = /<(\/?)([A-Za-z][\w:-]*)(?:\s(?:[^<>"']|"[^"]*"|'[^']*')*)?\/?>/y;
+const CHARACTER_REFERENCE = /&(?:#(\d{1,7})|#[xX]([\da-fA-F]{1,6})|([A-Za-z]\w{1,31}));/y;
+const SPECIAL_MARKUP = ['<!--', '<!', '<?'];
+
+/**
+ * Escape text for writing into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Read a character reference at pos, if there is one the parser knows
+ */
+function readReference(text: string, pos: number): EscapedCharacter | undefined {
+  CHARACTER_REFERENCE.lastIndex = pos;
+  const match = CHARACTER_REFERENCE.exec(text);
+  if (!match) return undefined;
+
+  let decoded: string | undefined;
+  if (match[3]) {
+    decoded = NAMED_REFERENCES[match[3]];
+  } else {
+    const code = match[1] ? Number.parseInt(match[1], 10) : Number.parseInt(match[2], 16);
+    decoded = code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+  }
+  return decoded === undefined
+    ? undefined
+    : { start: pos, end: CHARACTER_REFERENCE.lastIndex, text: decoded };
+}
+
+/**
+ * Find the end of special markup at pos: a comment, doctype, CDATA section
+ * or processing instruction
+ */
+function specialMarkupEnd(text: string, pos: number): number {
+  const close = text.startsWith('<!--', pos)
+    ? text.indexOf('-->', pos + 4) + 3
+    : text.startsWith('<![CDATA[', pos)
+      ? text.indexOf(']]>', pos) + 3
+      : text.indexOf('>', pos) + 1;
+  return close > pos ? close : text.length;
+}
+
+/**
+ * Find the end of an element's closing tag, counting nested elements of the
+ * same name, or the end of the text
+ */
+function elementEnd(text: string, pos: number, name: string): number {
+  const tags = new RegExp(`<(/?)${name}(?=[\\s/>])[^>]*>`, 'ig');
+  tags.lastIndex = pos;
+  let depth = 1;
+  for (let match = tags.exec(text); match; match = tags.exec(text)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return text.length;
+}
+
+/**
+ * Trim whitespace at either end of a region, then drop the markup and pairs
+ * that fall outside it. Regions without any text are dropped.
+ */
+function finishRegion(text: string, region: OpenRegion): ProseRegion | undefined {
+  const inMarkup = (pos: number) =>
+    region.markup.some((markup) => pos >= markup.start && pos < markup.end);
+  const isText = (pos: number) => /\S/.test(text[pos]) && !inMarkup(pos);
+
+  let { start, end } = region;
+  while (start < end && !isText(start) && !inMarkup(start)) start++;
+  while (end > start && !isText(end - 1) && !inMarkup(end - 1)) end--;
+
+  let hasText = false;
+  for (let pos = start; pos < end && !hasText; pos++) hasText = isText(pos);
+  if (!hasText) return undefined;
+
+  const inside = (range: OffsetRange) => range.start >= start && range.end <= end;
+  return {
+    start,
+    end,
+    markup: region.markup.filter(inside),
+    pairs: region.pairs.filter((pair) => inside(pair.open) && inside(pair.close)),
+    escapes: region.escapes.filter(inside),
+    encode: escapeHtml,
+  };
+}
+
+/**
+ * Find the prose regions of an HTML document
+ */
+export function parseHtml(text: string, options: HtmlOptions = {}): ProseRegion[] {
+  const regions: ProseRegion[] = [];
+  let current: OpenRegion | undefined;
+
+  const open = (pos: number): OpenRegion => {
+    current ??= { start: pos, end: pos, markup: [], escapes: [], openTags: [], pairs: [] };
+    return current;
+  };
+  const close = () => {
+    const region = current && finishRegion(text, current);
+    if (region) regions.push(region);
+    current = undefined;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '<' && SPECIAL_MARKUP.some((prefix) => text.startsWith(prefix, i))) {
+      const end = specialMarkupEnd(text, i);
+      if (current) {
+        current.markup.push({ start: i, end });
+        current.end = end;
+      }
+      i = end;
+      continue;
+    }
+
+    if (char === '<') {
+      TAG.lastIndex = i;
+      const tag = TAG.exec(text);
+      if (tag) {
+        const closing = tag[1] === '/';
+        const name = tag[2].toLowerCase();
+        const range = { start: i, end: TAG.lastIndex };
+        i = range.end;
+
+        const skipped =
+          RAW_BLOCK_ELEMENTS.has(name) || (options.skipQuotes && name === 'blockquote');
+        if (!closing && skipped) {
+          close();
+          i = elementEnd(text, i, name);
+        } else if (!closing && RAW_INLINE_ELEMENTS.has(name)) {
+          const region = open(range.start);
+          i = elementEnd(text, i, name);
+          region.markup.push({ start: range.start, end: i });
+          region.end = i;
+        } else if (INLINE_ELEMENTS.has(name)) {
+          const region = open(range.start);
+          region.markup.push(range);
+          region.end = range.end;
+          if (closing) {
+            const opener = region.openTags.map((t) => t.name).lastIndexOf(name);
+            if (opener !== -1) {
+              const { start, end } = region.openTags[opener];
+              region.pairs.push({ open: { start, end }, close: range });
+              region.openTags.length = opener;
+            }
+          } else if (!(VOID_ELEMENTS.has(name) || tag[0].endsWith('/>'))) {
+            region.openTags.push({ ...range, name });
+          }
+        } else {
+          close();
+        }
+        continue;
+      }
+    }
+
+    const region = open(i);
+    const reference = char === '&' ? readReference(text, i) : undefined;
+    if (reference) {
+      region.escapes.push(reference);
+      i = reference.end;
+    } else {
+      i++;
+    }
+    region.end = i;
+  }
+  close();
+
+  return regions;
+}
@@ -1,27 +1,52 @@
-import type { InteractiveAction, InteractiveResult, Match, ProcessResult } from '../types/index.js';
+import { closeSync, openSync } from 'node:fs';
+import { ReadStream } from 'node:tty';
+import type {
+  InteractiveAction,
+  InteractiveResult,
+  Language,
+  Match,
+  ProcessResult,
+} from '../types/index.js';
 import { bold, cyan, dim, green, red, yellow } from '../utils/colors.js';
+import { applySpans } from './rule-engine.js';
 
-function enableRawMode(): void {
-  if (process.stdin.isTTY) {
-    process.stdin.setRawMode(true);
+const TERMINAL_PATH = '/dev/tty';
+
+/**
+ * Open the terminal to read keys from: stdin, or /dev/tty when text is
+ * piped into stdin
+ */
+function openKeyboard(): ReadStream {
+  return process.stdin.isTTY ? process.stdin : new ReadStream(openSync(TERMINAL_PATH, 'r'));
+}
+
+function closeKeyboard(keyboard: ReadStream): void {
+  if (keyboard !== process.stdin) {
+    keyboard.destroy();
   }
-  process.stdin.resume();
 }
 
-function disableRawMode(): void {
-  if (process.stdin.isTTY) {
-    process.stdin.setRawMode(false);
+function enableRawMode(keyboard: ReadStream): void {
+  if (keyboard.isTTY) {
+    keyboard.setRawMode(true);
   }
-  process.stdin.pause();
+  keyboard.resume();
 }
 
-function readKeypress(): Promise<string> {
+function disableRawMode(keyboard: ReadStream): void {
+  if (keyboard.isTTY) {
+    keyboard.setRawMode(false);
+  }
+  keyboard.pause();
+}
+
+function readKeypress(keyboard: ReadStream): Promise<string> {
   return new Promise((resolve) => {
     const onData = (data: Buffer) => {
-      process.stdin.removeListener('data', onData);
+      keyboard.removeListener('data', onData);
       resolve(data.toString());
     };
-    process.stdin.on('data', onData);
+    keyboard.on('data', onData);
   });
 }
 
@@ -55,6 +80,7 @@ function parseKeypress(key: string): InteractiveAction | null {
 }
 
 async function promptForAction(
+  keyboard: ReadStream,
   match: Match,
   index: number,
   total: number
@@ -63,7 +89,7 @@ async function promptForAction(
   process.stderr.write(formatPrompt());
 
   while (true) {
-    const key = await readKeypress();
+    const key = await readKeypress(keyboard);
     const action = parseKeypress(key);
 
     if (action) {
@@ -79,50 +105,20 @@ async function promptForAction(
   }
 }
 
-export function applyAcceptedReplacements(original: string, accepted: Match[]): string {
+export function applyAcceptedReplacements(
+  original: string,
+  accepted: Match[],
+  language: Language = 'en'
+): string {
   if (accepted.length === 0) return original;
 
-  const sortedByPosition = [...accepted].sort((a, b) => b.start - a.start);
-
-  let result = original;
-  for (const match of sortedByPosition) {
-    const before = result.slice(0, match.start);
-    const after = result.slice(match.end);
-    result = before + (match.replacement || '') + after;
-  }
-
-  // Clean up multiple spaces within lines (preserve newlines and tabs)
-  // Split by newlines, process each line, then rejoin
-  const lines = result.split('\n');
-  const cleanedLines = lines.map((line) => {
-    // Collapse multiple spaces within the line (but preserve tabs)
-    let cleaned = line.replace(/[ ]{2,}/g, ' ');
-    // Fix punctuation spacing (e.g., " ," becomes ",")
-    cleaned = cleaned.replace(/\s+([.,!?;:])/g, '$1');
-    // Remove leading spaces (but preserve tabs for indentation)
-    cleaned = cleaned.replace(/^[ ]+/g, '');
-    // Remove trailing spaces
-    cleaned = cleaned.replace(/[ ]+$/g, '');
-    return cleaned;
-  });
-  result = cleanedLines.join('\n');
-
-  // Fix sentence start after removal (capitalize first letter after . ! ?)
-  result = result.replace(/([.!?]\s+)([a-z])/g, (_, punct, letter) => punct + letter.toUpperCase());
-
-  // Capitalize first letter of text if it starts lowercase (only on first non-whitespace char)
-  const firstNonWhitespace = result.search(/\S/);
-  if (
-    firstNonWhitespace !== -1 &&
-    result[firstNonWhitespace] !== result[firstNonWhitespace].toUpperCase()
-  ) {
-    result =
-      result.slice(0, firstNonWhitespace) +
-      result[firstNonWhitespace].toUpperCase() +
-      result.slice(firstNonWhitespace + 1);
-  }
-
-  return result;
+  const spans = accepted.map((match) => ({
+    start: match.start,
+    end: match.end,
+    replacement: match.replacement || '',
+    atSentenceStart: match.sentence?.start === match.start,
+  }));
+  return applySpans(original, spans, language).text;
 }
 
 export async function runInteractive(result: ProcessResult): Promise<InteractiveResult> {
@@ -141,12 +137,13 @@ export async function runInteractive(result: ProcessResult): Promise<Interactive
     )
   );
 
-  enableRawMode();
+  const keyboard = openKeyboard();
+  enableRawMode(keyboard);
 
   try {
     for (let i = 0; i < replacements.length; i++) {
       const match = replacements[i];
-      const action = await promptForAction(match, i, replacements.length);
+      const action = await promptForAction(keyboard, match, i, replacements.length);
 
       switch (action) {
         case 'accept':
@@ -175,12 +172,21 @@ export async function runInteractive(result: ProcessResult): Promise<Interactive
       }
     }
   } finally {
-    disableRawMode();
+    disableRawMode(keyboard);
+    closeKeyboard(keyboard);
   }
 
   return { accepted, skipped, quit: false };
 }
 
 export function isInteractiveSupported(): boolean {
-  return process.stdin.isTTY === true;
+  if (process.stdin.isTTY) {
+    return true;
+  }
+  try {
+    closeSync(openSync(TERMINAL_PATH, 'r'));
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,137 @@
+/**
+ * Languages speak-strong has rule packs for.
+ *
+ * Each language has its own rules database and tokenizer settings. When no
+ * language is given, it is detected from the function words the text uses.
+ */
+
+import type { Language } from '../types/index.js';
+import { normalizeForMatching } from './tokenizer.js';
+
+export const LANGUAGES: readonly Language[] = ['en', 'es', 'de', 'fr'];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+};
+
+// Frequent function words that are rare in the other languages
+const MARKER_WORDS: Record<Language, ReadonlySet<string>> = {
+  en: new Set([
+    'the',
+    'and',
+    'is',
+    'are',
+    'you',
+    'that',
+    'with',
+    'for',
+    'have',
+    'this',
+    'not',
+    'but',
+    'will',
+    'we',
+    'i',
+    'it',
+    'of',
+    'to',
+  ]),
+  es: new Set([
+    'el',
+    'los',
+    'las',
+    'y',
+    'es',
+    'por',
+    'para',
+    'con',
+    'una',
+    'pero',
+    'lo',
+    'se',
+    'estoy',
+    'creo',
+    'muy',
+    'gracias',
+    'hola',
+  ]),
+  de: new Set([
+    'der',
+    'die',
+    'das',
+    'und',
+    'ist',
+    'ich',
+    'nicht',
+    'mit',
+    'wir',
+    'ein',
+    'eine',
+    'zu',
+    'auf',
+    'für',
+    'aber',
+    'auch',
+    'sie',
+  ]),
+  fr: new Set([
+    'le',
+    'les',
+    'et',
+    'est',
+    'je',
+    'pas',
+    'vous',
+    'nous',
+    'une',
+    'des',
+    'pour',
+    'avec',
+    'mais',
+    'ce',
+    'il',
+    'qu',
+    'c',
+    'j',
+  ]),
+};
+
+// Letters that only one of the languages uses
+const MARKER_LETTERS: Record<Language, RegExp> = {
+  en: /(?!)/g,
+  es: /[ñ¿¡]/g,
+  de: /[äöüß]/g,
+  fr: /[çœèêëîôû]/g,
+};
+
+/**
+ * Check whether a string is a supported language code
+ */
+export function isLanguage(value: string): value is Language {
+  return (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Guess the language of a text from its function words and the letters it
+ * uses. English wins ties, so short or ambiguous text is treated as English.
+ */
+export function detectLanguage(text: string): Language {
+  const normalized = normalizeForMatching(text);
+  const words = normalized.match(/\p{L}+/gu) ?? [];
+
+  let best: Language = 'en';
+  let bestScore = 0;
+  for (const language of LANGUAGES) {
+    const markers = MARKER_WORDS[language];
+    let score = words.filter((word) => markers.has(word)).length;
+    score += (normalized.match(MARKER_LETTERS[language]) ?? []).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,332 @@
+/**
+ * Lemmatizer for speak-strong text processing.
+ *
+ * Runs after tokenize() and fills in the dictionary form of each word so rules
+ * can match "I'm trying to", "I tried to" and "we'll try to" with one pattern.
+ * Only verbs from a built-in lexicon are reduced; other words keep their
+ * normalized form as the lemma.
+ */
+
+import type { Token } from './tokenizer.js';
+
+/** Verb form a token was written in */
+export type Inflection = 'base' | 'present' | 'past' | 'participle' | 'progressive';
+
+/** Tense/aspect of a matched phrase, which lemma rules carry into their replacement */
+export type Tense = 'present' | 'past' | 'progressive' | 'future';
+
+export interface Lemma {
+  lemma: string;
+  inflection?: Inflection;
+}
+
+// Irregular verbs: base -> [past, participle, third person, progressive]
+const IRREGULAR_VERBS: Record<string, [string, string, string?, string?]> = {
+  be: ['was', 'been', 'is', 'being'],
+  have: ['had', 'had', 'has', 'having'],
+  do: ['did', 'done', 'does'],
+  go: ['went', 'gone', 'goes'],
+  get: ['got', 'gotten'],
+  make: ['made', 'made'],
+  take: ['took', 'taken'],
+  give: ['gave', 'given'],
+  come: ['came', 'come'],
+  see: ['saw', 'seen'],
+  know: ['knew', 'known'],
+  think: ['thought', 'thought'],
+  feel: ['felt', 'felt'],
+  say: ['said', 'said'],
+  tell: ['told', 'told'],
+  find: ['found', 'found'],
+  send: ['sent', 'sent'],
+  write: ['wrote', 'written'],
+  speak: ['spoke', 'spoken'],
+  bring: ['brought', 'brought'],
+  buy: ['bought', 'bought'],
+  begin: ['began', 'begun'],
+  choose: ['chose', 'chosen'],
+  keep: ['kept', 'kept'],
+  leave: ['left', 'left'],
+  meet: ['met', 'met'],
+  pay: ['paid', 'paid'],
+  put: ['put', 'put'],
+  run: ['ran', 'run'],
+  set: ['set', 'set'],
+  sit: ['sat', 'sat'],
+  stand: ['stood', 'stood'],
+  understand: ['understood', 'understood'],
+  build: ['built', 'built'],
+  hear: ['heard', 'heard'],
+  hold: ['held', 'held'],
+  lead: ['led', 'led'],
+  read: ['read', 'read'],
+  show: ['showed', 'shown'],
+  spend: ['spent', 'spent'],
+  teach: ['taught', 'taught'],
+  forget: ['forgot', 'forgotten'],
+  mean: ['meant', 'meant'],
+};
+
+// Regular verbs recognized by the suffix rules
+const REGULAR_VERBS = new Set([
+  'try',
+  'want',
+  'need',
+  'ask',
+  'help',
+  'finish',
+  'start',
+  'check',
+  'call',
+  'review',
+  'discuss',
+  'schedule',
+  'follow',
+  'reach',
+  'look',
+  'work',
+  'fix',
+  'ship',
+  'deliver',
+  'complete',
+  'update',
+  'share',
+  'consider',
+  'wonder',
+  'guess',
+  'suppose',
+  'believe',
+  'wish',
+  'plan',
+  'stop',
+  'submit',
+  'commit',
+  'add',
+  'move',
+  'change',
+  'decide',
+  'agree',
+  'disagree',
+  'apologize',
+  'clarify',
+  'confirm',
+  'answer',
+  'explain',
+  'handle',
+  'improve',
+  'prepare',
+  'provide',
+  'resolve',
+  'respond',
+  'test',
+  'use',
+  'wait',
+  'attend',
+  'approve',
+  'mind',
+  'like',
+  'seem',
+  'happen',
+  'hope',
+  'claim',
+  'mention',
+  'report',
+  'reply',
+  'argue',
+  'insist',
+  'suggest',
+]);
+
+// Verbs that double their final consonant before -ing/-ed
+const DOUBLING_VERBS = new Set([
+  'get',
+  'put',
+  'set',
+  'sit',
+  'run',
+  'begin',
+  'forget',
+  'ship',
+  'plan',
+  'stop',
+  'submit',
+  'commit',
+]);
+
+// Auxiliaries are transparent to lemma matching ("I am trying to" ~ "I try to")
+const AUXILIARY_LEMMAS = new Set(['be', 'will', 'shall', 'do', 'have']);
+
+// Subject + auxiliary contractions, e.g. "i'm" -> subject "i" + auxiliary "be"
+const CONTRACTION_AUXILIARIES: Record<string, { lemma: string; inflection: Inflection }> = {
+  "'m": { lemma: 'be', inflection: 'present' },
+  "'re": { lemma: 'be', inflection: 'present' },
+  "'ll": { lemma: 'will', inflection: 'base' },
+  "'ve": { lemma: 'have', inflection: 'present' },
+};
+
+const THIRD_PERSON_SUBJECTS = new Set(['he', 'she', 'it', 'this', 'that']);
+
+const FORMS = new Map<string, Lemma>();
+
+// Later entries win, so a form shared with the base ("put", "read") reads as base
+for (const [base, [past, participle, third, progressive]] of Object.entries(IRREGULAR_VERBS)) {
+  FORMS.set(participle, { lemma: base, inflection: 'participle' });
+  FORMS.set(past, { lemma: base, inflection: 'past' });
+  FORMS.set(third ?? regularThirdPerson(base), { lemma: base, inflection: 'present' });
+  FORMS.set(progressive ?? regularProgressive(base), { lemma: base, inflection: 'progressive' });
+  FORMS.set(base, { lemma: base, inflection: 'base' });
+}
+for (const [form, inflection] of [
+  ['am', 'present'],
+  ['are', 'present'],
+  ['were', 'past'],
+] as const) {
+  FORMS.set(form, { lemma: 'be', inflection });
+}
+for (const base of REGULAR_VERBS) {
+  FORMS.set(base, { lemma: base, inflection: 'base' });
+  FORMS.set(regularThirdPerson(base), { lemma: base, inflection: 'present' });
+  FORMS.set(regularProgressive(base), { lemma: base, inflection: 'progressive' });
+  FORMS.set(regularPast(base), { lemma: base, inflection: 'past' });
+}
+for (const modal of ['will', 'shall']) {
+  FORMS.set(modal, { lemma: modal, inflection: 'base' });
+}
+
+function regularThirdPerson(base: string): string {
+  if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh|o)$/.test(base)) return `${base}es`;
+  return `${base}s`;
+}
+
+function regularProgressive(base: string): string {
+  if (DOUBLING_VERBS.has(base)) return `${base}${base.slice(-1)}ing`;
+  if (/[^aeiou]e$/.test(base) && base !== 'be') return `${base.slice(0, -1)}ing`;
+  return `${base}ing`;
+}
+
+function regularPast(base: string): string {
+  if (DOUBLING_VERBS.has(base)) return `${base}${base.slice(-1)}ed`;
+  if (base.endsWith('e')) return `${base}d`;
+  if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ied`;
+  return `${base}ed`;
+}
+
+/**
+ * Find the lemma of a single normalized word
+ */
+export function lemmatizeWord(word: string): Lemma {
+  const normalized = word.toLowerCase();
+  const apostrophe = normalized.indexOf("'");
+
+  if (apostrophe > 0) {
+    const auxiliary = CONTRACTION_AUXILIARIES[normalized.slice(apostrophe)];
+    if (auxiliary) {
+      return { lemma: normalized.slice(0, apostrophe) };
+    }
+  }
+
+  return FORMS.get(normalized) ?? { lemma: normalized };
+}
+
+/**
+ * Fill in lemma and inflection on every token except whitespace and punctuation.
+ * Mutates and returns the given tokens.
+ */
+export function lemmatize(tokens: Token[]): Token[] {
+  for (const token of tokens) {
+    if (token.type === 'whitespace' || token.type === 'punctuation') continue;
+    const { lemma, inflection } = lemmatizeWord(token.normalized);
+    token.lemma = lemma;
+    if (inflection) {
+      token.inflection = inflection;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Get the auxiliary carried by a subject contraction ("i'll" -> will)
+ */
+function contractionAuxiliary(token: Token): Lemma | undefined {
+  const apostrophe = token.normalized.indexOf("'");
+  if (apostrophe <= 0) return undefined;
+  return CONTRACTION_AUXILIARIES[token.normalized.slice(apostrophe)];
+}
+
+/**
+ * Check whether a token is an auxiliary that lemma matching may skip over
+ */
+export function isAuxiliary(token: Token): boolean {
+  return token.lemma !== undefined && AUXILIARY_LEMMAS.has(token.lemma);
+}
+
+/**
+ * Detect the tense/aspect of a matched phrase from its lemmatized tokens
+ */
+export function detectTense(tokens: Token[]): Tense {
+  const forms = tokens.map((t) => contractionAuxiliary(t) ?? t);
+
+  if (forms.some((f) => f.lemma === 'will' || f.lemma === 'shall')) return 'future';
+  if (forms.some((f) => f.inflection === 'past' || f.inflection === 'participle')) return 'past';
+  if (forms.some((f) => f.inflection === 'progressive')) return 'progressive';
+  return 'present';
+}
+
+/**
+ * Inflect a verb lemma into the given form
+ */
+export function inflect(lemma: string, inflection: Inflection): string {
+  const irregular = IRREGULAR_VERBS[lemma];
+  switch (inflection) {
+    case 'base':
+      return lemma;
+    case 'present':
+      return irregular?.[2] ?? regularThirdPerson(lemma);
+    case 'past':
+      return irregular?.[0] ?? regularPast(lemma);
+    case 'participle':
+      return irregular?.[1] ?? regularPast(lemma);
+    case 'progressive':
+      return irregular?.[3] ?? regularProgressive(lemma);
+  }
+}
+
+function progressiveAuxiliary(subject: string): string {
+  if (subject === 'i') return 'am';
+  return THIRD_PERSON_SUBJECTS.has(subject) ? 'is' : 'are';
+}
+
+/**
+ * Carry the tense of a match into a lemma rule's replacement, which is
+ * written with "will" ("{subject} will {verb}"). Present and future matches
+ * keep "will" ("I try to be nice" -> "I will be nice"). Progressive matches
+ * swap it for "am", "is" or "are" and put the slot after it in the -ing form
+ * ("I'm trying to fix" -> "I am fixing"). Returns null for past and perfect
+ * matches, which report what already happened and have no plan to rewrite.
+ */
+export function retense(
+  words: string[],
+  tense: Tense,
+  subject: string,
+  captures: Record<string, string>
+): { words: string[]; captures: Record<string, string> } | null {
+  if (tense === 'past') return null;
+
+  const willIndex = words.findIndex((word) => word.toLowerCase() === 'will');
+  if (tense !== 'progressive' || willIndex === -1) return { words, captures };
+
+  const retensed = [...words];
+  const auxiliary = progressiveAuxiliary(subject.toLowerCase());
+  retensed[willIndex] = words[willIndex] === 'WILL' ? auxiliary.toUpperCase() : auxiliary;
+
+  const slot = /^\{([a-z][a-z0-9_-]*)\}$/i.exec(words[willIndex + 1] ?? '');
+  const name = slot?.[1].toLowerCase();
+  const verb = name ? captures[name] : undefined;
+  if (!(name && verb) || /\s/.test(verb)) return { words: retensed, captures };
+
+  return {
+    words: retensed,
+    captures: { ...captures, [name]: inflect(lemmatizeWord(verb).lemma, 'progressive') },
+  };
+}
@@ -0,0 +1,432 @@
+/**
+ * Markdown structure for speak-strong.
+ *
+ * Finds the prose in a markdown document: paragraphs, headings, list items,
+ * blockquotes and table cells, each as its own region. Front matter, fenced
+ * and indented code, HTML blocks and comments, link reference definitions
+ * and thematic breaks are not prose. Inside a region, line prefixes
+ * (indentation, ">" and list markers), emphasis markers, link brackets and
+ * destinations, images, autolinks and inline HTML are markup, so rules
+ * match across "**I think** we" as if the markers weren't there. Inline code
+ * stays in the prose, where the tokenizer protects it.
+ */
+
+import type { MarkupPair, OffsetRange, ProseRegion } from './document.js';
+
+interface Line {
+  start: number;
+  /** End of the line's content, before the line break */
+  end: number;
+  text: string;
+}
+
+interface OpenRegion {
+  start: number;
+  end: number;
+  prefixes: OffsetRange[];
+}
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*$/;
+const FRONT_MATTER_END = /^(?:---|\.\.\.)[ \t]*$/;
+const FENCE = /^[ \t]*(?:>[ \t]?)*[ \t]*(?:(?:[-*+]|\d+[.)])[ \t]+)?(`{3,}|~{3,})/;
+const HTML_COMMENT = /^[ \t]*<!--/;
+const HTML_BLOCK =
+  /^ {0,3}<\/?(?:address|article|aside|blockquote|body|center|details|dialog|div|dl|fieldset|figcaption|figure|footer|form|h[1-6]|head|header|hr|html|iframe|legend|li|main|menu|nav|ol|p|pre|script|section|style|summary|table|tbody|td|tfoot|th|thead|tr|ul)(?=[\s/>]|$)/i;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:[ \t]*\S/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:-[ \t]*){3,}|(?:\*[ \t]*){3,}|(?:_[ \t]*){3,}|=+[ \t]*)$/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const BLANK = /^[ \t]*(?:>[ \t]*)*$/;
+const QUOTE_PREFIX = /^[ \t]*(?:>[ \t]?)*/y;
+const LIST_MARKER = /(?:[-*+]|\d{1,9}[.)])(?:[ \t]+|$)(?:\[[ xX]\][ \t]+)?/y;
+const HEADING_MARKER = /#{1,6}(?:[ \t]+|$)/y;
+const CLOSING_HASHES = /[ \t]+#+[ \t]*$/;
+const INLINE_TAG = /<\/?([A-Za-z][\w-]*)(?:\s[^<>]*)?\/?>/y;
+const AUTOLINK = /<(?:[A-Za-z][\w+.-]+:[^\s<>]*|[^\s<>@]+@[^\s<>@]+)>/y;
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const next = newline === -1 ? text.length : newline;
+    const end = next > start && text[next - 1] === '\r' ? next - 1 : next;
+    lines.push({ start, end, text: text.slice(start, end) });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+/**
+ * Find the index just past a closing bracket, skipping nested brackets,
+ * escapes and code spans
+ */
+function closingBracket(text: string, open: number, end: number, pair: '[]' | '()'): number {
+  let depth = 0;
+  for (let i = open; i < end; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '`' && pair === '[]') {
+      const close = text.indexOf('`', i + 1);
+      if (close === -1 || close >= end) return -1;
+      i = close;
+    } else if (char === pair[0]) {
+      depth++;
+    } else if (char === pair[1] && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the end of a link's destination or reference after its text: "(url)",
+ * "[ref]" or "[]"
+ */
+function linkTail(text: string, pos: number, end: number): number {
+  if (text[pos] === '(') return closingBracket(text, pos, end, '()');
+  if (text[pos] === '[') return closingBracket(text, pos, end, '[]');
+  return -1;
+}
+
+function lastIndexWhere<T>(items: T[], test: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (test(items[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Check whether a run of emphasis characters can open or close emphasis,
+ * from the characters on either side
+ */
+function flanking(text: string, start: number, end: number): { open: boolean; close: boolean } {
+  const before = text[start - 1] ?? ' ';
+  const after = text[end] ?? ' ';
+  const wordChar = /[\p{L}\p{N}]/u;
+  let open = !/\s/.test(after);
+  let close = !/\s/.test(before);
+  if (text[start] === '_') {
+    open &&= !wordChar.test(before);
+    close &&= !wordChar.test(after);
+  }
+  return { open, close };
+}
+
+/**
+ * Find inline markup between start and end, skipping line prefixes
+ */
+function scanInline(
+  text: string,
+  start: number,
+  end: number,
+  prefixes: OffsetRange[]
+): { markup: OffsetRange[]; pairs: MarkupPair[] } {
+  const markup: OffsetRange[] = [];
+  const pairs: MarkupPair[] = [];
+  const openers: OffsetRange[] = [];
+  const openTags: Array<OffsetRange & { name: string }> = [];
+  // Link closers found ahead of the scan, by start offset
+  const linkCloses = new Map<number, number>();
+  const prefixEnds = new Map(prefixes.map((prefix) => [prefix.start, prefix.end]));
+
+  let i = start;
+  while (i < end) {
+    const prefixEnd = prefixEnds.get(i);
+    if (prefixEnd !== undefined) {
+      i = prefixEnd;
+      continue;
+    }
+
+    const linkClose = linkCloses.get(i);
+    if (linkClose !== undefined) {
+      markup.push({ start: i, end: linkClose });
+      i = linkClose;
+      continue;
+    }
+
+    const char = text[i];
+
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      let ticks = i;
+      while (text[ticks] === '`') ticks++;
+      const fence = text.slice(i, ticks);
+      let close = text.indexOf(fence, ticks);
+      while (close !== -1 && text[close + fence.length] === '`') {
+        close = text.indexOf(fence, close + fence.length + 1);
+      }
+      i = close !== -1 && close < end ? close + fence.length : ticks;
+      continue;
+    }
+
+    if (char === '<') {
+      if (text.startsWith('<!--', i)) {
+        const close = text.indexOf('-->', i + 4);
+        const commentEnd = close === -1 || close + 3 > end ? end : close + 3;
+        markup.push({ start: i, end: commentEnd });
+        i = commentEnd;
+        continue;
+      }
+      AUTOLINK.lastIndex = i;
+      if (AUTOLINK.test(text) && AUTOLINK.lastIndex <= end) {
+        markup.push({ start: i, end: AUTOLINK.lastIndex });
+        i = AUTOLINK.lastIndex;
+        continue;
+      }
+      INLINE_TAG.lastIndex = i;
+      const tag = INLINE_TAG.exec(text);
+      if (tag && INLINE_TAG.lastIndex <= end) {
+        const range = { start: i, end: INLINE_TAG.lastIndex };
+        const name = tag[1].toLowerCase();
+        markup.push(range);
+        if (tag[0].startsWith('</')) {
+          const opener = lastIndexWhere(openTags, (open) => open.name === name);
+          if (opener !== -1) {
+            pairs.push({
+              open: { start: openTags[opener].start, end: openTags[opener].end },
+              close: range,
+            });
+            openTags.length = opener;
+          }
+        } else if (!tag[0].endsWith('/>')) {
+          openTags.push({ ...range, name });
+        }
+        i = range.end;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const textEnd = closingBracket(text, i + 1, end, '[]');
+      const tail = textEnd === -1 ? -1 : linkTail(text, textEnd, end);
+      if (tail !== -1) {
+        markup.push({ start: i, end: tail });
+        i = tail;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const textEnd = closingBracket(text, i, end, '[]');
+      const tail = textEnd === -1 ? -1 : linkTail(text, textEnd, end);
+      if (tail !== -1) {
+        const open = { start: i, end: i + 1 };
+        markup.push(open);
+        pairs.push({ open, close: { start: textEnd - 1, end: tail } });
+        linkCloses.set(textEnd - 1, tail);
+        i++;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || (char === '~' && text[i + 1] === '~')) {
+      let runEnd = i;
+      while (runEnd < end && text[runEnd] === char) runEnd++;
+      const range = { start: i, end: runEnd };
+      const delimiter = text.slice(i, runEnd);
+      const { open, close } = flanking(text, i, runEnd);
+      const opener = close
+        ? lastIndexWhere(openers, (o) => text.slice(o.start, o.end) === delimiter)
+        : -1;
+      if (opener !== -1) {
+        markup.push(openers[opener], range);
+        pairs.push({ open: openers[opener], close: range });
+        openers.length = opener;
+      } else if (open) {
+        openers.push(range);
+      }
+      i = runEnd;
+      continue;
+    }
+
+    i++;
+  }
+
+  return { markup: [...markup, ...prefixes].sort((a, b) => a.start - b.start), pairs };
+}
+
+/**
+ * Measure a line's prefix: indentation, blockquote markers, then a list or
+ * heading marker
+ */
+function linePrefix(line: Line): { end: number; item: boolean; heading: boolean } {
+  QUOTE_PREFIX.lastIndex = 0;
+  QUOTE_PREFIX.test(line.text);
+  let end = QUOTE_PREFIX.lastIndex;
+  let item = false;
+  let heading = false;
+
+  LIST_MARKER.lastIndex = end;
+  HEADING_MARKER.lastIndex = end;
+  if (LIST_MARKER.test(line.text)) {
+    end = LIST_MARKER.lastIndex;
+    item = true;
+  } else if (HEADING_MARKER.test(line.text)) {
+    end = HEADING_MARKER.lastIndex;
+    heading = true;
+  }
+  return { end: line.start + end, item, heading };
+}
+
+/**
+ * Split a table row into its cells, trimmed of padding
+ */
+function tableCells(line: Line): OffsetRange[] {
+  const cells: OffsetRange[] = [];
+  let cellStart = line.start;
+  let inCode = false;
+  for (let i = line.start; i <= line.end; i++) {
+    const char = i < line.end ? line.text[i - line.start] : '|';
+    if (char === '\\') {
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+    } else if (char === '|' && !inCode) {
+      cells.push({ start: cellStart, end: i });
+      cellStart = i + 1;
+    }
+  }
+  return cells
+    .map((cell) => {
+      const raw = line.text.slice(cell.start - line.start, cell.end - line.start);
+      const lead = raw.length - raw.trimStart().length;
+      return { start: cell.start + lead, end: cell.start + raw.trimEnd().length };
+    })
+    .filter((cell) => cell.end > cell.start);
+}
+
+/**
+ * Find the prose regions of a markdown document
+ */
+export function parseMarkdown(text: string): ProseRegion[] {
+  const lines = splitLines(text);
+  const regions: ProseRegion[] = [];
+  let current: OpenRegion | undefined;
+  let previousBlank = true;
+  let inList = false;
+
+  const close = () => {
+    if (current && current.end > current.start) {
+      regions.push({ start: current.start, end: current.end, ...scanInlineIn(current) });
+    }
+    current = undefined;
+  };
+  const scanInlineIn = (region: OpenRegion) =>
+    scanInline(text, region.start, region.end, region.prefixes);
+  const addRegion = (start: number, end: number) => {
+    close();
+    current = { start, end, prefixes: [] };
+    close();
+  };
+
+  let i = 0;
+  if (lines.length > 1 && FRONT_MATTER.test(lines[0].text)) {
+    const closing = lines.findIndex((line, n) => n > 0 && FRONT_MATTER_END.test(line.text));
+    if (closing !== -1) i = closing + 1;
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (BLANK.test(line.text)) {
+      close();
+      previousBlank = true;
+      continue;
+    }
+
+    if (!/^[ \t]/.test(line.text)) {
+      LIST_MARKER.lastIndex = 0;
+      inList = LIST_MARKER.test(line.text);
+    }
+
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      close();
+      const marker = fence[1];
+      const closing = new RegExp(
+        `^[ \\t]*(?:>[ \\t]?)*[ \\t]*${marker[0]}{${marker.length},}[ \\t]*$`
+      );
+      i++;
+      while (i < lines.length && !closing.test(lines[i].text)) i++;
+      previousBlank = false;
+      continue;
+    }
+
+    if (HTML_COMMENT.test(line.text) || HTML_BLOCK.test(line.text)) {
+      close();
+      const comment = HTML_COMMENT.test(line.text);
+      while (i < lines.length) {
+        if (comment ? lines[i].text.includes('-->') : BLANK.test(lines[i].text)) break;
+        i++;
+      }
+      previousBlank = !comment;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line.text) && previousBlank && !inList) {
+      close();
+      while (
+        i + 1 < lines.length &&
+        (INDENTED_CODE.test(lines[i + 1].text) || BLANK.test(lines[i + 1].text))
+      ) {
+        i++;
+      }
+      continue;
+    }
+
+    previousBlank = false;
+
+    if (LINK_DEFINITION.test(line.text) || THEMATIC_BREAK.test(line.text)) {
+      close();
+      continue;
+    }
+
+    if (line.text.includes('|') && TABLE_DELIMITER.test(lines[i + 1]?.text ?? '')) {
+      close();
+      for (const cell of tableCells(line)) addRegion(cell.start, cell.end);
+      i++;
+      while (
+        i + 1 < lines.length &&
+        lines[i + 1].text.includes('|') &&
+        !BLANK.test(lines[i + 1].text)
+      ) {
+        i++;
+        for (const cell of tableCells(lines[i])) addRegion(cell.start, cell.end);
+      }
+      continue;
+    }
+
+    const prefix = linePrefix(line);
+    let contentEnd = line.end;
+    while (contentEnd > prefix.end && /[ \t]/.test(text[contentEnd - 1])) contentEnd--;
+
+    if (prefix.heading) {
+      const closing = CLOSING_HASHES.exec(text.slice(prefix.end, contentEnd));
+      addRegion(prefix.end, closing ? prefix.end + closing.index : contentEnd);
+      inList = false;
+      continue;
+    }
+
+    if (prefix.item) {
+      close();
+      inList = true;
+    }
+
+    if (current) {
+      if (prefix.end > line.start) current.prefixes.push({ start: line.start, end: prefix.end });
+      current.end = contentEnd;
+    } else {
+      current = { start: prefix.end, end: contentEnd, prefixes: [] };
+    }
+  }
+  close();
+
+  return regions;
+}
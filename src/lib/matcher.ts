@@ -0,0 +1,163 @@
+/**
+ * Compiled rule matcher.
+ *
+ * Indexes a rule set in a trie keyed on the literal words each pattern starts
+ * with, so findMatches only tries the rules that can start at a given word
+ * instead of every rule at every word. Build it once per rule set and reuse it.
+ */
+
+import type { Language } from '../types/index.js';
+import type { TokenPattern, TokenRule } from './rule-engine.js';
+import { contractWords, expandContraction, type Token } from './tokenizer.js';
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Indexes into RuleMatcher.rules of rules whose literal prefix ends here */
+  rules: number[];
+}
+
+export interface RuleMatcher {
+  /** Rules in match priority order: longest pattern first */
+  rules: TokenRule[];
+  /** Trie over the normalized words of surface-form patterns */
+  surface: TrieNode;
+  /** Trie over the lemmas of lemma-mode patterns */
+  lemma: TrieNode;
+  /** Rules starting with a slot or optional token, tried at every word */
+  unanchored: number[];
+  /** Rules allowed inside protected spans, scanned against their own tokens */
+  protectedRules: number[];
+  /** Language the rules are written in, which decides how text is tokenized */
+  language: Language;
+}
+
+export interface MatcherOptions {
+  /** Index rules by their leading words (default: true). Without the index
+   * every rule is tried at every word, which is only useful for comparison. */
+  index?: boolean;
+  /** Language the rules are written in (default: 'en') */
+  language?: Language;
+}
+
+function createNode(): TrieNode {
+  return { children: new Map(), rules: [] };
+}
+
+/**
+ * Get the literal words a pattern must start with. Lemma patterns may skip
+ * auxiliaries between words, so only their first word is a fixed prefix.
+ * Punctuation is checked between words and is not part of the prefix.
+ */
+function literalPrefix(rule: TokenRule): string[] {
+  const prefix: string[] = [];
+  const words = rule.pattern.filter((patternToken) => !patternToken.punctuation);
+  const limit = rule.lemma ? 1 : words.length;
+
+  for (const patternToken of words.slice(0, limit)) {
+    if (!isLiteral(patternToken)) break;
+    prefix.push(patternToken.text);
+  }
+  return prefix;
+}
+
+/**
+ * Get every spelling of a surface prefix that the text may use: contractions
+ * written out ("i'll" → "i will") and expansions contracted ("i am" → "i'm")
+ */
+function prefixVariants(prefix: string[]): string[][] {
+  if (prefix.length === 0) return [[]];
+
+  const [first] = prefix;
+  const heads: Array<{ words: string[]; used: number }> = [{ words: [first], used: 1 }];
+  for (const expansion of expandContraction(first)) {
+    heads.push({ words: expansion, used: 1 });
+  }
+  for (let used = 1; used <= Math.min(2, prefix.length); used++) {
+    const contraction = contractWords(prefix.slice(0, used));
+    if (contraction) heads.push({ words: [contraction], used });
+  }
+
+  const variants = new Map<string, string[]>();
+  for (const head of heads) {
+    for (const rest of prefixVariants(prefix.slice(head.used))) {
+      const words = [...head.words, ...rest];
+      variants.set(words.join(' '), words);
+    }
+  }
+  return [...variants.values()];
+}
+
+function isLiteral(patternToken: TokenPattern): boolean {
+  return !(patternToken.slot || patternToken.optional);
+}
+
+/**
+ * Compile a rule set into a matcher
+ */
+export function compileMatcher(rules: TokenRule[], options: MatcherOptions = {}): RuleMatcher {
+  const { index = true, language = 'en' } = options;
+  const matcher: RuleMatcher = {
+    rules: [...rules].sort((a, b) => b.pattern.length - a.pattern.length),
+    surface: createNode(),
+    lemma: createNode(),
+    unanchored: [],
+    protectedRules: [],
+    language,
+  };
+
+  matcher.rules.forEach((rule, ruleIndex) => {
+    if (rule.allowIn && rule.allowIn.length > 0) {
+      matcher.protectedRules.push(ruleIndex);
+      return;
+    }
+
+    const prefix = index ? literalPrefix(rule) : [];
+    if (prefix.length === 0) {
+      matcher.unanchored.push(ruleIndex);
+      return;
+    }
+
+    const root = rule.lemma ? matcher.lemma : matcher.surface;
+    for (const variant of rule.lemma ? [prefix] : prefixVariants(prefix)) {
+      let node = root;
+      for (const word of variant) {
+        let child = node.children.get(word);
+        if (!child) {
+          child = createNode();
+          node.children.set(word, child);
+        }
+        node = child;
+      }
+      node.rules.push(ruleIndex);
+    }
+  });
+
+  return matcher;
+}
+
+function collect(
+  root: TrieNode,
+  wordTokens: Token[],
+  start: number,
+  key: (token: Token) => string,
+  into: number[]
+): void {
+  let node: TrieNode | undefined = root;
+  for (let i = start; node && i < wordTokens.length; i++) {
+    node = node.children.get(key(wordTokens[i]));
+    if (node) into.push(...node.rules);
+  }
+}
+
+/**
+ * Get the indexes of the rules that may match starting at wordTokens[start]
+ */
+export function candidateRules(matcher: RuleMatcher, wordTokens: Token[], start: number): number[] {
+  const candidates = [...matcher.unanchored];
+  collect(matcher.surface, wordTokens, start, (t) => t.normalized, candidates);
+
+  // Lemma prefixes are a single word, so this walk stops after one step
+  collect(matcher.lemma, wordTokens, start, (t) => t.lemma ?? t.normalized, candidates);
+
+  return candidates;
+}
@@ -0,0 +1,574 @@
+/**
+ * Part-of-speech tagger for speak-strong text processing.
+ *
+ * A small offline tagger: closed word classes and common words come from a
+ * built-in lexicon, verb forms from the lemmatizer, and unknown words from
+ * suffix heuristics. A second pass uses the neighbouring words to settle
+ * ambiguous words, so "just" is an adverb in "we just need" and an adjective
+ * in "a just cause". Tags follow the Universal Dependencies tag set.
+ */
+
+import { RulesError } from '../utils/errors.js';
+import { lemmatizeWord } from './lemmatizer.js';
+import type { Token } from './tokenizer.js';
+
+export type PosTag =
+  | 'ADJ'
+  | 'ADP'
+  | 'ADV'
+  | 'AUX'
+  | 'CCONJ'
+  | 'DET'
+  | 'INTJ'
+  | 'NOUN'
+  | 'NUM'
+  | 'PART'
+  | 'PRON'
+  | 'PROPN'
+  | 'PUNCT'
+  | 'SCONJ'
+  | 'VERB'
+  | 'X';
+
+export const POS_TAGS: readonly PosTag[] = [
+  'ADJ',
+  'ADP',
+  'ADV',
+  'AUX',
+  'CCONJ',
+  'DET',
+  'INTJ',
+  'NOUN',
+  'NUM',
+  'PART',
+  'PRON',
+  'PROPN',
+  'PUNCT',
+  'SCONJ',
+  'VERB',
+  'X',
+];
+
+// Earlier lists win when a word appears in several; context rules below
+// re-tag the ambiguous ones
+const WORD_LISTS: Array<[PosTag, string[]]> = [
+  [
+    'AUX',
+    [
+      'am',
+      'is',
+      'are',
+      'was',
+      'were',
+      'be',
+      'been',
+      'being',
+      'have',
+      'has',
+      'had',
+      'having',
+      'do',
+      'does',
+      'did',
+      'can',
+      'could',
+      'may',
+      'might',
+      'must',
+      'shall',
+      'should',
+      'will',
+      'would',
+      'cannot',
+    ],
+  ],
+  [
+    'PRON',
+    [
+      'i',
+      'me',
+      'we',
+      'us',
+      'you',
+      'he',
+      'him',
+      'she',
+      'her',
+      'it',
+      'they',
+      'them',
+      'this',
+      'that',
+      'these',
+      'those',
+      'myself',
+      'yourself',
+      'himself',
+      'herself',
+      'itself',
+      'ourselves',
+      'themselves',
+      'mine',
+      'yours',
+      'ours',
+      'theirs',
+      'someone',
+      'somebody',
+      'something',
+      'everyone',
+      'everybody',
+      'everything',
+      'anyone',
+      'anybody',
+      'anything',
+      'nobody',
+      'nothing',
+      'who',
+      'whom',
+      'what',
+    ],
+  ],
+  [
+    'DET',
+    [
+      'a',
+      'an',
+      'the',
+      'my',
+      'our',
+      'your',
+      'his',
+      'its',
+      'their',
+      'whose',
+      'which',
+      'some',
+      'any',
+      'every',
+      'each',
+      'all',
+      'both',
+      'either',
+      'neither',
+      'another',
+      'such',
+      'much',
+      'many',
+      'few',
+      'several',
+      'no',
+    ],
+  ],
+  ['PART', ['not', 'to']],
+  [
+    'ADP',
+    [
+      'of',
+      'in',
+      'on',
+      'at',
+      'by',
+      'for',
+      'with',
+      'about',
+      'against',
+      'between',
+      'into',
+      'through',
+      'during',
+      'before',
+      'after',
+      'above',
+      'below',
+      'from',
+      'up',
+      'down',
+      'over',
+      'under',
+      'around',
+      'without',
+      'within',
+      'along',
+      'across',
+      'behind',
+      'beyond',
+      'like',
+      'per',
+      'via',
+      'upon',
+      'toward',
+      'towards',
+      'near',
+      'than',
+    ],
+  ],
+  ['CCONJ', ['and', 'or', 'but', 'nor', 'yet']],
+  [
+    'SCONJ',
+    [
+      'if',
+      'because',
+      'although',
+      'though',
+      'while',
+      'whereas',
+      'unless',
+      'since',
+      'until',
+      'whether',
+      'as',
+      'once',
+    ],
+  ],
+  [
+    'INTJ',
+    [
+      'oh',
+      'ah',
+      'hey',
+      'hi',
+      'hello',
+      'yes',
+      'yeah',
+      'okay',
+      'ok',
+      'wow',
+      'please',
+      'thanks',
+      'um',
+      'uh',
+    ],
+  ],
+  [
+    'ADV',
+    [
+      'just',
+      'really',
+      'very',
+      'quite',
+      'actually',
+      'basically',
+      'literally',
+      'probably',
+      'maybe',
+      'perhaps',
+      'possibly',
+      'definitely',
+      'certainly',
+      'only',
+      'also',
+      'even',
+      'still',
+      'already',
+      'always',
+      'never',
+      'often',
+      'sometimes',
+      'usually',
+      'again',
+      'here',
+      'there',
+      'now',
+      'then',
+      'today',
+      'tomorrow',
+      'yesterday',
+      'soon',
+      'too',
+      'so',
+      'almost',
+      'simply',
+      'hopefully',
+      'honestly',
+      'frankly',
+      'clearly',
+      'obviously',
+      'pretty',
+      'rather',
+      'fairly',
+      'somewhat',
+      'well',
+      'however',
+      'therefore',
+      'instead',
+      'anyway',
+      'when',
+      'where',
+      'why',
+      'how',
+    ],
+  ],
+  [
+    'ADJ',
+    [
+      'good',
+      'bad',
+      'great',
+      'small',
+      'big',
+      'quick',
+      'little',
+      'important',
+      'sure',
+      'possible',
+      'able',
+      'happy',
+      'sorry',
+      'new',
+      'old',
+      'high',
+      'low',
+      'long',
+      'short',
+      'clear',
+      'hard',
+      'easy',
+      'right',
+      'wrong',
+      'ready',
+      'stupid',
+      'rough',
+      'busy',
+      'free',
+      'own',
+      'fine',
+      'late',
+      'early',
+      'real',
+      'whole',
+      'same',
+      'different',
+      'next',
+      'last',
+      'best',
+      'better',
+      'worse',
+      'true',
+      'false',
+      'positive',
+      'honest',
+      'frank',
+    ],
+  ],
+  [
+    'NUM',
+    [
+      'one',
+      'two',
+      'three',
+      'four',
+      'five',
+      'six',
+      'seven',
+      'eight',
+      'nine',
+      'ten',
+      'hundred',
+      'thousand',
+      'million',
+      'first',
+      'second',
+      'third',
+    ],
+  ],
+  ['NOUN', ['kind', 'sort', 'bit', 'lot', 'thing', 'time', 'way', 'question', 'idea', 'mind']],
+];
+
+const LEXICON = new Map<string, PosTag>();
+for (const [tag, words] of WORD_LISTS) {
+  for (const word of words) {
+    if (!LEXICON.has(word)) LEXICON.set(word, tag);
+  }
+}
+
+// Verbs and adjectives that take "to" plus an infinitive, matched by lemma
+const INFINITIVE_HEADS = new Set([
+  'want',
+  'need',
+  'try',
+  'have',
+  'go',
+  'plan',
+  'hope',
+  'decide',
+  'like',
+  'love',
+  'hate',
+  'able',
+  'ready',
+  'happy',
+  'going',
+]);
+
+const SUBJECT_PRONOUNS = new Set(['i', 'we', 'you', 'he', 'she', 'they', 'it']);
+const NOMINAL_TAGS = new Set<PosTag>(['NOUN', 'ADJ', 'PROPN', 'NUM']);
+const MODIFIER_TAGS = new Set<PosTag>(['ADJ', 'ADV']);
+
+function isWordLike(token: Token): boolean {
+  return token.type !== 'whitespace' && token.type !== 'punctuation';
+}
+
+function contractionTag(word: string): PosTag {
+  if (word.endsWith("n't")) return 'AUX';
+  if (word === "let's") return 'VERB';
+  return 'PRON';
+}
+
+/**
+ * Tag a word from the lexicon, the lemmatizer and its suffix, ignoring context
+ */
+function lexicalTag(token: Token, sentenceInitial: boolean): PosTag {
+  const word = token.normalized;
+
+  if (['url', 'email', 'hashtag', 'path'].includes(token.type)) return 'X';
+  if (token.type === 'number') return 'NUM';
+  if (token.type === 'mention') return 'PROPN';
+  if (token.type === 'contraction') return contractionTag(word);
+  if (word.includes("'")) return contractionTag(word);
+
+  const known = LEXICON.get(word);
+  if (known) return known;
+  if (/^\d/.test(word)) return 'NUM';
+
+  const { inflection } = lemmatizeWord(word);
+  if (inflection) return 'VERB';
+
+  if (!sentenceInitial && /^\p{Lu}/u.test(token.text)) return 'PROPN';
+  if (word.endsWith('ly')) return 'ADV';
+  if (/(ous|ful|ive|able|ible|al|ic|less|ish|ary)$/.test(word)) return 'ADJ';
+  if (/(ing|ed)$/.test(word)) return 'VERB';
+  return 'NOUN';
+}
+
+/**
+ * Re-tag a word using the tags of its neighbours
+ */
+function contextualTag(
+  word: string,
+  tag: PosTag,
+  prev: PosTag | undefined,
+  prevWord: string | undefined,
+  next: PosTag | undefined,
+  nextWord: string | undefined
+): PosTag {
+  switch (word) {
+    case 'just':
+      return prev === 'DET' || prev === 'ADJ' ? 'ADJ' : 'ADV';
+    case 'pretty':
+      return next && MODIFIER_TAGS.has(next) ? 'ADV' : 'ADJ';
+    case 'like':
+      return prev === 'PRON' || prev === 'AUX' || prev === 'PART' ? 'VERB' : 'ADP';
+    case 'that':
+      if ((prev === 'VERB' || prev === 'ADJ') && next !== undefined) return 'SCONJ';
+      return next && NOMINAL_TAGS.has(next) ? 'DET' : 'PRON';
+    case 'this':
+    case 'these':
+    case 'those':
+    case 'her':
+      return next && NOMINAL_TAGS.has(next) ? 'DET' : 'PRON';
+    case 'so':
+      return next && MODIFIER_TAGS.has(next) ? 'ADV' : 'CCONJ';
+    case 'to':
+      if (next === 'VERB' || next === 'AUX') return 'PART';
+      return prevWord !== undefined &&
+        next === 'NOUN' &&
+        INFINITIVE_HEADS.has(lemmatizeWord(prevWord).lemma)
+        ? 'PART'
+        : 'ADP';
+    case 'well':
+      return prev === undefined ? 'INTJ' : 'ADV';
+    case 'no':
+      return next && NOMINAL_TAGS.has(next) ? 'DET' : 'INTJ';
+  }
+
+  // "have" and "do" are only auxiliaries in front of another verb
+  if (tag === 'AUX' && /^(have|has|had|having|do|does|did)$/.test(word)) {
+    return next === 'VERB' || next === 'ADV' || next === 'PART' || nextWord === 'not'
+      ? 'AUX'
+      : 'VERB';
+  }
+
+  if (tag === 'VERB' || tag === 'NOUN') {
+    // "the review", "a quick call", "of work" are nouns
+    if (prev === 'DET' || prev === 'ADJ' || (prev === 'ADP' && prevWord !== 'to')) return 'NOUN';
+    // "we deploy", "will deploy", "to deploy" are verbs
+    if (
+      (prev === 'PRON' && prevWord !== undefined && SUBJECT_PRONOUNS.has(prevWord)) ||
+      prev === 'AUX' ||
+      prev === 'PART'
+    ) {
+      return 'VERB';
+    }
+  }
+
+  return tag;
+}
+
+/**
+ * Settle the tags of one sentence's words from their lexical tags
+ */
+function tagSentence(words: Token[], lexical: PosTag[]): void {
+  words.forEach((token, i) => {
+    const prev = i > 0 ? (words[i - 1].pos as PosTag) : undefined;
+    token.pos = contextualTag(
+      token.normalized,
+      lexical[i],
+      prev,
+      words[i - 1]?.normalized,
+      lexical[i + 1],
+      words[i + 1]?.normalized
+    );
+  });
+}
+
+/**
+ * Fill in the pos tag of every token. Mutates and returns the given tokens.
+ */
+export function tagTokens(tokens: Token[]): Token[] {
+  let words: Token[] = [];
+  let lexical: PosTag[] = [];
+
+  const endSentence = () => {
+    tagSentence(words, lexical);
+    words = [];
+    lexical = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'punctuation') {
+      token.pos = 'PUNCT';
+      if (/[.!?]/.test(token.text)) endSentence();
+      continue;
+    }
+    if (!isWordLike(token)) {
+      if (token.text.includes('\n')) endSentence();
+      continue;
+    }
+    lexical.push(lexicalTag(token, words.length === 0));
+    words.push(token);
+  }
+  endSentence();
+
+  return tokens;
+}
+
+/**
+ * Parse a tag list such as "VERB" or "ADJ|ADV"
+ * @throws {RulesError} If the list names an unknown tag
+ */
+export function parsePosTags(spec: string, where: string): PosTag[] {
+  return spec.split('|').map((part) => {
+    const tag = part.trim().toUpperCase();
+    if (!(POS_TAGS as readonly string[]).includes(tag)) {
+      throw new RulesError(`Unknown part-of-speech tag "${part}" in ${where}`);
+    }
+    return tag as PosTag;
+  });
+}
+
+/**
+ * Check whether a token carries one of the given tags
+ */
+export function hasPosTag(token: Token, tags: readonly string[]): boolean {
+  return token.pos !== undefined && tags.includes(token.pos);
+}
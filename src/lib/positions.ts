@@ -0,0 +1,129 @@
+/**
+ * Line and column positions for speak-strong matches.
+ *
+ * The offsets of every match in a document are sorted and turned into
+ * 1-based lines and columns in one pass over the text, so long lines with
+ * many matches cost no more than short ones. Lines end at "\n", "\r\n" or a
+ * lone "\r", as in editors. Columns are counted in UTF-16 code units, the
+ * unit of JavaScript string offsets, and also in UTF-8 bytes and in code
+ * points for tools that count those instead.
+ */
+
+import type { LocatedMatch, Match, ProcessResult } from '../types/index.js';
+
+export interface Position {
+  line: number;
+  column: number;
+  utf8Column: number;
+  codePointColumn: number;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+/**
+ * Find the line and columns of each offset, walking the text once
+ */
+export function locateOffsets(text: string, offsets: number[]): Map<number, Position> {
+  const positions = new Map<number, Position>();
+  let line = 1;
+  let lineStart = 0;
+  let utf8 = 0;
+  let codePoints = 0;
+  let pos = 0;
+
+  for (const offset of [...new Set(offsets)].sort((a, b) => a - b)) {
+    while (pos < offset) {
+      const code = text.charCodeAt(pos);
+      if (code === 0x0a || (code === 0x0d && text.charCodeAt(pos + 1) !== 0x0a)) {
+        line++;
+        pos++;
+        lineStart = pos;
+        utf8 = 0;
+        codePoints = 0;
+        continue;
+      }
+
+      codePoints++;
+      if (code < 0x80) {
+        utf8 += 1;
+      } else if (code < 0x800) {
+        utf8 += 2;
+      } else if (
+        isHighSurrogate(code) &&
+        pos + 1 < offset &&
+        isLowSurrogate(text.charCodeAt(pos + 1))
+      ) {
+        utf8 += 4;
+        pos++;
+      } else {
+        // Lone surrogates are written as U+FFFD, three bytes like the rest of the BMP
+        utf8 += 3;
+      }
+      pos++;
+    }
+
+    positions.set(offset, {
+      line,
+      column: offset - lineStart + 1,
+      utf8Column: utf8 + 1,
+      codePointColumn: codePoints + 1,
+    });
+  }
+  return positions;
+}
+
+function isLocated(match: Match): match is LocatedMatch {
+  return match.line !== undefined && match.utf8 !== undefined && match.codePoints !== undefined;
+}
+
+function withPosition(match: Match, positions: Map<number, Position>): LocatedMatch {
+  // Every offset was located before the matches are mapped
+  const start = positions.get(match.start) as Position;
+  const end = positions.get(match.end) as Position;
+  return {
+    ...match,
+    line: start.line,
+    column: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    utf8: { column: start.utf8Column, endColumn: end.utf8Column },
+    codePoints: { column: start.codePointColumn, endColumn: end.codePointColumn },
+  };
+}
+
+/**
+ * Attach positions to the matches that don't have them yet
+ */
+export function locateMatches(text: string, matches: Match[]): LocatedMatch[] {
+  const missing = matches.filter((match) => !isLocated(match));
+  if (missing.length === 0) return matches as LocatedMatch[];
+
+  const positions = locateOffsets(
+    text,
+    missing.flatMap((match) => [match.start, match.end])
+  );
+  return matches.map((match) => (isLocated(match) ? match : withPosition(match, positions)));
+}
+
+/**
+ * Attach positions to the replacements and suggestions of a result, in one
+ * pass over the document
+ */
+export function locateResult(result: ProcessResult): ProcessResult {
+  const matches = [...result.replacements, ...result.suggestions];
+  const positions = locateOffsets(
+    result.original,
+    matches.flatMap((match) => [match.start, match.end])
+  );
+  return {
+    ...result,
+    replacements: result.replacements.map((match) => withPosition(match, positions)),
+    suggestions: result.suggestions.map((match) => withPosition(match, positions)),
+  };
+}
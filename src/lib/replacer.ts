@@ -1,6 +1,13 @@
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { Match, ProcessResult, Rule, StrictnessLevel } from '../types/index.js';
+import type {
+  Language,
+  Match,
+  ProcessResult,
+  Rule,
+  ScopeKind,
+  StrictnessLevel,
+} from '../types/index.js';
 import { getConfig } from '../utils/config.js';
 import { loadJson } from '../utils/file.js';
 import { Logger } from '../utils/logger.js';
@@ -9,71 +16,96 @@ import {
   type RulesDatabase,
   validateRulesDatabase,
 } from '../utils/schemas.js';
+import { detectLanguage, LANGUAGE_NAMES } from './languages.js';
+import type { Tense } from './lemmatizer.js';
+import { compileMatcher, type RuleMatcher } from './matcher.js';
+import { locateResult } from './positions.js';
 import { convertRuleEntry, processWithRules, type TokenRule } from './rule-engine.js';
+import type { Sentence } from './sentences.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const RULES_PATH = join(__dirname, '../data/rules.json');
+const DATA_DIR = join(__dirname, '../data');
 
-let cachedDb: RulesDatabase | null = null;
-let cachedTokenRules: Map<StrictnessLevel, TokenRule[]> | null = null;
+const SCOPE_HINTS: Record<ScopeKind, string> = {
+  negation: 'Inside a negation - rewriting could change the meaning',
+  question: 'Inside a question - rewriting could change the meaning',
+  reported: 'Reported speech - check whether this is your own hedge',
+};
+
+const PAST_TENSE_HINT = 'Past attempt - say what you did or what you will do next';
+
+const cachedDbs = new Map<Language, RulesDatabase>();
+const cachedTokenRules = new Map<Language, Map<StrictnessLevel, TokenRule[]>>();
+const cachedMatchers = new Map<Language, Map<StrictnessLevel, RuleMatcher>>();
+
+/**
+ * Get the rules database file for a language: rules.json for English and
+ * rules.<code>.json for the others
+ */
+function rulesFile(language: Language): string {
+  return language === 'en' ? 'rules.json' : `rules.${language}.json`;
+}
 
 /**
- * Load and validate the rules database
+ * Load and validate the rules database for a language
  * @throws {Error} If validation fails
  */
-function loadDatabase(): RulesDatabase {
+function loadDatabase(language: Language): RulesDatabase {
   const config = getConfig();
 
-  if (cachedDb && config.rules.cacheEnabled) {
-    return cachedDb;
+  const cached = cachedDbs.get(language);
+  if (cached && config.rules.cacheEnabled) {
+    return cached;
   }
 
-  const rawData = loadJson<unknown>(RULES_PATH);
+  const file = rulesFile(language);
+  const rawData = loadJson<unknown>(join(DATA_DIR, file));
 
   try {
     const validatedDb = validateRulesDatabase(rawData);
-    cachedDb = validatedDb;
-    Logger.debug(`Loaded and validated rules database v${validatedDb.version}`);
+    cachedDbs.set(language, validatedDb);
+    Logger.debug(`Loaded and validated ${file} v${validatedDb.version}`);
     return validatedDb;
   } catch (error) {
     if (error instanceof Error && 'issues' in error) {
       const zodError = error as import('zod').ZodError;
       const message = formatValidationErrors(zodError);
-      throw new Error(`Invalid rules.json:\n${message}`);
+      throw new Error(`Invalid ${file}:\n${message}`);
     }
     throw error;
   }
 }
 
-function buildTokenRules(): Map<StrictnessLevel, TokenRule[]> {
-  if (cachedTokenRules) {
-    return cachedTokenRules;
+function buildTokenRules(language: Language): Map<StrictnessLevel, TokenRule[]> {
+  const { cacheEnabled } = getConfig().rules;
+
+  const cached = cachedTokenRules.get(language);
+  if (cached && cacheEnabled) {
+    return cached;
   }
 
-  const db = loadDatabase();
-  cachedTokenRules = new Map();
+  const db = loadDatabase(language);
+  const tokenRules = new Map<StrictnessLevel, TokenRule[]>();
+  if (cacheEnabled) {
+    cachedTokenRules.set(language, tokenRules);
+    cachedMatchers.set(language, new Map());
+  }
 
-  cachedTokenRules.set(
-    'conservative',
-    db.conservative.map((entry) => convertRuleEntry(entry, 'conservative'))
-  );
-  cachedTokenRules.set(
-    'moderate',
-    db.moderate.map((entry) => convertRuleEntry(entry, 'moderate'))
-  );
-  cachedTokenRules.set(
-    'aggressive',
-    db.aggressive.map((entry) => convertRuleEntry(entry, 'aggressive'))
-  );
+  for (const level of ['conservative', 'moderate', 'aggressive'] as const) {
+    tokenRules.set(
+      level,
+      db[level].map((entry) => convertRuleEntry(entry, level, language))
+    );
+  }
 
   const total = db.conservative.length + db.moderate.length + db.aggressive.length;
-  Logger.debug(`Converted ${total} rules to token format`);
+  Logger.debug(`Converted ${total} ${LANGUAGE_NAMES[language]} rules to token format`);
 
-  return cachedTokenRules;
+  return tokenRules;
 }
 
-function getApplicableTokenRules(level: StrictnessLevel): TokenRule[] {
-  const rulesByLevel = buildTokenRules();
+function getApplicableTokenRules(level: StrictnessLevel, language: Language): TokenRule[] {
+  const rulesByLevel = buildTokenRules(language);
   const rules = [...(rulesByLevel.get('conservative') || [])];
 
   if (level === 'moderate' || level === 'aggressive') {
@@ -87,9 +119,34 @@ function getApplicableTokenRules(level: StrictnessLevel): TokenRule[] {
   return rules;
 }
 
+/**
+ * Get the compiled matcher for a strictness level and language, built once
+ * per rule set
+ */
+function getMatcher(level: StrictnessLevel, language: Language): RuleMatcher {
+  const rules = getApplicableTokenRules(level, language);
+  const { cacheEnabled } = getConfig().rules;
+
+  const cached = cachedMatchers.get(language)?.get(level);
+  if (cached && cacheEnabled) {
+    return cached;
+  }
+
+  const matcher = compileMatcher(rules, { language });
+  if (cacheEnabled) {
+    cachedMatchers.get(language)?.set(level, matcher);
+  }
+  Logger.debug(`Compiled matcher for level '${level}' (${language})`);
+  return matcher;
+}
+
 function tokenRuleToRule(tokenRule: TokenRule): Rule {
   return {
-    pattern: tokenRule.pattern.map((p) => p.text).join(' '),
+    pattern: tokenRule.pattern
+      .map((p, i, pattern) =>
+        p.punctuation || i === 0 || /['¿¡]$/.test(pattern[i - 1].text) ? p.text : ` ${p.text}`
+      )
+      .join(''),
     replacement: tokenRule.replacement?.join(' ') ?? null,
     level: tokenRule.level,
     category: tokenRule.category,
@@ -103,34 +160,77 @@ function ruleMatchToMatch(ruleMatch: {
   textEnd: number;
   matchedTokens: { text: string }[];
   replacementText: string | null;
+  scope?: ScopeKind;
+  tense?: Tense;
+  sentence: Sentence;
 }): Match {
   const originalText = ruleMatch.matchedTokens.map((t) => t.text).join('');
+  const rule = tokenRuleToRule(ruleMatch.rule);
+  const { index, start, end } = ruleMatch.sentence;
+  const sentence = { index, start, end };
+
+  if (ruleMatch.scope) {
+    return {
+      original: originalText,
+      replacement: null,
+      start: ruleMatch.textStart,
+      end: ruleMatch.textEnd,
+      rule: { ...rule, suggestion: SCOPE_HINTS[ruleMatch.scope] },
+      scope: ruleMatch.scope,
+      sentence,
+    };
+  }
 
+  // Lemma rules report past and perfect matches without a rewrite
+  const downgraded = ruleMatch.tense === 'past' && ruleMatch.replacementText === null;
   return {
     original: originalText,
     replacement: ruleMatch.replacementText,
     start: ruleMatch.textStart,
     end: ruleMatch.textEnd,
-    rule: tokenRuleToRule(ruleMatch.rule),
+    rule: downgraded ? { ...rule, suggestion: PAST_TENSE_HINT } : rule,
+    sentence,
   };
 }
 
-export function processText(text: string, level: StrictnessLevel): ProcessResult {
-  const tokenRules = getApplicableTokenRules(level);
-  const result = processWithRules(text, tokenRules);
-
-  const replacements = result.matches.map(ruleMatchToMatch);
-  const suggestions = result.suggestions.map(ruleMatchToMatch);
+/**
+ * Process text with the rules for a strictness level. The language is
+ * detected from the text when not given. Matches carry their line and
+ * column positions.
+ */
+export function processText(
+  text: string,
+  level: StrictnessLevel,
+  language: Language = detectLanguage(text)
+): ProcessResult {
+  Logger.verbose(`Using ${LANGUAGE_NAMES[language]} rules`);
+  const result = locateResult(processProse(text, level, language));
 
   Logger.verbose(
-    `Processed text: ${replacements.length} replacements, ${suggestions.length} suggestions`
+    `Processed text: ${result.replacements.length} replacements, ${result.suggestions.length} suggestions`
   );
 
+  return result;
+}
+
+/**
+ * Process one stretch of prose without logging, for documents processed in
+ * several parts
+ */
+export function processProse(
+  text: string,
+  level: StrictnessLevel,
+  language: Language
+): ProcessResult {
+  const result = processWithRules(text, getMatcher(level, language));
+
   return {
     original: text,
     transformed: result.transformed,
-    replacements,
-    suggestions,
+    replacements: result.matches.map(ruleMatchToMatch),
+    suggestions: result.suggestions.map(ruleMatchToMatch),
+    repairs: result.repairs,
+    language,
   };
 }
 
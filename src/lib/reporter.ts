@@ -1,5 +1,24 @@
-import type { InteractiveResult, Match, ProcessResult } from '../types/index.js';
-import { bold, cyan, dim, green, magenta, red, strikethrough, yellow } from '../utils/colors.js';
+import type {
+  BatchFileResult,
+  Finding,
+  GrammarRepair,
+  InteractiveResult,
+  Match,
+  ProcessResult,
+  ThresholdBreach,
+} from '../types/index.js';
+import {
+  bold,
+  cyan,
+  dim,
+  error,
+  green,
+  magenta,
+  red,
+  strikethrough,
+  success,
+  yellow,
+} from '../utils/colors.js';
 import { applyAcceptedReplacements } from './interactive.js';
 
 function formatReplacement(match: Match): string {
@@ -24,6 +43,13 @@ function formatSuggestion(match: Match): string {
   return `  ${bullet} ${phrase}: ${dim(hint)}`;
 }
 
+function formatRepair(repair: GrammarRepair): string {
+  const arrow = dim('->');
+  const original = red(strikethrough(repair.original));
+  const replacement = green(repair.replacement || '(removed)');
+  return `  ${original} ${arrow} ${replacement} ${dim(`[${repair.kind}]`)}`;
+}
+
 function groupByCategory(matches: Match[]): Map<string, Match[]> {
   const grouped = new Map<string, Match[]>();
   for (const match of matches) {
@@ -52,6 +78,15 @@ export function formatOutput(result: ProcessResult, showDiff: boolean): string {
       }
     }
 
+    const repairs = result.repairs ?? [];
+    if (repairs.length > 0) {
+      lines.push('');
+      lines.push(bold(cyan('── Grammar repairs ───────────────────────────────')));
+      for (const repair of repairs) {
+        lines.push(formatRepair(repair));
+      }
+    }
+
     if (result.suggestions.length > 0) {
       lines.push('');
       lines.push(bold(yellow('── Suggestions (manual review) ───────────────────')));
@@ -87,6 +122,10 @@ export function logStats(result: ProcessResult): void {
   if (repCount > 0) {
     parts.push(`${repCount} phrase${repCount === 1 ? '' : 's'} replaced`);
   }
+  const repairCount = result.repairs?.length ?? 0;
+  if (repairCount > 0) {
+    parts.push(`${repairCount} grammar repair${repairCount === 1 ? '' : 's'}`);
+  }
   if (sugCount > 0) {
     parts.push(`${sugCount} suggestion${sugCount === 1 ? '' : 's'}`);
   }
@@ -188,3 +227,104 @@ export function logInteractiveStats(
     console.error(green('\nNo changes made'));
   }
 }
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Format a table with one row per file of a batch and its counts
+ */
+export function formatBatchSummary(results: BatchFileResult[]): string {
+  const headers = ['File', 'Replaced', 'Repairs', 'Suggestions'];
+  const rows = results.map(({ file, result }) => [
+    file,
+    String(result.replacements.length),
+    String(result.repairs?.length ?? 0),
+    String(result.suggestions.length),
+  ]);
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) =>
+        column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+      )
+      .join('  ');
+
+  const lines = [
+    bold(magenta('── Files ─────────────────────────────────────────')),
+    dim(`  ${formatRow(headers)}`),
+  ];
+  for (const [i, row] of rows.entries()) {
+    const changed = results[i].result.replacements.length + results[i].result.suggestions.length;
+    const line = `  ${formatRow(row)}`;
+    lines.push(changed > 0 ? line : dim(line));
+  }
+  return lines.join('\n');
+}
+
+export function logBatchStats(results: BatchFileResult[]): void {
+  const count = (pick: (result: ProcessResult) => number) =>
+    results.reduce((total, { result }) => total + pick(result), 0);
+  const replaced = count((result) => result.replacements.length);
+  const repaired = count((result) => result.repairs?.length ?? 0);
+  const suggested = count((result) => result.suggestions.length);
+  const flagged = results.filter(
+    ({ result }) => result.replacements.length > 0 || result.suggestions.length > 0
+  ).length;
+
+  if (flagged === 0) {
+    console.error(green(`No weak language detected in ${plural(results.length, 'file')}`));
+    return;
+  }
+
+  const parts = [`${plural(results.length, 'file')} checked`, `${flagged} with weak language`];
+  if (replaced > 0) {
+    parts.push(`${plural(replaced, 'phrase')} replaced`);
+  }
+  if (repaired > 0) {
+    parts.push(plural(repaired, 'grammar repair'));
+  }
+  if (suggested > 0) {
+    parts.push(plural(suggested, 'suggestion'));
+  }
+
+  console.error(dim(`── Stats: ${parts.join(', ')} ──`));
+}
+
+/**
+ * Format findings one per line as "source:line:column: category: ...", the
+ * shape editors and CI annotations pick up
+ */
+export function formatFindings(source: string, findings: Finding[]): string {
+  return findings
+    .map(({ kind, match }) => {
+      const location = `${source}:${match.line}:${match.column}`;
+      const detail =
+        kind === 'replacement'
+          ? `"${match.original}" -> ${match.replacement ? `"${match.replacement}"` : '(remove)'}`
+          : `"${match.original}" (${match.rule.suggestion || 'Consider revising'})`;
+      return `${location}: ${match.rule.category}: ${detail}`;
+    })
+    .join('\n');
+}
+
+export function logThresholdBreaches(breaches: ThresholdBreach[], findingCount: number): void {
+  if (breaches.length === 0) {
+    console.error(
+      success(
+        findingCount === 0
+          ? 'Check passed: no weak language detected'
+          : `Check passed: ${plural(findingCount, 'finding')} within thresholds`
+      )
+    );
+    return;
+  }
+
+  for (const { name, count, limit } of breaches) {
+    console.error(error(`${name}: ${count} found, ${limit} allowed`));
+  }
+  console.error(red(bold('Check failed')));
+}
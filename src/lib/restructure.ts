@@ -0,0 +1,152 @@
+/**
+ * Sentence restructuring for rules that rewrite more than the matched phrase.
+ *
+ * A restructure config captures named pieces of the text that follows a match
+ * and rebuilds them through a template, so "Would you mind if I took Friday
+ * off?" can become "I'm taking Friday off."
+ */
+
+import { matchCase } from './casing.js';
+import { type Inflection, inflect, lemmatizeWord } from './lemmatizer.js';
+import type { CaptureConfig, RestructureConfig } from './rule-engine.js';
+import { isWordToken, type Token } from './tokenizer.js';
+import { matchesWordClass } from './word-classes.js';
+
+export interface RestructureResult {
+  /** End position of the restructured span in the original text */
+  textEnd: number;
+  /** Original text captured by each named capture */
+  captures: Record<string, string>;
+  /** Template output, or undefined when the config has no template */
+  replacementText?: string;
+}
+
+const CLAUSE_PUNCTUATION = new Set(['.', ',', ';', ':', '!', '?']);
+const SENTENCE_TERMINATORS = new Set(['.', '!', '?']);
+const TEMPLATE_REFERENCE = /\$([a-z][a-z0-9_]*)/gi;
+
+/**
+ * Capture tokens for one capture config, starting at index `from` in `after`.
+ * Returns the captured tokens and the index just past them, or null if the
+ * capture cannot be satisfied.
+ */
+function captureTokens(
+  after: Token[],
+  from: number,
+  capture: CaptureConfig
+): { tokens: Token[]; next: number } | null {
+  let i = from;
+  while (i < after.length && after[i].type === 'whitespace' && !after[i].text.includes('\n')) {
+    i++;
+  }
+
+  const first = after[i];
+  if (!(first && isWordToken(first))) return null;
+  if (capture.wordClass && !matchesWordClass(first, capture.wordClass)) return null;
+  if (capture.form && lemmatizeWord(first.normalized).inflection !== capture.form) return null;
+
+  const stopAt = new Set(capture.stopAt?.map((word) => word.toLowerCase()));
+  const limit = capture.afterTokens ?? (capture.untilPunctuation || stopAt.size > 0 ? 0 : 1);
+  const tokens: Token[] = [];
+  let words = 0;
+  let next = i;
+
+  for (; i < after.length; i++) {
+    const token = after[i];
+    if (token.type === 'whitespace') {
+      if (token.text.includes('\n')) break;
+      continue;
+    }
+    if (isWordToken(token)) {
+      if (stopAt.has(token.normalized)) break;
+      if (limit > 0 && words === limit) break;
+      words++;
+    } else if (CLAUSE_PUNCTUATION.has(token.text) || !capture.untilPunctuation) {
+      break;
+    }
+    tokens.push(token);
+    next = i + 1;
+  }
+
+  return tokens.length > 0 ? { tokens, next } : null;
+}
+
+function captureText(tokens: Token[], text: string, inflection?: Inflection): string {
+  const captured = text.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  if (!inflection) return captured;
+
+  const [head, ...rest] = captured.split(/(\s+)/);
+  return inflect(lemmatizeWord(head).lemma, inflection) + rest.join('');
+}
+
+/**
+ * Fill $name references in a template and match its case to the matched
+ * phrase: all caps, Title Case or the case of its first word.
+ */
+function fillTemplate(
+  template: string,
+  captures: Record<string, string>,
+  matchedTokens: Token[]
+): string {
+  const filled = template
+    .replace(TEMPLATE_REFERENCE, (_, name: string) => captures[name.toLowerCase()] ?? '')
+    .replace(/[ ]{2,}/g, ' ')
+    .replace(/\s+([.,!?;:])/g, '$1')
+    .trim();
+
+  const words = matchedTokens.filter(isWordToken).map((token) => token.text);
+  return words.length > 0 ? matchCase(filled, words, false) : filled;
+}
+
+/**
+ * Run the captures of a restructure config against the tokens after a match.
+ * Returns null when a required capture is missing.
+ */
+export function restructureMatch(
+  config: RestructureConfig,
+  matchedTokens: Token[],
+  after: Token[],
+  text: string,
+  slotCaptures: Record<string, string>
+): RestructureResult | null {
+  const captures = { ...slotCaptures };
+  let textEnd = matchedTokens[matchedTokens.length - 1].end;
+  let cursor = 0;
+
+  for (const capture of config.captures ?? []) {
+    const result = captureTokens(after, cursor, capture);
+    if (!result) {
+      if (!capture.optional) return null;
+      captures[capture.name] = '';
+      continue;
+    }
+    captures[capture.name] = captureText(result.tokens, text, capture.inflect);
+    textEnd = result.tokens[result.tokens.length - 1].end;
+    cursor = result.next;
+  }
+
+  if (config.template === undefined) {
+    return { textEnd, captures };
+  }
+
+  let template = config.template;
+
+  // A template that ends a sentence takes over the terminator of the text: its
+  // own mark replaces a question mark, "." or "!" is kept, and without one in
+  // the text the template adds none
+  if (/[.!?]$/.test(template)) {
+    const next = after.slice(cursor).find((t) => t.type !== 'whitespace' || t.text.includes('\n'));
+    if (next && SENTENCE_TERMINATORS.has(next.text)) {
+      textEnd = next.end;
+      if (next.text !== '?') template = template.slice(0, -1) + next.text;
+    } else {
+      template = template.slice(0, -1);
+    }
+  }
+
+  return {
+    textEnd,
+    captures,
+    replacementText: fillTemplate(template, captures, matchedTokens),
+  };
+}
@@ -1,11 +1,65 @@
-import type { StrictnessLevel } from '../types/index.js';
-import { getWordTokens, type Token, tokenize } from './tokenizer.js';
+import type {
+  GrammarRepair,
+  Language,
+  RuleConstraints,
+  RulePunctuation,
+  RuleScope,
+  ScopeKind,
+  StrictnessLevel,
+} from '../types/index.js';
+import { RulesError } from '../utils/errors.js';
+import { matchCase } from './casing.js';
+import { compileConstraints } from './constraints.js';
+import {
+  detectTense,
+  type Inflection,
+  isAuxiliary,
+  lemmatize,
+  lemmatizeWord,
+  retense,
+  type Tense,
+} from './lemmatizer.js';
+import { candidateRules, compileMatcher, type RuleMatcher } from './matcher.js';
+import { hasPosTag, parsePosTags } from './pos-tagger.js';
+import { restructureMatch } from './restructure.js';
+import { resolveScope } from './scope.js';
+import {
+  capitalizeFirstWord,
+  capitalizeSentences,
+  type Sentence,
+  segmentSentences,
+  sentenceAt,
+} from './sentences.js';
+import {
+  contractWords,
+  elisionLength,
+  expandContraction,
+  getWordTokens,
+  isWordToken,
+  normalizeForMatching,
+  type ProtectedTokenType,
+  type Token,
+  tokenize,
+} from './tokenizer.js';
+import { isWordClass, matchesWordClass } from './word-classes.js';
 
 export interface TokenPattern {
   /** Normalized token text to match (lowercase) */
   text: string;
   /** If true, this token is optional in the pattern */
   optional?: boolean;
+  /** Slot name when this token captures input words, e.g. "verb" for {verb} */
+  slot?: string;
+  /** Word class every captured word must belong to */
+  wordClass?: string;
+  /** Minimum number of words the slot captures (default: 1) */
+  minTokens?: number;
+  /** Maximum number of words the slot captures (default: 1) */
+  maxTokens?: number;
+  /** Part-of-speech tags the word must carry, from a "/TAG" suffix */
+  pos?: string[];
+  /** If true, `text` is punctuation that must stand between the surrounding words */
+  punctuation?: boolean;
 }
 
 export interface TokenRule {
@@ -21,11 +75,25 @@ export interface TokenRule {
   constraint?: (context: MatchContext) => boolean;
   /** If true, this rule requires sentence restructuring */
   restructure?: RestructureConfig;
+  /**
+   * If true, match on lemmas so any tense of the pattern's verbs matches and
+   * the tense carries into the replacement. Past and perfect matches are
+   * reported as suggestions.
+   */
+  lemma?: boolean;
+  /** How to treat matches inside negations, questions or reported speech */
+  scope?: RuleScope;
+  /** Protected spans the rule may match inside, e.g. quotes */
+  allowIn?: ProtectedTokenType[];
+  /** How punctuation around the match is handled */
+  punctuation?: RulePunctuation;
 }
 
 export interface RestructureConfig {
-  /** Template for restructured output, uses $1, $2, etc. for captured groups */
-  template: string;
+  /** Template for restructured output, uses $name for captures and pattern slots.
+   * When omitted, captures are consumed and the rule's replacement, which can
+   * refer to them as {name}, is used. */
+  template?: string;
   /** Capture groups from the surrounding context */
   captures?: CaptureConfig[];
 }
@@ -37,6 +105,16 @@ export interface CaptureConfig {
   afterTokens?: number;
   /** Stop capturing at these tokens */
   stopAt?: string[];
+  /** Capture the rest of the clause, up to the next punctuation mark */
+  untilPunctuation?: boolean;
+  /** Word class the first captured word must belong to */
+  wordClass?: string;
+  /** Verb form the first captured word must be written in, e.g. "took" for past */
+  form?: Inflection;
+  /** If true, the restructure still applies when nothing can be captured */
+  optional?: boolean;
+  /** Inflect the first captured word, e.g. "took" -> "taking" for progressive */
+  inflect?: Inflection;
 }
 
 export interface MatchContext {
@@ -48,6 +126,12 @@ export interface MatchContext {
   after: Token[];
   /** All tokens in the text */
   allTokens: Token[];
+  /** Index of the first matched token in allTokens */
+  startIndex: number;
+  /** Index just past the last matched token in allTokens */
+  endIndex: number;
+  /** Sentence containing the start of the match */
+  sentence: Sentence;
   /** The full original text */
   originalText: string;
 }
@@ -68,6 +152,14 @@ export interface RuleMatch {
   replacementText: string | null;
   /** Context for constraint evaluation */
   context: MatchContext;
+  /** Original text captured by each named slot */
+  captures: Record<string, string>;
+  /** Scope that downgraded this match to a suggestion */
+  scope?: ScopeKind;
+  /** Tense of the matched words, for lemma rules */
+  tense?: Tense;
+  /** Sentence containing the start of the match */
+  sentence: Sentence;
 }
 
 export interface RuleEngineResult {
@@ -75,35 +167,186 @@ export interface RuleEngineResult {
   transformed: string;
   matches: RuleMatch[];
   suggestions: RuleMatch[];
+  /** Grammar fixed around the replacements */
+  repairs: GrammarRepair[];
+}
+
+/** A replaced span: original offsets and the text put in its place */
+export interface ReplacedSpan {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/** Range of replaced text after every replacement has been applied */
+export interface EditRange {
+  start: number;
+  end: number;
+}
+
+const SLOT_TOKEN = /^\{([a-z][a-z0-9_-]*)((?::[^:{}]+)*)\}$/;
+const SLOT_REFERENCE = /\{([a-z][a-z0-9_-]*)\}/gi;
+const POS_SUFFIX = /^(.+)\/([A-Z]+(?:\|[A-Z]+)*)$/;
+const EDGE_PUNCTUATION = /^([.,!?;:¿¡]*)(.*?)([.,!?;:]*)$/s;
+
+/**
+ * Parse a slot token such as {verb}, {pronoun}, {who:subject} or {object:1-3}.
+ * A slot named after a word class is implicitly restricted to that class.
+ * @throws {RulesError} If the slot names an unknown word class or an invalid length
+ */
+function parseSlot(word: string): TokenPattern | null {
+  const match = SLOT_TOKEN.exec(word);
+  if (!match) return null;
+
+  const [, name, spec] = match;
+  const slot: TokenPattern = { text: word, slot: name };
+  if (isWordClass(name)) {
+    slot.wordClass = name;
+  }
+
+  for (const part of spec.split(':').filter(Boolean)) {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (range) {
+      const min = Number.parseInt(range[1], 10);
+      const max = range[2] ? Number.parseInt(range[2], 10) : min;
+      if (max === 0 || max < min) {
+        throw new RulesError(`Invalid length "${part}" in slot ${word}`);
+      }
+      slot.minTokens = min;
+      slot.maxTokens = max;
+    } else if (isWordClass(part)) {
+      slot.wordClass = part;
+    } else {
+      throw new RulesError(`Unknown word class "${part}" in slot ${word}`);
+    }
+  }
+
+  return slot;
+}
+
+/**
+ * Split a "/TAG" or "/TAG|TAG" suffix off a pattern word
+ * @throws {RulesError} If the suffix names an unknown tag
+ */
+function splitPosSuffix(word: string): { word: string; pos?: string[] } {
+  const match = POS_SUFFIX.exec(word);
+  if (!match) return { word };
+  return { word: match[1], pos: parsePosTags(match[2], `pattern word ${word}`) };
 }
 
-function normalizePatternText(text: string): TokenPattern[] {
-  return text
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(Boolean)
-    .map((word) => {
-      const cleaned = word.replace(/[.,!?;:]/g, '');
-      return { text: cleaned };
-    })
-    .filter((t) => t.text.length > 0);
+/**
+ * Parse one pattern word into a word or slot token, or nothing when the word
+ * has no letters left once inner punctuation is stripped
+ */
+function parsePatternWord(raw: string, useLemma: boolean): TokenPattern | null {
+  const { word, pos } = splitPosSuffix(raw);
+  const lower = normalizeForMatching(word);
+  const slot = parseSlot(lower);
+  if (slot) return pos ? { ...slot, pos } : slot;
+
+  const cleaned = lower.replace(/[.,!?;:]/g, '');
+  if (!cleaned) return null;
+  const patternToken: TokenPattern = {
+    text: useLemma ? lemmatizeWord(cleaned).lemma : cleaned,
+  };
+  if (pos) patternToken.pos = pos;
+  return patternToken;
+}
+
+/**
+ * Split a pattern into tokens. Punctuation at the edges of a word ("sorry,"
+ * or ", right?") becomes a token of its own that the text must contain, and
+ * elided words ("j'ai") are split off the way the tokenizer splits them.
+ */
+function normalizePatternText(
+  text: string,
+  useLemma = false,
+  language: Language = 'en'
+): TokenPattern[] {
+  const tokens: TokenPattern[] = [];
+  const pushPunctuation = (marks: string) => {
+    if (!marks) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.punctuation) {
+      last.text += marks;
+    } else {
+      tokens.push({ text: marks, punctuation: true });
+    }
+  };
+
+  for (const raw of text.split(/\s+/).filter(Boolean)) {
+    const [, leading, core, trailing] = EDGE_PUNCTUATION.exec(raw) as RegExpExecArray;
+    pushPunctuation(leading);
+    let rest = core;
+    for (let elided = elisionLength(rest, language); elided > 0; ) {
+      tokens.push({ text: normalizeForMatching(rest.slice(0, elided)) });
+      rest = rest.slice(elided);
+      elided = elisionLength(rest, language);
+    }
+    const word = rest ? parsePatternWord(rest, useLemma) : null;
+    if (word) tokens.push(word);
+    pushPunctuation(trailing);
+  }
+
+  return tokens;
 }
 
-const RESTRUCTURE_CAPTURES: Record<string, CaptureConfig[]> = {
-  'would you mind if': [{ name: 'subject' }],
+// `restructure: true` consumes a subject pronoun after the pattern
+const DEFAULT_RESTRUCTURE: RestructureConfig = {
+  captures: [{ name: 'subject', afterTokens: 1, wordClass: 'subject', optional: true }],
 };
 
+const TEMPLATE_REFERENCE = /\$([a-z][a-z0-9_]*)/gi;
+
+/**
+ * Resolve a rule entry's restructure setting into a config
+ * @throws {RulesError} If the template references an unknown capture or word class
+ */
+function buildRestructure(
+  restructure: boolean | RestructureConfig | undefined,
+  pattern: TokenPattern[],
+  patternText: string
+): RestructureConfig | undefined {
+  if (!restructure) return undefined;
+  if (restructure === true) return DEFAULT_RESTRUCTURE;
+
+  const captures = restructure.captures ?? [];
+  for (const capture of captures) {
+    if (capture.wordClass && !isWordClass(capture.wordClass)) {
+      throw new RulesError(`Unknown word class "${capture.wordClass}" in capture $${capture.name}`);
+    }
+  }
+
+  const names = new Set([
+    ...captures.map((c) => c.name.toLowerCase()),
+    ...pattern.map((p) => p.slot).filter(Boolean),
+  ]);
+  for (const [, name] of (restructure.template ?? '').matchAll(TEMPLATE_REFERENCE)) {
+    if (!names.has(name.toLowerCase())) {
+      throw new RulesError(`Template for "${patternText}" references unknown capture $${name}`);
+    }
+  }
+
+  return { template: restructure.template, captures };
+}
+
 export function convertRuleEntry(
   entry: {
     pattern: string;
     replacement?: string;
     category: string;
     suggestion?: string;
-    restructure?: boolean;
+    restructure?: boolean | RestructureConfig;
+    lemma?: boolean;
+    constraints?: RuleConstraints;
+    scope?: RuleScope;
+    allowIn?: ProtectedTokenType[];
+    punctuation?: RulePunctuation;
   },
-  level: StrictnessLevel
+  level: StrictnessLevel,
+  language: Language = 'en'
 ): TokenRule {
-  const pattern = normalizePatternText(entry.pattern);
+  const pattern = normalizePatternText(entry.pattern, entry.lemma, language);
   const patternKey = entry.pattern.toLowerCase();
 
   let replacement: string[] | null;
@@ -115,8 +358,24 @@ export function convertRuleEntry(
     replacement = entry.replacement.split(/\s+/).filter(Boolean);
   }
 
-  const captures = RESTRUCTURE_CAPTURES[patternKey];
-  const restructure = entry.restructure && captures ? { template: '', captures } : undefined;
+  const restructure = buildRestructure(entry.restructure, pattern, entry.pattern);
+
+  if (replacement) {
+    // Without a template, the replacement can refer to the restructure captures
+    const slots = new Set([
+      ...pattern.map((p) => p.slot).filter(Boolean),
+      ...(restructure?.template === undefined
+        ? (restructure?.captures ?? []).map((c) => c.name.toLowerCase())
+        : []),
+    ]);
+    for (const [, name] of replacement.join(' ').matchAll(SLOT_REFERENCE)) {
+      if (!slots.has(name.toLowerCase())) {
+        throw new RulesError(
+          `Replacement for "${entry.pattern}" references unknown slot {${name}}`
+        );
+      }
+    }
+  }
 
   return {
     id: `${level}-${patternKey.replace(/\s+/g, '-')}`,
@@ -125,7 +384,12 @@ export function convertRuleEntry(
     level,
     category: entry.category,
     suggestion: entry.suggestion,
+    constraint: entry.constraints ? compileConstraints(entry.constraints) : undefined,
     restructure,
+    lemma: entry.lemma,
+    scope: entry.scope,
+    allowIn: entry.allowIn,
+    punctuation: entry.punctuation,
   };
 }
 
@@ -147,244 +411,1001 @@ export function convertLegacyRule(legacy: {
   );
 }
 
-function matchesPattern(
-  wordTokens: Token[],
-  startIndex: number,
-  pattern: TokenPattern[]
-): { matched: boolean; endIndex: number } {
-  let tokenIdx = startIndex;
-  let patternIdx = 0;
+interface PatternResult {
+  matched: boolean;
+  endIndex: number;
+  /** Word tokens captured by each named slot */
+  captures: Record<string, Token[]>;
+}
+
+function fitsSlot(token: Token, patternToken: TokenPattern, useLemma: boolean): boolean {
+  return (
+    (!patternToken.wordClass || matchesWordClass(token, patternToken.wordClass, useLemma)) &&
+    (!patternToken.pos || hasPosTag(token, patternToken.pos))
+  );
+}
 
-  while (patternIdx < pattern.length) {
-    const patternToken = pattern[patternIdx];
+function matchKey(token: Token, useLemma: boolean): string {
+  return useLemma ? (token.lemma ?? token.normalized) : token.normalized;
+}
 
-    if (tokenIdx >= wordTokens.length) {
-      if (patternToken.optional) {
-        patternIdx++;
-        continue;
+/** Whether the writer used contractions or spelled them out */
+type Register = 'contracted' | 'expanded';
+
+interface MatchState {
+  /** Word tokens captured by each named slot */
+  captures: Record<string, Token[]>;
+}
+
+/**
+ * Check whether pattern tokens from patternIdx spell out the given words
+ */
+function patternSpells(pattern: TokenPattern[], patternIdx: number, words: string[]): boolean {
+  return words.every((word, i) => {
+    const patternToken = pattern[patternIdx + i];
+    return (
+      patternToken !== undefined &&
+      patternToken.text === word &&
+      !patternToken.slot &&
+      !patternToken.optional &&
+      !patternToken.punctuation
+    );
+  });
+}
+
+/**
+ * Match a literal pattern token written as a contraction against its
+ * expansion in the text, or a contraction in the text against its expansion
+ * spelled out in the pattern. Returns the end token index, or -1.
+ */
+function matchContraction(
+  stream: WordStream,
+  tokenIdx: number,
+  pattern: TokenPattern[],
+  patternIdx: number,
+  state: MatchState
+): number {
+  const wordTokens = stream.words;
+  const patternToken = pattern[patternIdx];
+
+  // Pattern "I'll", text "I will"
+  for (const words of expandContraction(patternToken.text)) {
+    const spelled = words.every((word, i) => wordTokens[tokenIdx + i]?.normalized === word);
+    if (!spelled) continue;
+    const end = matchFrom(stream, tokenIdx + words.length, pattern, patternIdx + 1, state, false);
+    if (end !== -1) return end;
+  }
+
+  // Pattern "I will", text "I'll"
+  const currentToken = wordTokens[tokenIdx];
+  for (const words of currentToken ? expandContraction(currentToken.normalized) : []) {
+    if (!patternSpells(pattern, patternIdx, words)) continue;
+    const end = matchFrom(stream, tokenIdx + 1, pattern, patternIdx + words.length, state, false);
+    if (end !== -1) return end;
+  }
+
+  return -1;
+}
+
+/**
+ * Match the pattern from patternIdx onwards, backtracking over slot lengths
+ * and optional tokens. Returns the end token index, or -1 if no match.
+ * In lemma mode auxiliaries between pattern tokens are skipped; otherwise
+ * contractions match their expansions.
+ */
+function matchFrom(
+  stream: WordStream,
+  tokenIdx: number,
+  pattern: TokenPattern[],
+  patternIdx: number,
+  state: MatchState,
+  useLemma: boolean
+): number {
+  if (patternIdx === pattern.length) return tokenIdx;
+
+  const patternToken = pattern[patternIdx];
+  const wordTokens = stream.words;
+
+  if (patternToken.punctuation) {
+    if (punctuationBefore(stream, tokenIdx, patternIdx === 0) !== patternToken.text) return -1;
+    return matchFrom(stream, tokenIdx, pattern, patternIdx + 1, state, useLemma);
+  }
+
+  if (patternToken.slot) {
+    const min = patternToken.minTokens ?? 1;
+    const max = patternToken.maxTokens ?? 1;
+
+    let available = 0;
+    while (
+      available < max &&
+      tokenIdx + available < wordTokens.length &&
+      fitsSlot(wordTokens[tokenIdx + available], patternToken, useLemma)
+    ) {
+      available++;
+    }
+
+    for (let count = available; count >= min; count--) {
+      const end = matchFrom(stream, tokenIdx + count, pattern, patternIdx + 1, state, useLemma);
+      if (end !== -1) {
+        state.captures[patternToken.slot] = wordTokens.slice(tokenIdx, tokenIdx + count);
+        return end;
       }
-      return { matched: false, endIndex: tokenIdx };
     }
+    return -1;
+  }
+
+  const currentToken = wordTokens[tokenIdx];
+
+  if (
+    currentToken &&
+    matchKey(currentToken, useLemma) === patternToken.text &&
+    (!patternToken.pos || hasPosTag(currentToken, patternToken.pos))
+  ) {
+    const end = matchFrom(stream, tokenIdx + 1, pattern, patternIdx + 1, state, useLemma);
+    if (end !== -1) return end;
+  }
 
-    const currentToken = wordTokens[tokenIdx];
+  if (!(useLemma || patternToken.pos)) {
+    const end = matchContraction(stream, tokenIdx, pattern, patternIdx, state);
+    if (end !== -1) return end;
+  }
 
-    if (currentToken.normalized === patternToken.text) {
-      tokenIdx++;
-      patternIdx++;
-    } else if (patternToken.optional) {
-      patternIdx++;
+  if (useLemma && patternIdx > 0 && currentToken && isAuxiliary(currentToken)) {
+    const end = matchFrom(stream, tokenIdx + 1, pattern, patternIdx, state, useLemma);
+    if (end !== -1) return end;
+  }
+
+  if (patternToken.optional) {
+    return matchFrom(stream, tokenIdx, pattern, patternIdx + 1, state, useLemma);
+  }
+
+  return -1;
+}
+
+function matchesPattern(
+  stream: WordStream,
+  startIndex: number,
+  pattern: TokenPattern[],
+  useLemma = false
+): PatternResult {
+  const state: MatchState = { captures: {} };
+  const endIndex = matchFrom(stream, startIndex, pattern, 0, state, useLemma);
+  return {
+    matched: endIndex !== -1,
+    endIndex,
+    captures: state.captures,
+  };
+}
+
+/**
+ * Find the register of the matched words: contracted when the writer used a
+ * contraction ("I'll"), expanded when they spelled one out ("I will"), or
+ * undefined when the match has neither
+ */
+function matchedRegister(matchedTokens: Token[]): Register | undefined {
+  const words = getWordTokens(matchedTokens).map((token) => token.normalized);
+  for (let i = 0; i < words.length; i++) {
+    if (expandContraction(words[i]).length > 0) return 'contracted';
+    if (contractWords([words[i], words[i + 1] ?? ''])) return 'expanded';
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite a replacement in the register the text used: expand its
+ * contractions when the writer spelled them out, or contract its expansions
+ * when the writer used contractions
+ */
+function adaptRegister(replacement: string, register: Register | undefined): string {
+  if (!register) return replacement;
+
+  const words = replacement.split(' ');
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const key = normalizeForMatching(word);
+
+    if (register === 'expanded') {
+      const [expansion] = expandContraction(key);
+      result.push(expansion ? matchWordCase(word, expansion.join(' ')) : word);
+      continue;
+    }
+
+    const contraction = contractWords([key, normalizeForMatching(words[i + 1] ?? '')]);
+    if (contraction) {
+      result.push(matchWordCase(word, contraction));
+      i++;
     } else {
-      return { matched: false, endIndex: tokenIdx };
+      result.push(word);
     }
   }
-
-  return { matched: true, endIndex: tokenIdx };
+  return result.join(' ');
 }
 
-function preserveCase(original: string, replacement: string): string {
-  if (!replacement) return replacement;
+/**
+ * Give a rewritten word the case of the word it replaces. "I" stays upper case.
+ */
+function matchWordCase(original: string, rewritten: string): string {
+  const cased = /^\p{Lu}/u.test(original)
+    ? rewritten.charAt(0).toUpperCase() + rewritten.slice(1)
+    : rewritten;
+  return cased.replace(/^i(?=$|[ '])/, 'I');
+}
 
-  const originalWords = original.split(/\s+/).filter(Boolean);
-  const firstWord = originalWords[0] || original;
+/**
+ * Get the original text captured by a slot. In lemma mode a trailing subject
+ * contraction keeps only its subject ("I'm" captures "I").
+ */
+function captureText(tokens: Token[], text: string, useLemma: boolean): string {
+  if (tokens.length === 0) return '';
+
+  const last = tokens[tokens.length - 1];
+  let end = last.end;
+  if (useLemma && last.type === 'contraction' && last.lemma !== last.normalized) {
+    end = last.start + last.text.search(/['’ʼ]/);
+  }
+  return text.slice(tokens[0].start, end);
+}
 
-  const hasMultipleChars = firstWord.length > 1;
-  const isAllUpper =
-    hasMultipleChars &&
-    firstWord === firstWord.toUpperCase() &&
-    firstWord !== firstWord.toLowerCase();
-  const isAllLower = firstWord === firstWord.toLowerCase() && firstWord !== firstWord.toUpperCase();
-  const isCapitalized =
-    firstWord[0] === firstWord[0].toUpperCase() &&
-    (firstWord.length === 1 || firstWord.slice(1) === firstWord.slice(1).toLowerCase());
+const STRAIGHT_APOSTROPHE = /(?<=\p{L})'(?=\p{L})/u;
+const CURLY_APOSTROPHE = /(?<=\p{L})’(?=\p{L})/u;
+
+/**
+ * Write apostrophes in a replacement the way the matched text, or else the
+ * whole text, writes them, so "I’m sorry" doesn't gain a straight "I'd"
+ */
+function matchApostrophes(replacement: string, matched: string, text: string): string {
+  if (!replacement.includes("'")) return replacement;
+  const curly = (sample: string) =>
+    CURLY_APOSTROPHE.test(sample) && !STRAIGHT_APOSTROPHE.test(sample);
+  const sample = /\p{L}['’]\p{L}/u.test(matched) ? matched : text;
+  return curly(sample) ? replacement.replace(/'/g, '’') : replacement;
+}
 
-  if (isAllUpper) return replacement.toUpperCase();
-  if (isAllLower) return replacement.toLowerCase();
-  if (isCapitalized)
-    return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase();
+function isMatchable(token: Token): boolean {
+  return token.type !== 'whitespace' && token.type !== 'punctuation';
+}
 
-  return replacement;
+function fillSlots(template: string, captures: Record<string, string>): string {
+  return template.replace(SLOT_REFERENCE, (_, name: string) => captures[name.toLowerCase()] ?? '');
 }
 
 function buildReplacementText(
   matchedTokens: Token[],
-  replacement: string[] | null,
-  _allTokens: Token[]
+  rule: TokenRule,
+  slotCaptures: Record<string, string>,
+  atSentenceStart = false
 ): string | null {
+  let replacement = rule.replacement;
+  let captures = slotCaptures;
   if (replacement === null) return null;
   if (replacement.length === 0) return '';
 
-  const firstWordToken = matchedTokens.find((t) => t.type === 'word' || t.type === 'contraction');
+  if (rule.lemma) {
+    const matchedWords = getWordTokens(matchedTokens);
+    const retensed = retense(
+      replacement,
+      detectTense(matchedWords),
+      matchedWords[0]?.lemma ?? '',
+      captures
+    );
+    // Past and perfect matches are reported without a rewrite
+    if (!retensed) return null;
+    ({ words: replacement, captures } = retensed);
+  }
+
+  const firstWordToken = matchedTokens.find(isMatchable);
   if (!firstWordToken) {
-    return replacement.join(' ');
+    return fillSlots(replacement.join(' '), captures);
   }
 
-  const matchedPhrase = matchedTokens
-    .filter((t) => t.type === 'word' || t.type === 'contraction')
-    .map((t) => t.text)
-    .join(' ');
+  const matchedWords = matchedTokens.filter(isMatchable).map((t) => t.text);
 
+  // Case is decided on the template so captured text keeps its original casing
   const replacementPhrase = replacement.join(' ');
-  return preserveCase(matchedPhrase, replacementPhrase);
+  const filled = fillSlots(matchCase(replacementPhrase, matchedWords, atSentenceStart), captures);
+
+  // A leading slot escapes case preservation, so its first letter follows the match
+  if (replacementPhrase.startsWith('{') && /^\p{Lu}/u.test(firstWordToken.text)) {
+    return filled.charAt(0).toUpperCase() + filled.slice(1);
+  }
+  return filled;
+}
+
+/**
+ * Find the index just past the token that ends at the given text position
+ */
+function tokenIndexAfter(allTokens: Token[], end: number): number {
+  let low = 0;
+  let high = allTokens.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (allTokens[mid].end < end) low = mid + 1;
+    else high = mid;
+  }
+  return Math.min(low + 1, allTokens.length);
+}
+
+/**
+ * Build a match context. The before/after token lists are only sliced when
+ * something reads them, so unconstrained matches stay cheap on long texts.
+ */
+function createContext(
+  allTokens: Token[],
+  startIndex: number,
+  endIndex: number,
+  sentence: Sentence,
+  text: string
+): MatchContext {
+  let before: Token[] | undefined;
+  let after: Token[] | undefined;
+
+  return {
+    get before() {
+      before ??= allTokens.slice(0, startIndex);
+      return before;
+    },
+    matched: allTokens.slice(startIndex, endIndex),
+    get after() {
+      after ??= allTokens.slice(endIndex);
+      return after;
+    },
+    allTokens,
+    startIndex,
+    endIndex,
+    sentence,
+    originalText: text,
+  };
 }
 
-const SUBJECT_PRONOUNS = new Set(['i', 'we', 'you', 'he', 'she', 'it', 'they']);
+interface WordStream {
+  /** Every token of the text */
+  tokens: Token[];
+  /** Index in allTokens of each matchable token */
+  positions: number[];
+  words: Token[];
+}
 
-function getTokensBetween(allTokens: Token[], start: number, end: number): Token[] {
-  const startToken = allTokens.findIndex((t) => t.start >= start);
-  const endToken = allTokens.findIndex((t) => t.end >= end);
+interface PatternHit {
+  ruleIndex: number;
+  start: number;
+  result: PatternResult;
+  stream: WordStream;
+}
 
-  if (startToken === -1) return [];
-  const actualEnd = endToken === -1 ? allTokens.length : endToken + 1;
+/**
+ * Collect the tokens rules match against: words and contractions, plus the
+ * protected token types a rule opts into
+ */
+function wordStream(allTokens: Token[], allowIn: readonly ProtectedTokenType[] = []): WordStream {
+  const positions: number[] = [];
+  allTokens.forEach((token, index) => {
+    if (isWordToken(token) || allowIn.includes(token.type as ProtectedTokenType)) {
+      positions.push(index);
+    }
+  });
+  return { tokens: allTokens, positions, words: positions.map((index) => allTokens[index]) };
+}
 
-  return allTokens.slice(startToken, actualEnd);
+function isGap(token: Token | undefined): boolean {
+  return token?.type === 'whitespace' || token?.type === 'punctuation';
 }
 
-export function findMatches(text: string, rules: TokenRule[]): RuleMatch[] {
-  const allTokens = tokenize(text);
-  const wordTokens = getWordTokens(allTokens);
-  const matches: RuleMatch[] = [];
-  const usedRanges: Array<{ start: number; end: number }> = [];
+/**
+ * Find where the punctuation right before the token at `position` starts.
+ * Whitespace between it and the token is skipped, and the run stops at the
+ * next whitespace, so ". ¿Tiene" gives just "¿". Returns `position` when no
+ * punctuation comes before the token.
+ */
+function leadingPunctuationStart(tokens: Token[], position: number): number {
+  let end = position;
+  while (tokens[end - 1]?.type === 'whitespace') end--;
+  let start = end;
+  while (tokens[start - 1]?.type === 'punctuation') start--;
+  return start === end ? position : start;
+}
 
-  const sortedRules = [...rules].sort((a, b) => b.pattern.length - a.pattern.length);
+/**
+ * Get the punctuation between the words at stream positions `index - 1` and
+ * `index`, ignoring whitespace. Leading punctuation is the run right before
+ * the word at `index`; anything else is read forwards from the word before it.
+ */
+function punctuationBefore(stream: WordStream, index: number, leading: boolean): string {
+  const { tokens, positions } = stream;
+  let marks = '';
+  if (leading) {
+    const position = positions[index];
+    for (let i = leadingPunctuationStart(tokens, position); i < position; i++) {
+      if (tokens[i].type === 'punctuation') marks += tokens[i].normalized;
+    }
+  } else {
+    for (let i = index > 0 ? positions[index - 1] + 1 : 0; isGap(tokens[i]); i++) {
+      if (tokens[i].type === 'punctuation') marks += tokens[i].normalized;
+    }
+  }
+  return marks;
+}
 
-  for (const rule of sortedRules) {
-    for (let i = 0; i < wordTokens.length; i++) {
-      const result = matchesPattern(wordTokens, i, rule.pattern);
+/**
+ * Widen a matched token range over the punctuation the pattern starts or
+ * ends with, and over a trailing comma the rule consumes
+ */
+function widenOverPunctuation(
+  tokens: Token[],
+  startIndex: number,
+  endIndex: number,
+  rule: TokenRule
+): [number, number] {
+  let start = startIndex;
+  let end = endIndex;
+
+  if (rule.pattern[0]?.punctuation) {
+    start = leadingPunctuationStart(tokens, start);
+  }
 
-      if (!result.matched) continue;
+  if (rule.pattern[rule.pattern.length - 1]?.punctuation) {
+    while (isGap(tokens[end])) end++;
+    while (tokens[end - 1].type === 'whitespace') end--;
+  } else if (rule.punctuation?.consumeTrailingComma && tokens[end]?.text === ',') {
+    end++;
+  }
 
-      const matchedWordTokens = wordTokens.slice(i, result.endIndex);
-      if (matchedWordTokens.length === 0) continue;
+  return [start, end];
+}
 
-      const textStart = matchedWordTokens[0].start;
-      const textEnd = matchedWordTokens[matchedWordTokens.length - 1].end;
+/**
+ * Get the sentence-ending punctuation at the end of a matched token range
+ */
+function trailingTerminator(tokens: Token[], endIndex: number): string {
+  let terminator = '';
+  for (let i = endIndex - 1; i >= 0 && tokens[i].type === 'punctuation'; i--) {
+    if (!/[.!?…]/.test(tokens[i].text)) break;
+    terminator = tokens[i].text + terminator;
+  }
+  return terminator;
+}
 
-      const overlaps = usedRanges.some(
-        (range) =>
-          (textStart >= range.start && textStart < range.end) ||
-          (textEnd > range.start && textEnd <= range.end) ||
-          (textStart <= range.start && textEnd >= range.end)
-      );
+/**
+ * Find rule matches in text. Pass a compiled matcher to reuse its index
+ * across calls; a plain rule list is compiled on the fly.
+ */
+export function findMatches(text: string, rules: TokenRule[] | RuleMatcher): RuleMatch[] {
+  const matcher = Array.isArray(rules) ? compileMatcher(rules) : rules;
+  const { language } = matcher;
+  // The lemmatizer, like the tagger, only knows English
+  const tokens = tokenize(text, { language });
+  const allTokens = language === 'en' ? lemmatize(tokens) : tokens;
+  const sentences = segmentSentences(text);
+  const prose = wordStream(allTokens);
+
+  const hits: PatternHit[] = [];
+  for (let i = 0; i < prose.words.length; i++) {
+    for (const ruleIndex of candidateRules(matcher, prose.words, i)) {
+      const rule = matcher.rules[ruleIndex];
+      const result = matchesPattern(prose, i, rule.pattern, rule.lemma);
+      if (result.matched && result.endIndex > i) {
+        hits.push({ ruleIndex, start: i, result, stream: prose });
+      }
+    }
+  }
 
-      if (overlaps) continue;
-
-      const matchedTokens = getTokensBetween(allTokens, textStart, textEnd);
-
-      const context: MatchContext = {
-        before: allTokens.filter((t) => t.end <= textStart),
-        matched: matchedTokens,
-        after: allTokens.filter((t) => t.start >= textEnd),
-        allTokens,
-        originalText: text,
-      };
-
-      if (rule.constraint && !rule.constraint(context)) continue;
-
-      let actualTextEnd = textEnd;
-      let actualMatchedTokens = matchedTokens;
-
-      if (rule.restructure?.captures) {
-        const afterWordTokens = getWordTokens(context.after);
-        for (const capture of rule.restructure.captures) {
-          if (capture.name === 'subject' && afterWordTokens.length > 0) {
-            const firstAfter = afterWordTokens[0];
-            if (SUBJECT_PRONOUNS.has(firstAfter.normalized)) {
-              actualTextEnd = firstAfter.end;
-              actualMatchedTokens = getTokensBetween(allTokens, textStart, actualTextEnd);
-            }
-          }
-        }
+  // Rules allowed inside protected spans scan their own token stream
+  const streams = new Map<string, WordStream>();
+  for (const ruleIndex of matcher.protectedRules) {
+    const rule = matcher.rules[ruleIndex];
+    const key = [...(rule.allowIn ?? [])].sort().join(',');
+    let stream = streams.get(key);
+    if (!stream) {
+      stream = wordStream(allTokens, rule.allowIn);
+      streams.set(key, stream);
+    }
+
+    for (let i = 0; i < stream.words.length; i++) {
+      const result = matchesPattern(stream, i, rule.pattern, rule.lemma);
+      if (result.matched && result.endIndex > i) {
+        hits.push({ ruleIndex, start: i, result, stream });
       }
+    }
+  }
 
-      const extendedContext: MatchContext = {
-        ...context,
-        matched: actualMatchedTokens,
-        after: allTokens.filter((t) => t.start >= actualTextEnd),
-      };
+  // Claim hits in rule priority order so the longest pattern wins overlaps
+  hits.sort((a, b) => a.ruleIndex - b.ruleIndex || a.start - b.start);
+
+  const matches: RuleMatch[] = [];
+  const claimed = new Uint8Array(allTokens.length);
+
+  for (const { ruleIndex, start, result, stream } of hits) {
+    const rule = matcher.rules[ruleIndex];
+    const [startIndex, endIndex] = widenOverPunctuation(
+      allTokens,
+      stream.positions[start],
+      stream.positions[result.endIndex - 1] + 1,
+      rule
+    );
+    if (claimed.subarray(startIndex, endIndex).includes(1)) continue;
+
+    const textStart = allTokens[startIndex].start;
+    // Every matched word lies inside a sentence, so the lookup always succeeds
+    const sentence = sentenceAt(sentences, textStart) as Sentence;
+    const context = createContext(allTokens, startIndex, endIndex, sentence, text);
+    const atSentenceStart = textStart === sentence.start;
+
+    if (rule.constraint && !rule.constraint(context)) continue;
+
+    const scope = rule.scope ? resolveScope(rule.scope, context) : undefined;
+    if (scope?.action === 'skip') continue;
+
+    const captures: Record<string, string> = {};
+    for (const [name, tokens] of Object.entries(result.captures)) {
+      captures[name] = captureText(tokens, text, rule.lemma ?? false);
+    }
 
-      const replacementText = buildReplacementText(
-        actualMatchedTokens,
-        rule.replacement,
-        allTokens
+    let matchContext = context;
+    let replacementText: string | null;
+
+    if (scope) {
+      // Downgraded matches are reported as suggestions and left untouched
+      replacementText = null;
+    } else if (rule.restructure) {
+      const restructured = restructureMatch(
+        rule.restructure,
+        context.matched,
+        context.after,
+        text,
+        captures
       );
 
-      matches.push({
-        rule,
-        tokenStart: i,
-        tokenEnd: result.endIndex,
-        textStart,
-        textEnd: actualTextEnd,
-        matchedTokens: actualMatchedTokens,
-        replacementText,
-        context: extendedContext,
-      });
-
-      usedRanges.push({ start: textStart, end: textEnd });
+      // Without its captures a templated rule falls back to the plain replacement
+      if (!restructured && (rule.restructure.template === undefined || !rule.replacement?.length)) {
+        continue;
+      }
+
+      if (restructured) {
+        const restructuredEnd = tokenIndexAfter(allTokens, restructured.textEnd);
+        matchContext = createContext(allTokens, startIndex, restructuredEnd, sentence, text);
+        Object.assign(captures, restructured.captures);
+      }
+
+      replacementText =
+        restructured?.replacementText ??
+        buildReplacementText(matchContext.matched, rule, captures, atSentenceStart);
+    } else {
+      replacementText = buildReplacementText(context.matched, rule, captures, atSentenceStart);
+      if (replacementText !== null && rule.punctuation?.keepTerminator) {
+        replacementText += trailingTerminator(allTokens, endIndex);
+      }
+    }
+
+    if (replacementText) {
+      replacementText = adaptRegister(replacementText, matchedRegister(matchContext.matched));
+      const textEnd = allTokens[matchContext.endIndex - 1].end;
+      replacementText = matchApostrophes(replacementText, text.slice(textStart, textEnd), text);
     }
+
+    matches.push({
+      rule,
+      tokenStart: start,
+      tokenEnd: result.endIndex,
+      textStart,
+      textEnd: allTokens[matchContext.endIndex - 1].end,
+      matchedTokens: matchContext.matched,
+      replacementText,
+      context: matchContext,
+      captures,
+      scope: scope?.kind,
+      tense: rule.lemma ? detectTense(getWordTokens(context.matched)) : undefined,
+      sentence,
+    });
+
+    claimed.fill(1, startIndex, endIndex);
   }
 
   return matches.sort((a, b) => a.textStart - b.textStart);
 }
 
+/**
+ * Apply replacement matches, repair the grammar around them and tidy the text
+ */
+/**
+ * Replace spans of text, then repair the grammar and tidy the whitespace
+ * around them. Both processing and interactive review write text this way.
+ */
+export function applySpans(
+  text: string,
+  spans: Array<ReplacedSpan & { atSentenceStart?: boolean }>,
+  language: Language = 'en'
+): { text: string; repairs: GrammarRepair[] } {
+  const result = replaceSpans(text, spans);
+  const edits = editRanges(spans);
+  // Article, doubled-word and conjunction repairs follow English grammar
+  const repaired =
+    language === 'en' ? repairGrammar(result, edits) : { text: result, repairs: [], edits };
+
+  return { text: cleanupText(repaired.text, repaired.edits), repairs: repaired.repairs };
+}
+
+function applyReplacements(
+  text: string,
+  matches: RuleMatch[],
+  language: Language = 'en'
+): { text: string; repairs: GrammarRepair[] } {
+  const spans = matches
+    .filter((match) => match.replacementText !== null)
+    .map((match) => ({
+      start: match.textStart,
+      end: match.textEnd,
+      replacement: match.replacementText || '',
+      atSentenceStart: match.textStart === match.sentence.start,
+    }));
+  return applySpans(text, spans, language);
+}
+
 export function applyMatches(text: string, matches: RuleMatch[]): string {
-  const replacementMatches = matches.filter((m) => m.replacementText !== null);
-  const sortedMatches = [...replacementMatches].sort((a, b) => b.textStart - a.textStart);
+  return applyReplacements(text, matches).text;
+}
+
+/**
+ * Replace non-overlapping spans of text, building the result once. When a
+ * span opened a capitalized sentence, the sentence stays capitalized even if
+ * its first words were deleted.
+ */
+function replaceSpans(
+  text: string,
+  spans: Array<ReplacedSpan & { atSentenceStart?: boolean }>
+): string {
+  let result = '';
+  let pos = 0;
+  // A deleted sentence start passes its capital to the next word written
+  let capitalizeNext = false;
+  const append = (chunk: string) => {
+    if (capitalizeNext && WORD_CHARACTER.test(chunk)) {
+      result += capitalizeFirstWord(chunk);
+      capitalizeNext = false;
+    } else {
+      result += chunk;
+    }
+  };
 
-  let result = text;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    append(text.slice(pos, span.start));
+    let replaced = span.replacement;
+    if (span.atSentenceStart && /\p{Lu}/u.test(text[span.start] ?? '')) {
+      if (WORD_CHARACTER.test(replaced)) {
+        replaced = capitalizeFirstWord(replaced);
+      } else {
+        capitalizeNext = true;
+      }
+    }
+    append(replaced);
+    pos = span.end;
+  }
+  append(text.slice(pos));
+  return result;
+}
 
-  for (const match of sortedMatches) {
-    const before = result.slice(0, match.textStart);
-    const after = result.slice(match.textEnd);
-    result = before + (match.replacementText || '') + after;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+const LINE_BREAK = /[\r\n]/;
+const CLOSING_PUNCTUATION = /[.,!?;:]/;
+const OPENING_PUNCTUATION = /[([{"“‘]/;
+/**
+ * Merge edits whose neighbourhoods meet, so each stretch of text is tidied once
+ */
+function mergeEdits(text: string, edits: EditRange[]): EditRange[] {
+  const merged: EditRange[] = [];
+  for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && /^[ \t]*$/.test(text.slice(last.end, Math.max(last.end, edit.start)))) {
+      last.end = Math.max(last.end, edit.end);
+    } else {
+      merged.push({ ...edit });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Tidy the whitespace around one edit. A deletion leaves one space between
+ * words, none before punctuation, and the line's indentation and trailing
+ * whitespace as they were. Returns the span to replace, its new text and
+ * where the edited content starts in that text.
+ */
+function tidyEdit(text: string, edit: EditRange): ReplacedSpan & { contentStart: number } {
+  const lineStart = text.lastIndexOf('\n', edit.start - 1) + 1;
+  let before = edit.start;
+  while (before > lineStart && /[ \t]/.test(text[before - 1])) before--;
+  let after = edit.end;
+  while (after < text.length && /[ \t]/.test(text[after])) after++;
+
+  // Slots that captured nothing leave runs of spaces inside a replacement
+  const core = text
+    .slice(edit.start, edit.end)
+    .trim()
+    .replace(/[ \t]{2,}/g, ' ');
+  const leading = text.slice(before, edit.start);
+  const trailing = text.slice(edit.end, after);
+  const next = text[after];
+  const atLineStart = before === lineStart;
+  const atLineEnd = next === undefined || LINE_BREAK.test(next);
+
+  let rebuilt: string;
+  let contentStart: number;
+  if (core) {
+    const lead = !atLineStart && CLOSING_PUNCTUATION.test(core[0]) ? '' : leading;
+    rebuilt = lead + core + trailing;
+    contentStart = lead.length;
+  } else {
+    let gap: string;
+    if (atLineStart) {
+      gap = leading;
+    } else if (atLineEnd) {
+      // Trailing spaces can be a markdown hard break
+      gap = trailing;
+    } else if (CLOSING_PUNCTUATION.test(next) || OPENING_PUNCTUATION.test(text[before - 1])) {
+      gap = '';
+    } else {
+      gap = leading || trailing.slice(0, 1);
+    }
+    rebuilt = gap;
+    contentStart = gap.length;
   }
 
-  result = cleanupText(result);
+  return { start: before, end: after, replacement: rebuilt, contentStart };
+}
 
-  return result;
+/**
+ * Tidy text after replacements, only around the edits: collapse the spaces
+ * a deletion leaves, drop spaces it leaves before punctuation and capitalize
+ * a sentence whose first words it removed. Everything else, including
+ * indentation, trailing spaces, runs of spaces and line endings, is left
+ * byte for byte.
+ */
+function cleanupText(text: string, edits: EditRange[]): string {
+  // Merged edits are tidied over whitespace that never reaches the next one,
+  // so each can be tidied in the original text and the result built once
+  let result = '';
+  let pos = 0;
+  const offsets: number[] = [];
+  for (const edit of mergeEdits(text, edits)) {
+    const tidied = tidyEdit(text, edit);
+    result += text.slice(pos, tidied.start);
+    offsets.push(result.length + tidied.contentStart);
+    result += tidied.replacement;
+    pos = tidied.end;
+  }
+  result += text.slice(pos);
+  return capitalizeSentences(result, offsets);
 }
 
-function cleanupText(text: string): string {
-  const lines = text.split('\n');
-  const cleanedLines = lines.map((line) => {
-    let cleaned = line.replace(/[ ]{2,}/g, ' ');
-    cleaned = cleaned.replace(/\s+([.,!?;:])/g, '$1');
-    cleaned = cleaned.replace(/^[ ]+/g, '');
-    cleaned = cleaned.replace(/[ ]+$/g, '');
-    return cleaned;
-  });
+// Conjunctions left dangling when the words before them are deleted
+const FRAGMENT_CONJUNCTIONS =
+  /^[ \t]*(?:[,;:][ \t]*)*(?:(?:and|but|so|or|yet)(?![\p{L}\p{N}'])[ \t]*,?[ \t]*)?/iu;
+const SENTENCE_START_BEFORE = /(?:^|[.!?…]["'”’)\]]*[ \t]+|\n)[ \t]*(?:[-*+•][ \t]+)?$/;
+const SENTENCE_BOUNDARY = /[.!?…\n]/;
+const ARTICLE_WORD = /(?<![\p{L}\p{N}'’])(an?)(\s+)([\p{L}\p{N}][\p{L}\p{N}'’-]*)/giu;
+const DOUBLED_WORD = /(?<![\p{L}\p{N}'’])([\p{L}'’]+)(\s+)\1(?![\p{L}\p{N}'’])/giu;
+
+// Words whose repetition is grammatical ("what it is is", "he had had enough")
+const ALLOWED_DOUBLES = new Set(['had', 'that', 'is']);
+
+// Vowel letters with a consonant sound, and the reverse
+const CONSONANT_SOUND =
+  /^(?:uni(?:c|f|on|q|s|t|v)|us[aeiu]|use|ut[ei]|ur[aei]|eu|ewe|one(?![a-z])|once)/i;
+const VOWEL_SOUND = /^(?:hour|honest|honou?r|heir)/i;
+const INITIALISM = /^[A-Z]{2,5}$/;
+const VOWEL_SOUND_LETTERS = 'AEFHILMNORSX';
+
+/**
+ * Pick "a" or "an" for the word that follows the article
+ */
+function articleFor(word: string): 'a' | 'an' {
+  if (INITIALISM.test(word)) return VOWEL_SOUND_LETTERS.includes(word[0]) ? 'an' : 'a';
+  if (/^\d/.test(word)) return /^(?:8|1[18](?!\d))/.test(word) ? 'an' : 'a';
+  if (VOWEL_SOUND.test(word)) return 'an';
+  if (CONSONANT_SOUND.test(word)) return 'a';
+  return /^[aeiou]/i.test(word) ? 'an' : 'a';
+}
 
-  let result = cleanedLines.join('\n');
+/**
+ * Map replaced spans, given in original offsets, to the ranges their
+ * replacements occupy once every span has been replaced
+ */
+export function editRanges(spans: ReplacedSpan[]): EditRange[] {
+  let shift = 0;
+  return [...spans]
+    .sort((a, b) => a.start - b.start)
+    .map((span) => {
+      const start = span.start + shift;
+      shift += span.replacement.length - (span.end - span.start);
+      return { start, end: start + span.replacement.length };
+    });
+}
 
-  result = result.replace(/([.!?]\s+)([a-z])/g, (_, punct, letter) => {
-    return punct + letter.toUpperCase();
-  });
+/**
+ * Check whether an offset starts a sentence, looking back no further than the
+ * last line break or terminal punctuation
+ */
+function startsSentence(text: string, offset: number): boolean {
+  let from = offset;
+  while (from > 0 && !SENTENCE_BOUNDARY.test(text[from - 1])) from--;
+  return SENTENCE_START_BEFORE.test(text.slice(Math.max(0, from - 1), offset));
+}
 
-  const firstNonWhitespace = result.search(/\S/);
-  if (
-    firstNonWhitespace !== -1 &&
-    result[firstNonWhitespace] !== result[firstNonWhitespace].toUpperCase()
-  ) {
-    result =
-      result.slice(0, firstNonWhitespace) +
-      result[firstNonWhitespace].toUpperCase() +
-      result.slice(firstNonWhitespace + 1);
+interface TextChange {
+  start: number;
+  end: number;
+  replacement: string;
+  repair: GrammarRepair;
+}
+
+/**
+ * Fix grammar that replacements broke: "a"/"an" before the next word,
+ * doubled words ("will will") and conjunctions left at the start of a
+ * sentence (", but we..."). Only text touching an edit is repaired, so the
+ * author's own wording is left alone.
+ */
+export function repairGrammar(
+  text: string,
+  edits: EditRange[]
+): { text: string; repairs: GrammarRepair[]; edits: EditRange[] } {
+  const sortedEdits = [...edits].sort((a, b) => a.start - b.start);
+  let changes: TextChange[] = [];
+  const candidates: TextChange[] = [];
+
+  for (const edit of sortedEdits) {
+    if (edit.start !== edit.end || !startsSentence(text, edit.start)) continue;
+    const fragment = FRAGMENT_CONJUNCTIONS.exec(text.slice(edit.start))?.[0] ?? '';
+    const next = edit.start + fragment.length;
+    if (!(/[,;:]|[\p{L}]/u.test(fragment) && /[\p{L}\p{N}]/u.test(text[next] ?? ''))) continue;
+
+    const capitalize = /\p{Lu}/u.test(fragment);
+    candidates.push({
+      start: edit.start,
+      end: next + 1,
+      replacement: capitalize ? text[next].toUpperCase() : text[next],
+      repair: { kind: 'conjunction', original: fragment.trim(), replacement: '' },
+    });
   }
 
-  return result;
+  changes = acceptChanges(changes, candidates.splice(0));
+
+  let touchesEdit = editTester(sortedEdits);
+  for (const match of text.matchAll(ARTICLE_WORD)) {
+    const [whole, article, , word] = match;
+    const start = match.index;
+    if (!touchesEdit(start, start + whole.length)) continue;
+
+    const wanted = articleFor(word);
+    if (article.toLowerCase() === wanted) continue;
+    let replacement: string = wanted;
+    if (article === article.toUpperCase() && article.length > 1) replacement = wanted.toUpperCase();
+    else if (/\p{Lu}/u.test(article[0])) replacement = wanted[0].toUpperCase() + wanted.slice(1);
+
+    candidates.push({
+      start,
+      end: start + article.length,
+      replacement,
+      repair: {
+        kind: 'article',
+        original: `${article} ${word}`,
+        replacement: `${replacement} ${word}`,
+      },
+    });
+  }
+
+  changes = acceptChanges(changes, candidates.splice(0));
+
+  touchesEdit = editTester(sortedEdits);
+  for (const match of text.matchAll(DOUBLED_WORD)) {
+    const [whole, word] = match;
+    const start = match.index;
+    if (ALLOWED_DOUBLES.has(word.toLowerCase()) || !touchesEdit(start, start + whole.length)) {
+      continue;
+    }
+
+    candidates.push({
+      start: start + word.length,
+      end: start + whole.length,
+      replacement: '',
+      repair: { kind: 'duplicate', original: whole.replace(/\s+/, ' '), replacement: word },
+    });
+  }
+  changes = acceptChanges(changes, candidates);
+
+  let result = '';
+  let pos = 0;
+  const changeRanges: EditRange[] = [];
+  for (const change of changes) {
+    result += text.slice(pos, change.start);
+    changeRanges.push({ start: result.length, end: result.length + change.replacement.length });
+    result += change.replacement;
+    pos = change.end;
+  }
+  result += text.slice(pos);
+
+  return {
+    text: result,
+    repairs: changes.map((change) => change.repair),
+    edits: [...sortedEdits.map(rangeMapper(changes)), ...changeRanges],
+  };
+}
+
+/**
+ * Test ranges, given in increasing order, for touching one of the sorted,
+ * non-overlapping edits
+ */
+function editTester(edits: EditRange[]): (start: number, end: number) => boolean {
+  let i = 0;
+  return (start, end) => {
+    while (i < edits.length && edits[i].end < start) i++;
+    return i < edits.length && edits[i].start <= end;
+  };
+}
+
+/**
+ * Merge sorted candidate changes into the sorted accepted ones. A candidate
+ * overlapping an accepted change, or an earlier candidate, is dropped.
+ */
+function acceptChanges(accepted: TextChange[], candidates: TextChange[]): TextChange[] {
+  const merged: TextChange[] = [];
+  let i = 0;
+  for (const change of candidates) {
+    while (i < accepted.length && accepted[i].start <= change.start) merged.push(accepted[i++]);
+    const previous = merged[merged.length - 1];
+    if (previous && change.start < previous.end) continue;
+    if (i < accepted.length && accepted[i].start < change.end) continue;
+    merged.push(change);
+  }
+  return [...merged, ...accepted.slice(i)];
+}
+
+/**
+ * Map ranges through sorted text changes: a range moves with the changes
+ * before it and grows to cover the changes it overlaps
+ */
+function rangeMapper(changes: TextChange[]): (range: EditRange) => EditRange {
+  // Length added by the first i changes
+  const shifts = [0];
+  for (const change of changes) {
+    shifts.push(
+      shifts[shifts.length - 1] + change.replacement.length - (change.end - change.start)
+    );
+  }
+  // Number of changes that end at or before an offset
+  const endedBy = (offset: number) => {
+    let low = 0;
+    let high = changes.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (changes[mid].end <= offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  return (range) => {
+    let { start, end } = range;
+    for (let i = endedBy(range.start); i < changes.length && changes[i].start < range.end; i++) {
+      start = Math.min(start, changes[i].start);
+      end = Math.max(end, changes[i].end);
+    }
+    return { start: start + shifts[endedBy(start)], end: end + shifts[endedBy(end)] };
+  };
 }
 
-export function processWithRules(text: string, rules: TokenRule[]): RuleEngineResult {
+export function processWithRules(text: string, rules: TokenRule[] | RuleMatcher): RuleEngineResult {
   const allMatches = findMatches(text, rules);
 
-  const replacements = allMatches.filter((m) => m.rule.replacement !== null);
-  const suggestions = allMatches.filter((m) => m.rule.replacement === null);
+  const replacements = allMatches.filter((m) => m.replacementText !== null);
+  const suggestions = allMatches.filter((m) => m.replacementText === null);
 
-  const transformed = applyMatches(text, replacements);
+  const language = Array.isArray(rules) ? 'en' : rules.language;
+  const { text: transformed, repairs } = applyReplacements(text, replacements, language);
 
   return {
     original: text,
     transformed,
     matches: replacements,
     suggestions,
+    repairs,
   };
 }
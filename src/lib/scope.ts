@@ -0,0 +1,141 @@
+/**
+ * Scope detection around rule matches.
+ *
+ * A hedge inside a negation ("I never said I think"), a question ("Why do I
+ * think this?") or reported speech ("She said I think too much") means
+ * something different from the same words in a plain statement. Rules opt
+ * into skipping or downgrading matches found in these scopes.
+ */
+
+import type { RuleScope, ScopeAction, ScopeKind } from '../types/index.js';
+import type { MatchContext } from './rule-engine.js';
+import { isWordToken, type Token } from './tokenizer.js';
+import { matchesWordClass } from './word-classes.js';
+
+export interface ScopeResult {
+  kind: ScopeKind;
+  action: ScopeAction;
+}
+
+const CLAUSE_BREAKS = new Set([',', ';', ':']);
+const QUOTES = new Set(['"', '“', '”']);
+const SCOPE_WINDOW = 4;
+
+// Words that open an inverted question when followed by a subject
+const QUESTION_OPENERS = new Set([
+  'do',
+  'does',
+  'did',
+  'is',
+  'are',
+  'was',
+  'were',
+  'can',
+  'could',
+  'would',
+  'should',
+  'will',
+  'have',
+  'has',
+]);
+
+// Reporting verbs, matched by lemma
+const REPORTING_VERBS = new Set([
+  'say',
+  'tell',
+  'claim',
+  'mention',
+  'write',
+  'report',
+  'explain',
+  'reply',
+  'answer',
+  'argue',
+  'insist',
+  'suggest',
+  'ask',
+]);
+
+/**
+ * Get the tokens from the start of the match's sentence up to the match
+ */
+function sentenceBefore(context: MatchContext): Token[] {
+  const { allTokens, sentence } = context;
+  let start = context.startIndex;
+  while (start > 0 && allTokens[start - 1].start >= sentence.start) {
+    start--;
+  }
+  return allTokens.slice(start, context.startIndex);
+}
+
+/**
+ * Get the last few words before the match within its clause
+ */
+function clauseWordsBefore(context: MatchContext): Token[] {
+  const words: Token[] = [];
+  const before = sentenceBefore(context);
+  for (let i = before.length - 1; i >= 0 && words.length < SCOPE_WINDOW; i--) {
+    if (CLAUSE_BREAKS.has(before[i].text)) break;
+    if (isWordToken(before[i])) words.unshift(before[i]);
+  }
+  return words;
+}
+
+function isNegated(context: MatchContext): boolean {
+  return clauseWordsBefore(context).some((token) => matchesWordClass(token, 'negation'));
+}
+
+function isQuestion(context: MatchContext): boolean {
+  if (context.sentence.terminator?.includes('?')) return true;
+
+  // Inverted questions are common in transcripts without a question mark
+  const words = sentenceBefore(context).filter(isWordToken);
+  const [first, second] = [...words, ...context.matched.filter(isWordToken)];
+  return (
+    first !== undefined &&
+    second !== undefined &&
+    QUESTION_OPENERS.has(first.normalized) &&
+    matchesWordClass(second, 'subject')
+  );
+}
+
+function isReported(context: MatchContext): boolean {
+  const before = sentenceBefore(context);
+
+  // An unclosed quotation mark earlier in the sentence means the match is quoted
+  const quotes = before.filter((token) => QUOTES.has(token.text)).length;
+  if (quotes % 2 === 1) return true;
+
+  const words = before.filter(isWordToken).slice(-SCOPE_WINDOW);
+  return words.some((token) => REPORTING_VERBS.has(token.lemma ?? token.normalized));
+}
+
+const DETECTORS: Record<ScopeKind, (context: MatchContext) => boolean> = {
+  negation: isNegated,
+  question: isQuestion,
+  reported: isReported,
+};
+
+/**
+ * Find the first scope the rule's policy covers that contains the match.
+ * Skipping wins over downgrading when a match is in several scopes.
+ */
+export function resolveScope(policy: RuleScope, context: MatchContext): ScopeResult | undefined {
+  let result: ScopeResult | undefined;
+
+  for (const kind of Object.keys(DETECTORS) as ScopeKind[]) {
+    const action = policy[kind];
+    if (!(action && DETECTORS[kind](context))) continue;
+    if (action === 'skip') return { kind, action };
+    result ??= { kind, action };
+  }
+
+  return result;
+}
+
+/**
+ * Detect every scope that contains the match
+ */
+export function detectScopes(context: MatchContext): ScopeKind[] {
+  return (Object.keys(DETECTORS) as ScopeKind[]).filter((kind) => DETECTORS[kind](context));
+}
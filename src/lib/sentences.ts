@@ -0,0 +1,276 @@
+/**
+ * Sentence segmentation for speak-strong text processing.
+ *
+ * Splits text into sentences on terminal punctuation while skipping
+ * abbreviations ("e.g.", "approx.", "Dr."), decimals and versions, ellipses
+ * that continue a sentence, and punctuation inside quotes. Blank lines and
+ * list items always start a new sentence.
+ */
+
+import type { SentenceSpan } from '../types/index.js';
+
+export interface Sentence extends SentenceSpan {
+  /** Terminal punctuation that ended the sentence, e.g. "." or "?!" */
+  terminator?: string;
+}
+
+// Abbreviations that are never followed by a sentence break
+const CONTINUING_ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'sr',
+  'jr',
+  'st',
+  'mt',
+  'gen',
+  'capt',
+  'lt',
+  'col',
+  'sgt',
+  'rep',
+  'sen',
+  'gov',
+  'e.g',
+  'i.e',
+  'vs',
+  'approx',
+  'cf',
+  'ca',
+  'viz',
+  'incl',
+  'esp',
+  'resp',
+  // Spanish, German and French
+  'sra',
+  'srta',
+  'ud',
+  'uds',
+  'z.b',
+  'd.h',
+  'u.a',
+  'bzw',
+  'mme',
+  'mlle',
+]);
+
+// Abbreviations that precede a number ("No. 5", "p. 12") and are words otherwise
+const NUMBER_ABBREVIATIONS = new Set(['no', 'nos', 'fig', 'vol', 'p', 'pp']);
+
+// Abbreviations that can end a sentence, so they only break before a capital
+const TERMINAL_ABBREVIATIONS = new Set([
+  'etc',
+  'inc',
+  'ltd',
+  'co',
+  'corp',
+  'dept',
+  'est',
+  'min',
+  'max',
+  'ave',
+  'blvd',
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'sept',
+  'oct',
+  'nov',
+  'dec',
+  'a.m',
+  'p.m',
+  'usw',
+]);
+
+const TERMINATOR_CHARS = /[.!?…]/;
+const CLOSING_CHARS = /["'”’)\]]/;
+const LIST_MARKER = /[ \t]*(?:[-*+•]|\d+[.)]|[a-z][.)])[ \t]+/y;
+const PRECEDING_WORD = /[\p{L}\p{N}.'’-]*$/u;
+const INITIALISM = /^(?:\p{L}\.)*\p{L}$/u;
+const NUMBER_OR_VERSION = /^v?\d+(?:\.\d+)*$/i;
+
+function isUpperStart(char: string | undefined): boolean {
+  return char !== undefined && /\p{Lu}|\d/u.test(char);
+}
+
+function isLowerStart(char: string | undefined): boolean {
+  return char !== undefined && /\p{Ll}/u.test(char);
+}
+
+/**
+ * Skip whitespace from pos, and a list marker when pos is at a line start
+ */
+function skipToContent(text: string, pos: number): number {
+  let i = pos;
+  while (i < text.length && /\s/.test(text[i])) i++;
+
+  const lineStart = text.lastIndexOf('\n', i - 1) + 1;
+  if (/^[ \t]*$/.test(text.slice(lineStart, i))) {
+    LIST_MARKER.lastIndex = lineStart;
+    if (LIST_MARKER.test(text)) i = LIST_MARKER.lastIndex;
+  }
+  return i;
+}
+
+/**
+ * Decide whether a run of "." ends the sentence, based on the word before it
+ * and the first character of the next word
+ */
+function periodEndsSentence(text: string, dot: number, next: string | undefined): boolean {
+  const word = (PRECEDING_WORD.exec(text.slice(Math.max(0, dot - 32), dot))?.[0] ?? '')
+    .replace(/^['’]+/, '')
+    .toLowerCase();
+
+  if (CONTINUING_ABBREVIATIONS.has(word)) return false;
+  if (NUMBER_ABBREVIATIONS.has(word) && next !== undefined && /\d/.test(next)) return false;
+  if (TERMINAL_ABBREVIATIONS.has(word) || INITIALISM.test(word) || NUMBER_OR_VERSION.test(word)) {
+    return isUpperStart(next);
+  }
+  return true;
+}
+
+/**
+ * Split text into sentences
+ */
+export function segmentSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = skipToContent(text, 0);
+  let lastContent = start;
+
+  const push = (end: number, terminator?: string) => {
+    if (end > start) {
+      sentences.push({ index: sentences.length, start, end, terminator });
+    }
+  };
+
+  let i = start;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      const next = skipToContent(text, i);
+      const between = text.slice(i, next);
+      const paragraphBreak = /\n[ \t]*\n/.test(between);
+      const listItem = /\S/.test(between);
+      if (paragraphBreak || listItem || next >= text.length) {
+        push(lastContent);
+        start = next;
+        lastContent = next;
+        i = next;
+        continue;
+      }
+      i++;
+      continue;
+    }
+
+    if (!TERMINATOR_CHARS.test(char)) {
+      if (!/\s/.test(char)) lastContent = i + 1;
+      i++;
+      continue;
+    }
+
+    let runEnd = i;
+    while (runEnd < text.length && TERMINATOR_CHARS.test(text[runEnd])) runEnd++;
+    let end = runEnd;
+    while (end < text.length && CLOSING_CHARS.test(text[end])) end++;
+    lastContent = end;
+
+    // Terminators followed directly by more text ("3.14", "example.com") don't end anything
+    if (end < text.length && !/\s/.test(text[end])) {
+      i = end;
+      continue;
+    }
+
+    const run = text.slice(i, runEnd);
+    const nextStart = skipToContent(text, end);
+    const next = text[nextStart];
+    const quoted = end > runEnd;
+
+    let endsSentence: boolean;
+    if (nextStart >= text.length || /\n[ \t]*\n/.test(text.slice(end, nextStart))) {
+      endsSentence = true;
+    } else if (run.includes('!') || run.includes('?')) {
+      // '"Really?" she asked' continues the sentence
+      endsSentence = !(quoted && isLowerStart(next));
+    } else if (run.includes('…') || run.length > 1) {
+      endsSentence = isUpperStart(next);
+    } else {
+      endsSentence = periodEndsSentence(text, i, next);
+    }
+
+    if (endsSentence) {
+      push(end, run);
+      start = nextStart;
+      lastContent = nextStart;
+      i = nextStart;
+    } else {
+      i = end;
+    }
+  }
+
+  push(lastContent);
+  return sentences;
+}
+
+/**
+ * Find the sentence containing a text offset
+ */
+export function sentenceAt(sentences: Sentence[], offset: number): Sentence | undefined {
+  let low = 0;
+  let high = sentences.length - 1;
+  let found: Sentence | undefined;
+
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    if (sentences[mid].start <= offset) {
+      found = sentences[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found ?? sentences[0];
+}
+
+/**
+ * Capitalize the first word of text when it starts with a lowercase letter.
+ * Leading whitespace and punctuation are skipped; numbers are left alone.
+ */
+export function capitalizeFirstWord(text: string): string {
+  return text.replace(/^([^\p{L}\p{N}]*)(\p{Ll})/u, (_, lead: string, letter: string) => {
+    return lead + letter.toUpperCase();
+  });
+}
+
+/**
+ * Capitalize the first letter of every sentence that follows terminal
+ * punctuation, and of the text itself. With offsets, only the sentences
+ * starting at one of them are touched.
+ */
+export function capitalizeSentences(text: string, offsets?: number[]): string {
+  const sentences = segmentSentences(text);
+  const firstContent = text.search(/\S/);
+  const touched = offsets && new Set(offsets);
+  let result = '';
+  let pos = 0;
+
+  sentences.forEach((sentence, i) => {
+    if (touched && !touched.has(sentence.start)) return;
+    const follows =
+      i > 0 ? sentences[i - 1].terminator !== undefined : sentence.start === firstContent;
+    const char = text[sentence.start];
+    if (follows && isLowerStart(char)) {
+      result += text.slice(pos, sentence.start) + char.toUpperCase();
+      pos = sentence.start + 1;
+    }
+  });
+
+  return result + text.slice(pos);
+}
@@ -2,10 +2,43 @@
  * Tokenizer for speak-strong text processing.
  *
  * Splits text into tokens while preserving exact positions for accurate replacement.
- * Designed to be extended with NLP library integration (e.g., POS tagging).
+ * Curly apostrophes, non-breaking spaces, zero-width characters and
+ * compatibility forms are folded in each token's `normalized` form only, so
+ * matching sees "I’m" as "i'm" while the original text is left untouched.
+ * Contractions and elided words ("j'ai") follow the language being tokenized.
  */
 
-export type TokenType = 'word' | 'punctuation' | 'whitespace' | 'contraction';
+import type { Language } from '../types/index.js';
+import type { Inflection } from './lemmatizer.js';
+import { tagTokens } from './pos-tagger.js';
+
+/**
+ * Spans that are not the author's own prose. Words inside quotation marks or
+ * code spans are typed 'quote' or 'code'; URLs, email addresses, @mentions,
+ * #hashtags and file paths are single tokens of their own type.
+ */
+export type ProtectedTokenType =
+  | 'quote'
+  | 'code'
+  | 'url'
+  | 'email'
+  | 'mention'
+  | 'hashtag'
+  | 'path';
+
+/**
+ * Numbers and versions ("3.14", "v2.3.0", "10:30") and hyphenated compounds
+ * ("re-evaluate") are single word-like tokens, so rules can match them whole
+ * but never match inside them.
+ */
+export type TokenType =
+  | 'word'
+  | 'punctuation'
+  | 'whitespace'
+  | 'contraction'
+  | 'number'
+  | 'hyphenated'
+  | ProtectedTokenType;
 
 export interface Token {
   /** The original text of the token */
@@ -18,15 +51,80 @@ export interface Token {
   end: number;
   /** Normalized form (lowercase, for matching) */
   normalized: string;
-  /** Optional POS tag (for future NLP integration) */
+  /** Part-of-speech tag, e.g. "ADV", filled in by the tagger */
   pos?: string;
+  /** Dictionary form, filled in by the lemmatizer */
+  lemma?: string;
+  /** Verb form the token was written in, filled in by the lemmatizer */
+  inflection?: Inflection;
 }
 
 export interface TokenizerOptions {
   /** Preserve contraction tokens as single units (default: true) */
   preserveContractions?: boolean;
+  /** Classify quotes, code, URLs, emails, mentions and hashtags (default: true) */
+  protectSpans?: boolean;
+  /** Fill in part-of-speech tags (default: true). The tagger is English-only. */
+  tagPos?: boolean;
+  /** Language whose contractions and elisions apply (default: 'en') */
+  language?: Language;
 }
 
+export const PROTECTED_TOKEN_TYPES: readonly ProtectedTokenType[] = [
+  'quote',
+  'code',
+  'url',
+  'email',
+  'mention',
+  'hashtag',
+  'path',
+];
+
+// Atomic protected tokens, tried in order at the start of each word
+const ATOMIC_PATTERNS: Array<{ type: ProtectedTokenType; pattern: RegExp }> = [
+  { type: 'url', pattern: /(?:https?:\/\/|www\.)[^\s<>"'`]+/y },
+  { type: 'email', pattern: /[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)+/iy },
+  { type: 'mention', pattern: /@\w+(?:[.-]\w+)*/y },
+  { type: 'hashtag', pattern: /#[a-z_]\w*/iy },
+  // Windows paths, absolute or home paths, and relative paths with a file
+  // extension or several directories ("src/lib/tokenizer.ts", "docs/api/v2")
+  { type: 'path', pattern: /(?:[a-z]:\\|\\\\)[^\s<>"'`|]+/iy },
+  { type: 'path', pattern: /(?:~|\.{1,2})?\/(?:[\w.@+-]+\/)*[\w.@+-]+\/?/y },
+  {
+    type: 'path',
+    pattern:
+      /(?=[\w.@+/-]*[a-z])[\w.@+-]+(?:(?:\/[\w.@+-]+){2,}\/?|(?:\/[\w.@+-]+)+\.[a-z\d]{1,5}(?![\w/]))/iy,
+  },
+];
+
+// Numbers, decimals, dates, times and versions, with an optional pre-release
+// suffix ("2.0.0-beta"). A number that starts a hyphenated compound
+// ("3-year-old") is left to the word scanner.
+const NUMBER =
+  /v?\d+(?:[.,:/]\d+)*(?:-[\p{L}\d]+(?:\.[\p{L}\d]+)*)?(?![\p{L}\p{N}_]|[-‐‑][\p{L}\p{N}])/iuy;
+// ASCII hyphen, hyphen and non-breaking hyphen
+const HYPHEN = /[-‐‑]/;
+
+// Letters, digits and combining marks in any script
+const WORD_CHAR = /[\p{L}\p{N}\p{M}_]/u;
+// ASCII, typographic and modifier-letter apostrophes, and the fullwidth form
+const APOSTROPHE = /['’ʼ＇]/;
+const APOSTROPHES = /['’ʼ＇]/g;
+// Zero-width spaces and joiners, the word joiner, the BOM and soft hyphens
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF\u00AD]/;
+const ZERO_WIDTHS = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+const TYPOGRAPHIC_DOUBLE_QUOTES = /[“”„‟″]/g;
+const TYPOGRAPHIC_SINGLE_QUOTES = /[‘‚‛′]/g;
+
+// Punctuation that may end a URL or path but rarely belongs to it
+const URL_TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+// Words that start with an elision apostrophe rather than an opening quote
+const LEADING_APOSTROPHE_WORDS = new Set(["'em", "'til", "'cause", "'bout", "'round"]);
+
+const DOUBLE_QUOTES: Record<string, string> = { '"': '"', '“': '”' };
+const SINGLE_QUOTES: Record<string, string> = { "'": "'", '‘': '’' };
+
 // Common English contractions
 const CONTRACTIONS = new Set([
   "i'm",
@@ -97,94 +195,466 @@ const CONTRACTIONS = new Set([
   "there's",
 ]);
 
+// Words with an apostrophe that are kept whole, per language
+const LANGUAGE_CONTRACTIONS: Record<Language, ReadonlySet<string>> = {
+  en: CONTRACTIONS,
+  es: new Set(),
+  de: new Set(["geht's", "gibt's", "hab's", "ist's", "war's", "wie's", "mach's", "so'n"]),
+  fr: new Set(["aujourd'hui", "quelqu'un", "presqu'île", "prud'homme"]),
+};
+
+// Elided words that are written onto the next word with an apostrophe
+// ("j'ai", "l'équipe") and are tokens of their own
+const ELISIONS: Record<Language, ReadonlySet<string>> = {
+  en: new Set(),
+  es: new Set(),
+  de: new Set(),
+  fr: new Set([
+    "c'",
+    "d'",
+    "j'",
+    "l'",
+    "m'",
+    "n'",
+    "s'",
+    "t'",
+    "qu'",
+    "jusqu'",
+    "lorsqu'",
+    "puisqu'",
+    "quoiqu'",
+  ]),
+};
+
+// What each contraction stands for, most likely reading first. Rules match a
+// contraction and its expansion interchangeably ("I'll" and "I will").
+const CONTRACTION_EXPANSIONS: Record<string, string[]> = {
+  "i'm": ['i am'],
+  "i'll": ['i will'],
+  "i've": ['i have'],
+  "i'd": ['i would', 'i had'],
+  "you're": ['you are'],
+  "you'll": ['you will'],
+  "you've": ['you have'],
+  "you'd": ['you would', 'you had'],
+  "he's": ['he is', 'he has'],
+  "he'll": ['he will'],
+  "he'd": ['he would', 'he had'],
+  "she's": ['she is', 'she has'],
+  "she'll": ['she will'],
+  "she'd": ['she would', 'she had'],
+  "it's": ['it is', 'it has'],
+  "it'll": ['it will'],
+  "it'd": ['it would'],
+  "we're": ['we are'],
+  "we'll": ['we will'],
+  "we've": ['we have'],
+  "we'd": ['we would', 'we had'],
+  "they're": ['they are'],
+  "they'll": ['they will'],
+  "they've": ['they have'],
+  "they'd": ['they would', 'they had'],
+  "that's": ['that is'],
+  "that'll": ['that will'],
+  "that'd": ['that would'],
+  "who's": ['who is'],
+  "who'll": ['who will'],
+  "who'd": ['who would'],
+  "what's": ['what is'],
+  "what'll": ['what will'],
+  "what'd": ['what did'],
+  "where's": ['where is'],
+  "where'll": ['where will'],
+  "where'd": ['where did'],
+  "when's": ['when is'],
+  "when'll": ['when will'],
+  "when'd": ['when did'],
+  "why's": ['why is'],
+  "why'll": ['why will'],
+  "why'd": ['why did'],
+  "how's": ['how is'],
+  "how'll": ['how will'],
+  "how'd": ['how did'],
+  "isn't": ['is not'],
+  "aren't": ['are not'],
+  "wasn't": ['was not'],
+  "weren't": ['were not'],
+  "hasn't": ['has not'],
+  "haven't": ['have not'],
+  "hadn't": ['had not'],
+  "doesn't": ['does not'],
+  "don't": ['do not'],
+  "didn't": ['did not'],
+  "won't": ['will not'],
+  "wouldn't": ['would not'],
+  "shouldn't": ['should not'],
+  "couldn't": ['could not'],
+  "mightn't": ['might not'],
+  "mustn't": ['must not'],
+  "can't": ['cannot', 'can not'],
+  "let's": ['let us'],
+  "here's": ['here is'],
+  "there's": ['there is'],
+};
+
+// Expansions split into words, and the contraction for each expansion keyed
+// on the expanded words joined by spaces
+const EXPANDED_WORDS = new Map<string, string[][]>();
+const CONTRACTED_FORMS = new Map<string, string>();
+for (const [contraction, expansions] of Object.entries(CONTRACTION_EXPANSIONS)) {
+  EXPANDED_WORDS.set(
+    contraction,
+    expansions.map((expansion) => expansion.split(' '))
+  );
+  for (const expansion of expansions) {
+    if (!CONTRACTED_FORMS.has(expansion)) CONTRACTED_FORMS.set(expansion, contraction);
+  }
+}
+
 /**
  * Tokenize text into a sequence of tokens with position information.
  */
 export function tokenize(text: string, options: TokenizerOptions = {}): Token[] {
-  const { preserveContractions = true } = options;
+  const {
+    preserveContractions = true,
+    protectSpans = true,
+    tagPos = true,
+    language = 'en',
+  } = options;
+  const contractions = LANGUAGE_CONTRACTIONS[language];
   const tokens: Token[] = [];
   let pos = 0;
 
   while (pos < text.length) {
     const char = text[pos];
 
-    // Whitespace
-    if (/\s/.test(char)) {
+    // URLs, emails, mentions and hashtags are kept whole
+    const atomic = protectSpans && !WORD_CHAR.test(text[pos - 1] ?? '') && matchAtomic(text, pos);
+    if (atomic) {
+      tokens.push({
+        text: atomic.text,
+        type: atomic.type,
+        start: pos,
+        end: pos + atomic.text.length,
+        normalized: atomic.text.toLowerCase(),
+      });
+      pos += atomic.text.length;
+      continue;
+    }
+
+    // Whitespace, including non-breaking spaces and stray zero-width characters
+    if (isSpace(char)) {
       const start = pos;
-      while (pos < text.length && /\s/.test(text[pos])) {
+      while (pos < text.length && isSpace(text[pos])) {
         pos++;
       }
+      const space = text.slice(start, pos);
       tokens.push({
-        text: text.slice(start, pos),
+        text: space,
         type: 'whitespace',
         start,
         end: pos,
-        normalized: text.slice(start, pos),
+        normalized: space.replace(ZERO_WIDTHS, '').replace(/[^\S\r\n]/g, ' '),
       });
       continue;
     }
 
-    // Punctuation (but not apostrophe at start of word)
-    if (/[^\w\s']/.test(char) || (char === "'" && !/\w/.test(text[pos + 1] || ''))) {
+    // Numbers and versions
+    NUMBER.lastIndex = pos;
+    const number = !WORD_CHAR.test(text[pos - 1] ?? '') && NUMBER.exec(text)?.[0];
+    if (number) {
       tokens.push({
-        text: char,
-        type: 'punctuation',
+        text: number,
+        type: 'number',
         start: pos,
-        end: pos + 1,
-        normalized: char,
+        end: pos + number.length,
+        normalized: normalizeForMatching(number),
       });
-      pos++;
+      pos += number.length;
       continue;
     }
 
-    // Word (possibly with apostrophe for contractions)
-    if (/[\w']/.test(char)) {
+    // Word (possibly with apostrophe for contractions, or hyphenated)
+    if (WORD_CHAR.test(char) || (APOSTROPHE.test(char) && startsWord(text, pos))) {
       const start = pos;
-      let word = '';
-
-      while (pos < text.length && /[\w']/.test(text[pos])) {
-        word += text[pos];
+      pos++;
+      while (pos < text.length && continuesWord(text, pos)) {
+        pos++;
+      }
+      while (HYPHEN.test(text[pos] ?? '') && WORD_CHAR.test(text[pos + 1] ?? '')) {
         pos++;
+        while (pos < text.length && continuesWord(text, pos)) {
+          pos++;
+        }
       }
 
       // Clean trailing apostrophes that aren't part of contractions
-      while (word.endsWith("'") && !CONTRACTIONS.has(word.toLowerCase())) {
-        word = word.slice(0, -1);
+      let normalized = normalizeForMatching(text.slice(start, pos));
+      while (APOSTROPHE.test(text[pos - 1]) && !contractions.has(normalized)) {
         pos--;
+        normalized = normalizeForMatching(text.slice(start, pos));
+      }
+
+      // Split off elided words, so "l'équipe" is "l'" and "équipe"
+      let wordStart = start;
+      if (!contractions.has(normalized)) {
+        let elided = elisionLength(text.slice(wordStart, pos), language);
+        while (elided > 0) {
+          tokens.push({
+            text: text.slice(wordStart, wordStart + elided),
+            type: preserveContractions ? 'contraction' : 'word',
+            start: wordStart,
+            end: wordStart + elided,
+            normalized: normalizeForMatching(text.slice(wordStart, wordStart + elided)),
+          });
+          wordStart += elided;
+          elided = elisionLength(text.slice(wordStart, pos), language);
+        }
+        normalized = normalizeForMatching(text.slice(wordStart, pos));
       }
 
       // Check if it's a contraction
-      const isContraction = preserveContractions && CONTRACTIONS.has(word.toLowerCase());
+      const isContraction = preserveContractions && contractions.has(normalized);
+      const word = text.slice(wordStart, pos);
+      let type: TokenType = 'word';
+      if (isContraction) type = 'contraction';
+      else if (HYPHEN.test(word)) type = 'hyphenated';
 
       tokens.push({
         text: word,
-        type: isContraction ? 'contraction' : 'word',
-        start,
+        type,
+        start: wordStart,
         end: pos,
-        normalized: word.toLowerCase(),
+        normalized,
       });
       continue;
     }
 
-    // Fallback: single character
+    // Punctuation, including apostrophes that open a quoted phrase
     tokens.push({
       text: char,
       type: 'punctuation',
       start: pos,
       end: pos + 1,
-      normalized: char,
+      normalized: normalizeForMatching(char),
     });
     pos++;
   }
 
+  const classified = protectSpans ? markProtectedSpans(tokens) : tokens;
+  return tagPos && language === 'en' ? tagTokens(classified) : classified;
+}
+
+function matchAtomic(text: string, pos: number): { type: ProtectedTokenType; text: string } | null {
+  for (const { type, pattern } of ATOMIC_PATTERNS) {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    let matched = match[0];
+    if (type === 'url' || type === 'path') {
+      matched = matched.replace(URL_TRAILING_PUNCTUATION, '');
+    }
+    if (matched.length > 1) return { type, text: matched };
+  }
+  return null;
+}
+
+/**
+ * Fold text to the form used for matching: compatibility forms (fullwidth
+ * letters, ligatures) are unified, typographic apostrophes and quotes become
+ * ASCII, zero-width characters are dropped and letters are lowercased.
+ * Tokens keep their original text; only `normalized` uses this form.
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(ZERO_WIDTHS, '')
+    .replace(APOSTROPHES, "'")
+    .replace(TYPOGRAPHIC_SINGLE_QUOTES, "'")
+    .replace(TYPOGRAPHIC_DOUBLE_QUOTES, '"')
+    .toLowerCase();
+}
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char) || ZERO_WIDTH.test(char);
+}
+
+/**
+ * Check whether the character at pos continues the word before it: a word
+ * character, or an apostrophe or zero-width character inside the word
+ */
+function continuesWord(text: string, pos: number): boolean {
+  const char = text[pos];
+  if (WORD_CHAR.test(char)) return true;
+  if (ZERO_WIDTH.test(char)) return WORD_CHAR.test(text[pos + 1] ?? '');
+  return APOSTROPHE.test(char);
+}
+
+/**
+ * Check whether an apostrophe at pos starts a word ("'em", "don't") rather
+ * than opening a single-quoted phrase
+ */
+function startsWord(text: string, pos: number): boolean {
+  if (!WORD_CHAR.test(text[pos + 1] ?? '')) return false;
+  if (WORD_CHAR.test(text[pos - 1] ?? '')) return true;
+
+  const word = /^.[\p{L}\p{N}]+/u.exec(text.slice(pos, pos + 8))?.[0];
+  return word !== undefined && LEADING_APOSTROPHE_WORDS.has(normalizeForMatching(word));
+}
+
+/**
+ * Check whether the single quote at index i is an apostrophe that elides the
+ * digits of a number, as in "'90s"
+ */
+function elidesNumber(tokens: Token[], i: number): boolean {
+  return /^\p{N}/u.test(tokens[i + 1]?.text ?? '');
+}
+
+/**
+ * Check whether the single quote at index i marks a plural possessive, as in
+ * "the kids' park": it follows a word ending in "s" and a word comes next
+ */
+function marksPossessive(tokens: Token[], i: number): boolean {
+  const space = tokens[i + 1];
+  return (
+    /s$/i.test(tokens[i - 1].text) &&
+    space?.type === 'whitespace' &&
+    !space.text.includes('\n') &&
+    isWordToken(tokens[i + 2])
+  );
+}
+
+function isParagraphBreak(token: Token): boolean {
+  return token.type === 'whitespace' && /\n\s*\n/.test(token.text);
+}
+
+/**
+ * Find the token that closes a span opened at index `open`, or -1 when the
+ * span is not closed before the end of the paragraph
+ */
+function findClose(tokens: Token[], open: number, isClose: (index: number) => boolean): number {
+  for (let i = open + 1; i < tokens.length; i++) {
+    if (isParagraphBreak(tokens[i])) return -1;
+    if (isClose(i)) return i;
+  }
+  return -1;
+}
+
+const WORD_TOKEN_TYPES: ReadonlySet<TokenType> = new Set([
+  'word',
+  'contraction',
+  'number',
+  'hyphenated',
+]);
+
+/**
+ * Check whether a token is a word of the author's prose: a word,
+ * contraction, number or hyphenated compound
+ */
+export function isWordToken(token: Token | undefined): boolean {
+  return token !== undefined && WORD_TOKEN_TYPES.has(token.type);
+}
+
+/**
+ * Retype the words inside quotation marks and backtick code spans
+ */
+function markProtectedSpans(tokens: Token[]): Token[] {
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    let close = -1;
+    let type: ProtectedTokenType = 'quote';
+
+    if (token.text === '`') {
+      // A run of n backticks is closed by the next run of n backticks
+      let run = 1;
+      while (tokens[i + run]?.text === '`') run++;
+      close = findClose(
+        tokens,
+        i + run - 1,
+        (j) =>
+          tokens[j].text === '`' && tokens[j - 1].text !== '`' && backtickRun(tokens, j) === run
+      );
+      type = 'code';
+      if (close === -1) {
+        i += run;
+        continue;
+      }
+      close += run - 1;
+    } else if (token.text in DOUBLE_QUOTES) {
+      const closer = DOUBLE_QUOTES[token.text];
+      close = findClose(tokens, i, (j) => tokens[j].text === closer);
+    } else if (
+      token.text in SINGLE_QUOTES &&
+      isWordToken(tokens[i + 1]) &&
+      !elidesNumber(tokens, i)
+    ) {
+      // Single quotes only open before a word and close after one, so
+      // apostrophes in possessives such as "students'" are left alone
+      const closer = SINGLE_QUOTES[token.text];
+      close = findClose(
+        tokens,
+        i,
+        (j) =>
+          tokens[j].text === closer &&
+          isWordToken(tokens[j - 1]) &&
+          !isWordToken(tokens[j + 1]) &&
+          !marksPossessive(tokens, j)
+      );
+    }
+
+    if (close === -1) {
+      i++;
+      continue;
+    }
+
+    for (let j = i + 1; j < close; j++) {
+      if (isWordToken(tokens[j])) tokens[j].type = type;
+    }
+    i = close + 1;
+  }
   return tokens;
 }
 
+function backtickRun(tokens: Token[], start: number): number {
+  let run = 0;
+  while (tokens[start + run]?.text === '`') run++;
+  return run;
+}
+
+/**
+ * Get the length of the elided word a word starts with in a language, such
+ * as 2 for French "j'ai", or 0 when it doesn't start with one
+ */
+export function elisionLength(word: string, language: Language): number {
+  const apostrophe = word.search(APOSTROPHE);
+  if (apostrophe <= 0 || apostrophe === word.length - 1) return 0;
+  const elided = normalizeForMatching(word.slice(0, apostrophe + 1));
+  return ELISIONS[language].has(elided) ? apostrophe + 1 : 0;
+}
+
+/**
+ * Get the expansions of a normalized contraction as word lists, most likely
+ * first ("i'd" gives [["i", "would"], ["i", "had"]]), or [] for other words
+ */
+export function expandContraction(word: string): string[][] {
+  return EXPANDED_WORDS.get(word) ?? [];
+}
+
+/**
+ * Get the contraction for a sequence of normalized words, e.g. ["i", "am"]
+ * gives "i'm"
+ */
+export function contractWords(words: string[]): string | undefined {
+  return CONTRACTED_FORMS.get(words.join(' '));
+}
+
 /**
  * Get only word and contraction tokens (skip whitespace and punctuation).
  */
 export function getWordTokens(tokens: Token[]): Token[] {
-  return tokens.filter((t) => t.type === 'word' || t.type === 'contraction');
+  return tokens.filter(isWordToken);
 }
 
 /**
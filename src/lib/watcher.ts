@@ -1,15 +1,19 @@
 import { createHash } from 'node:crypto';
 import { watch } from 'node:fs';
-import type { ProcessResult, StrictnessLevel } from '../types/index.js';
+import type { DocumentFormat, Language, ProcessResult, StrictnessLevel } from '../types/index.js';
 import { bold, cyan, dim, green, yellow } from '../utils/colors.js';
 import { getConfig } from '../utils/config.js';
 import { readTextFile, writeTextFile } from '../utils/file.js';
-import { processText } from './replacer.js';
+import { detectFormat, processDocument } from './document.js';
 
 export interface WatchOptions {
   file: string;
   output?: string;
   level: StrictnessLevel;
+  /** Rule language; detected from each version of the file when omitted */
+  language?: Language;
+  /** Document format; taken from the file extension when omitted */
+  format?: DocumentFormat;
   quiet?: boolean;
 }
 
@@ -59,7 +63,12 @@ export function watchFile(options: WatchOptions): { stop: () => void } {
       lastHash = currentHash;
       isProcessing = true;
 
-      const result = processText(content, options.level);
+      const result = processDocument(
+        content,
+        options.format ?? detectFormat(content, options.file),
+        options.level,
+        options.language
+      );
       const timestamp = dim(`[${getTimestamp()}]`);
       const summary = formatWatchResult(result);
 
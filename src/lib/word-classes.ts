@@ -0,0 +1,104 @@
+/**
+ * Closed word classes that rule slots can be restricted to.
+ *
+ * Classes are matched against a token's normalized text, so contractions
+ * such as "we're" only belong to a class when listed explicitly.
+ */
+
+import type { Token } from './tokenizer.js';
+
+const WORD_CLASSES: Record<string, Set<string>> = {
+  subject: new Set(['i', 'we', 'you', 'he', 'she', 'it', 'they']),
+  pronoun: new Set([
+    'i',
+    'me',
+    'we',
+    'us',
+    'you',
+    'he',
+    'him',
+    'she',
+    'her',
+    'it',
+    'they',
+    'them',
+    'this',
+    'that',
+    'someone',
+    'somebody',
+    'everyone',
+    'everybody',
+  ]),
+  modal: new Set(['can', 'could', 'may', 'might', 'must', 'shall', 'should', 'will', 'would']),
+  determiner: new Set([
+    'a',
+    'an',
+    'the',
+    'this',
+    'that',
+    'these',
+    'those',
+    'my',
+    'our',
+    'your',
+    'his',
+    'her',
+    'its',
+    'their',
+    'some',
+    'any',
+    'every',
+    'each',
+  ]),
+  negation: new Set([
+    'not',
+    'no',
+    'never',
+    'nor',
+    'neither',
+    'nobody',
+    'nothing',
+    'nowhere',
+    'cannot',
+    "don't",
+    "doesn't",
+    "didn't",
+    "isn't",
+    "aren't",
+    "wasn't",
+    "weren't",
+    "can't",
+    "couldn't",
+    "won't",
+    "wouldn't",
+    "shouldn't",
+    "haven't",
+    "hasn't",
+    "hadn't",
+    "mustn't",
+    "mightn't",
+  ]),
+};
+
+/**
+ * Check whether a word class with the given name exists
+ */
+export function isWordClass(name: string): boolean {
+  return Object.hasOwn(WORD_CLASSES, name);
+}
+
+/**
+ * Check whether a token belongs to the named word class.
+ * With useLemma, the token's lemma is checked so "I'm" counts as a subject.
+ */
+export function matchesWordClass(token: Token, className: string, useLemma = false): boolean {
+  const word = useLemma ? (token.lemma ?? token.normalized) : token.normalized;
+  return isWordClass(className) && WORD_CLASSES[className].has(word);
+}
+
+/**
+ * List the names of all known word classes
+ */
+export function getWordClassNames(): string[] {
+  return Object.keys(WORD_CLASSES);
+}
@@ -1,11 +1,86 @@
 export type StrictnessLevel = 'conservative' | 'moderate' | 'aggressive';
 
+/** Languages with a rule pack, as ISO 639-1 codes */
+export type Language = 'en' | 'es' | 'de' | 'fr';
+
+/** How input text is structured: plain text, or a format with non-prose parts */
+export type DocumentFormat = 'text' | 'markdown' | 'html' | 'email';
+
+export interface RuleConstraints {
+  /** Only match at the start of a sentence or list item */
+  sentenceInitial?: boolean;
+  /** Skip the match when one of these words or phrases comes next */
+  notFollowedBy?: string[];
+  /** Skip the match when a negation precedes it in the same sentence */
+  notPrecededByNegation?: boolean;
+  /** Skip the match inside a sentence that ends with a question mark */
+  notInQuestion?: boolean;
+  /** Word class the previous word must belong to */
+  previousClass?: string;
+  /** Word class the next word must belong to */
+  nextClass?: string;
+  /** Part-of-speech tag the previous word must carry, e.g. "DET" or "ADJ|DET" */
+  previousTag?: string;
+  /** Part-of-speech tag the next word must carry, e.g. "VERB" or "VERB|AUX" */
+  nextTag?: string;
+}
+
+/** Scopes that can change the meaning of a match */
+export type ScopeKind = 'negation' | 'question' | 'reported';
+
+/** What to do with a match inside a scope: drop it or report it as a suggestion */
+export type ScopeAction = 'skip' | 'suggest';
+
+export type RuleScope = Partial<Record<ScopeKind, ScopeAction>>;
+
+export interface RulePunctuation {
+  /** Remove a comma directly after the match along with it */
+  consumeTrailingComma?: boolean;
+  /** Put sentence-ending punctuation matched by the pattern back after the replacement */
+  keepTerminator?: boolean;
+}
+
+export interface RuleCapture {
+  /** Name used in the template as $name */
+  name: string;
+  /** How many words to capture */
+  afterTokens?: number;
+  /** Stop capturing at these words */
+  stopAt?: string[];
+  /** Capture up to the next punctuation mark */
+  untilPunctuation?: boolean;
+  /** Word class the first captured word must belong to */
+  wordClass?: string;
+  /** Verb form the first captured word must be written in */
+  form?: 'base' | 'present' | 'past' | 'participle' | 'progressive';
+  /** Apply the restructure even when nothing is captured */
+  optional?: boolean;
+  /** Inflect the first captured word */
+  inflect?: 'base' | 'present' | 'past' | 'participle' | 'progressive';
+}
+
+export interface RuleRestructure {
+  /**
+   * Output template, with $name references to captures and pattern slots.
+   * Without one the captures are consumed and the replacement is used.
+   */
+  template?: string;
+  captures?: RuleCapture[];
+}
+
 export interface RuleEntry {
   pattern: string;
   replacement?: string;
   category: string;
   suggestion?: string;
-  restructure?: boolean;
+  restructure?: boolean | RuleRestructure;
+  lemma?: boolean;
+  constraints?: RuleConstraints;
+  scope?: RuleScope;
+  /** Protected spans the rule may match inside */
+  allowIn?: Array<'quote' | 'code' | 'url' | 'email' | 'mention' | 'hashtag' | 'path'>;
+  /** How punctuation around the match is handled */
+  punctuation?: RulePunctuation;
 }
 
 export interface Rule {
@@ -24,12 +99,58 @@ export interface RulesDatabase {
   aggressive: RuleEntry[];
 }
 
+/** Position of a sentence in the processed text */
+export interface SentenceSpan {
+  /** Zero-based position of the sentence in the text */
+  index: number;
+  /** Start offset of the sentence's first character (after any list marker) */
+  start: number;
+  /** End offset just past the sentence's last non-whitespace character */
+  end: number;
+}
+
+/** Start and end columns of a match, 1-based, with the end just past its last character */
+export interface ColumnSpan {
+  column: number;
+  endColumn: number;
+}
+
 export interface Match {
   original: string;
   replacement: string | null;
   start: number;
   end: number;
   rule: Rule;
+  /** Scope that downgraded this match to a suggestion */
+  scope?: ScopeKind;
+  /** Sentence containing the start of the match */
+  sentence?: SentenceSpan;
+  /** 1-based line of the start of the match */
+  line?: number;
+  /** 1-based column of the start of the match, in UTF-16 code units */
+  column?: number;
+  /** 1-based line of the end of the match */
+  endLine?: number;
+  /** 1-based column just past the match, in UTF-16 code units */
+  endColumn?: number;
+  /** The columns counted in UTF-8 bytes */
+  utf8?: ColumnSpan;
+  /** The columns counted in Unicode code points */
+  codePoints?: ColumnSpan;
+}
+
+/** A match whose line and column positions are known */
+export type LocatedMatch = Match &
+  Required<Pick<Match, 'line' | 'column' | 'endLine' | 'endColumn' | 'utf8' | 'codePoints'>>;
+
+/** Kind of grammar fixed after replacements */
+export type RepairKind = 'article' | 'duplicate' | 'conjunction';
+
+/** A grammar fix made after replacements, such as "a issue" -> "an issue" */
+export interface GrammarRepair {
+  kind: RepairKind;
+  original: string;
+  replacement: string;
 }
 
 export interface ProcessResult {
@@ -37,14 +158,68 @@ export interface ProcessResult {
   transformed: string;
   replacements: Match[];
   suggestions: Match[];
+  /** Grammar fixed around the replacements */
+  repairs?: GrammarRepair[];
+  /** Language whose rules were applied */
+  language?: Language;
+  /** Format the prose was read from */
+  format?: DocumentFormat;
+}
+
+export interface BatchFileResult {
+  file: string;
+  result: ProcessResult;
+  /** Where the transformed file was written, with --out-dir or --write */
+  outputFile?: string;
+  /** Copy of the original kept by --backup */
+  backupFile?: string;
+}
+
+/** Most findings --check allows before it fails */
+export interface CheckThresholds {
+  /** Replacements allowed in categories without their own threshold */
+  maxReplacements: number;
+  /** Suggestions allowed in categories without their own threshold */
+  maxSuggestions: number;
+  /** Replacements and suggestions allowed per category */
+  categories: Record<string, number>;
 }
 
+export interface Finding {
+  kind: 'replacement' | 'suggestion';
+  match: LocatedMatch;
+}
+
+export interface ThresholdBreach {
+  /** "replacements", "suggestions" or a category */
+  name: string;
+  count: number;
+  limit: number;
+}
+
+export type CliCommand = 'check';
+
 export interface CliOptions {
+  command?: CliCommand;
+  /** Files, directories and globs for a command */
+  paths?: string[];
+  include?: string[];
+  exclude?: string[];
+  outDir?: string;
+  write?: boolean;
+  backup?: boolean;
+  /** Report findings and fail over the thresholds instead of rewriting */
+  check?: boolean;
+  maxReplacements?: number;
+  maxSuggestions?: number;
+  maxCategories?: Record<string, number>;
   file?: string;
   message?: string;
   output?: string;
   moderate?: boolean;
   aggressive?: boolean;
+  lang?: Language;
+  format?: DocumentFormat;
   verbose?: boolean;
   quiet?: boolean;
   debug?: boolean;
@@ -64,12 +239,26 @@ export interface InteractiveResult {
   quit: boolean;
 }
 
+/** One file written by a batch run */
+export interface HistoryFile {
+  inputFile: string;
+  outputFile: string;
+  /** Copy of the original kept by --backup */
+  backupFile?: string;
+  original: string;
+  transformed: string;
+}
+
 export interface HistoryEntry {
   id: string;
   timestamp: string;
   inputFile?: string;
   inputMessage?: string;
   outputFile?: string;
+  /** Copy of the original kept by --backup */
+  backupFile?: string;
+  /** Files written by a batch run, undone together */
+  files?: HistoryFile[];
   original: string;
   transformed: string;
   level: StrictnessLevel;
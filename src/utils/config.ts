@@ -18,6 +18,11 @@ const DEFAULT_CONFIG: AppConfig = {
   rules: {
     cacheEnabled: true,
   },
+  check: {
+    maxReplacements: 0,
+    maxSuggestions: 0,
+    categories: {},
+  },
 };
 
 export function getConfig(): AppConfig {
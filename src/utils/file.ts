@@ -2,10 +2,28 @@
  * File I/O utilities with proper error handling
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { dirname } from 'node:path';
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { basename, dirname, join } from 'node:path';
 import { FileNotFoundError, FileReadError, FileWriteError } from './errors.js';
 
+/** The --file path that stands for standard input */
+export const STDIN_PATH = '-';
+
+/** Suffix of the copy kept by --backup */
+export const BACKUP_SUFFIX = '.bak';
+
 /**
  * Check if a file exists
  */
@@ -30,6 +48,35 @@ export function readTextFile(filepath: string): string {
   }
 }
 
+/**
+ * Check whether standard input is piped or redirected from a file. A terminal,
+ * a socket or a closed descriptor, as CI runners often leave it, is not.
+ */
+export function isStdinPiped(): boolean {
+  try {
+    const stats = fstatSync(0);
+    return stats.isFIFO() || stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read all of standard input as text
+ * @throws {FileReadError} If reading fails
+ */
+export async function readStdin(): Promise<string> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  } catch (err) {
+    throw new FileReadError(STDIN_PATH, err);
+  }
+}
+
 /**
  * Ensure directory exists for a file path
  */
@@ -42,18 +89,42 @@ export function ensureDirectoryExists(filepath: string): void {
 
 /**
  * Write a text file with proper error handling
- * Automatically creates directory if it doesn't exist
+ * Automatically creates directory if it doesn't exist. The content goes to a
+ * temporary file next to the target, which is then renamed over it, so the
+ * file is never left half written. An existing file keeps its permissions,
+ * and a symlink keeps pointing at the file it links to.
  * @throws {FileWriteError} If file write fails
  */
 export function writeTextFile(filepath: string, content: string): void {
+  const target = existsSync(filepath) ? realpathSync(filepath) : filepath;
+  const tempPath = join(dirname(target), `.${basename(target)}.${process.pid}.tmp`);
   try {
-    ensureDirectoryExists(filepath);
-    writeFileSync(filepath, content, 'utf8');
+    ensureDirectoryExists(target);
+    writeFileSync(tempPath, content, 'utf8');
+    if (existsSync(target)) {
+      chmodSync(tempPath, statSync(target).mode & 0o7777);
+    }
+    renameSync(tempPath, target);
   } catch (err) {
+    rmSync(tempPath, { force: true });
     throw new FileWriteError(filepath, err);
   }
 }
 
+/**
+ * Copy a file to a backup next to it, replacing any older backup
+ * @throws {FileWriteError} If the copy fails
+ */
+export function backupFile(filepath: string): string {
+  const backupPath = `${filepath}${BACKUP_SUFFIX}`;
+  try {
+    copyFileSync(filepath, backupPath);
+  } catch (err) {
+    throw new FileWriteError(backupPath, err);
+  }
+  return backupPath;
+}
+
 /**
  * Load and parse a JSON file
  * @throws {FileNotFoundError} If file doesn't exist
@@ -1,11 +1,58 @@
 import { z } from 'zod';
 
+export const RuleConstraintsSchema = z.object({
+  sentenceInitial: z.boolean().optional(),
+  notFollowedBy: z.array(z.string().min(1, 'Word cannot be empty')).optional(),
+  notPrecededByNegation: z.boolean().optional(),
+  notInQuestion: z.boolean().optional(),
+  previousClass: z.string().min(1).optional(),
+  nextClass: z.string().min(1).optional(),
+  previousTag: z.string().min(1).optional(),
+  nextTag: z.string().min(1).optional(),
+});
+
+const ScopeActionSchema = z.enum(['skip', 'suggest']);
+
+export const RuleScopeSchema = z.object({
+  negation: ScopeActionSchema.optional(),
+  question: ScopeActionSchema.optional(),
+  reported: ScopeActionSchema.optional(),
+});
+
+export const RuleCaptureSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/i, 'Capture name must be alphanumeric'),
+  afterTokens: z.number().int().positive().optional(),
+  stopAt: z.array(z.string().min(1)).optional(),
+  untilPunctuation: z.boolean().optional(),
+  wordClass: z.string().min(1).optional(),
+  form: z.enum(['base', 'present', 'past', 'participle', 'progressive']).optional(),
+  optional: z.boolean().optional(),
+  inflect: z.enum(['base', 'present', 'past', 'participle', 'progressive']).optional(),
+});
+
+export const RuleRestructureSchema = z.object({
+  template: z.string().min(1, 'Template cannot be empty').optional(),
+  captures: z.array(RuleCaptureSchema).optional(),
+});
+
+export const RulePunctuationSchema = z.object({
+  consumeTrailingComma: z.boolean().optional(),
+  keepTerminator: z.boolean().optional(),
+});
+
 export const RuleEntrySchema = z.object({
   pattern: z.string().min(1, 'Pattern cannot be empty'),
   replacement: z.string().optional(),
   category: z.string().min(1, 'Category cannot be empty'),
   suggestion: z.string().optional(),
-  restructure: z.boolean().optional(),
+  restructure: z.union([z.boolean(), RuleRestructureSchema]).optional(),
+  lemma: z.boolean().optional(),
+  constraints: RuleConstraintsSchema.optional(),
+  scope: RuleScopeSchema.optional(),
+  allowIn: z
+    .array(z.enum(['quote', 'code', 'url', 'email', 'mention', 'hashtag', 'path']))
+    .optional(),
+  punctuation: RulePunctuationSchema.optional(),
 });
 
 export const RulesDatabaseSchema = z.object({
@@ -26,8 +73,16 @@ export const AppConfigSchema = z.object({
   rules: z.object({
     cacheEnabled: z.boolean().default(true),
   }),
+  check: z
+    .object({
+      maxReplacements: z.number().int().nonnegative().default(0),
+      maxSuggestions: z.number().int().nonnegative().default(0),
+      categories: z.record(z.string().min(1), z.number().int().nonnegative()).default({}),
+    })
+    .default({ maxReplacements: 0, maxSuggestions: 0, categories: {} }),
 });
 
+export type RuleConstraints = z.infer<typeof RuleConstraintsSchema>;
 export type RuleEntry = z.infer<typeof RuleEntrySchema>;
 export type RulesDatabase = z.infer<typeof RulesDatabaseSchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { findFiles, globToRegExp, outputPathFor, processFiles } from '../src/lib/batch.js';
+
+const TEST_DIR = join(tmpdir(), `speak-strong-batch-${Date.now().toString()}`);
+const ORIGINAL_CWD = process.cwd();
+
+const FILES: Record<string, string> = {
+  '.gitignore': 'build/\n*.log\n!keep.log\n',
+  'notes.txt': 'I think we should go.',
+  'keep.log': 'I think so.',
+  'debug.log': 'I think so.',
+  'image.png': 'not text',
+  'build/out.md': 'I think so.',
+  'docs/guide.md': '**I think** we should go.\n',
+  'docs/.gitignore': '/drafts\n',
+  'docs/drafts/idea.md': 'I think so.',
+  'docs/api/index.html': '<p>I just wanted to ask.</p>',
+  'docs/api/CHANGELOG.md': 'Fixed.',
+  'node_modules/pkg/README.md': 'I think so.',
+};
+
+beforeAll(() => {
+  for (const [file, content] of Object.entries(FILES)) {
+    mkdirSync(dirname(join(TEST_DIR, file)), { recursive: true });
+    writeFileSync(join(TEST_DIR, file), content);
+  }
+  process.chdir(TEST_DIR);
+});
+
+afterAll(() => {
+  process.chdir(ORIGINAL_CWD);
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+});
+
+describe('globToRegExp', () => {
+  test('matches within and across directories', () => {
+    expect(globToRegExp('docs/*.md').test('docs/guide.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/api/index.md')).toBe(false);
+    expect(globToRegExp('docs/**/*.md').test('docs/guide.md')).toBe(true);
+    expect(globToRegExp('docs/**/*.md').test('docs/api/index.md')).toBe(true);
+    expect(globToRegExp('**').test('a/b/c')).toBe(true);
+  });
+
+  test('supports ?, character sets and alternatives', () => {
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    expect(globToRegExp('[!a]*.txt').test('notes.txt')).toBe(true);
+    expect(globToRegExp('[!a]*.txt').test('a.txt')).toBe(false);
+    expect(globToRegExp('*.{md,html}').test('index.html')).toBe(true);
+    expect(globToRegExp('*.{md,html}').test('index.txt')).toBe(false);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('findFiles', () => {
+  test('searches directories for text files and respects .gitignore', () => {
+    expect(findFiles(['.'])).toEqual([
+      'docs/api/CHANGELOG.md',
+      'docs/api/index.html',
+      'docs/guide.md',
+      'notes.txt',
+    ]);
+  });
+
+  test('expands globs', () => {
+    expect(findFiles(['docs/**/*.md'])).toEqual(['docs/api/CHANGELOG.md', 'docs/guide.md']);
+    expect(findFiles(['*.log'])).toEqual(['keep.log']);
+  });
+
+  test('keeps files named explicitly', () => {
+    expect(findFiles(['./image.png', 'notes.txt', 'notes.txt'])).toEqual([
+      'image.png',
+      'notes.txt',
+    ]);
+  });
+
+  test('applies the ignore rules of parent directories', () => {
+    writeFileSync(join(TEST_DIR, 'docs/api/.gitignore'), 'CHANGELOG.md\n');
+    try {
+      expect(findFiles(['docs/api'])).toEqual(['docs/api/index.html']);
+    } finally {
+      rmSync(join(TEST_DIR, 'docs/api/.gitignore'));
+    }
+    expect(findFiles(['docs/drafts'])).toEqual(['docs/drafts/idea.md']);
+  });
+
+  test('filters with include and exclude globs', () => {
+    expect(findFiles(['.'], { include: ['*.md'], exclude: ['CHANGELOG.md'] })).toEqual([
+      'docs/guide.md',
+    ]);
+    expect(findFiles(['.'], { exclude: ['docs/api/**'] })).toEqual(['docs/guide.md', 'notes.txt']);
+  });
+
+  test('skips the output directory', () => {
+    expect(findFiles(['.'], { skipDirectory: 'docs' })).toEqual(['notes.txt']);
+  });
+
+  test('throws for missing paths', () => {
+    expect(() => findFiles(['missing.txt'])).toThrow('File not found');
+  });
+});
+
+describe('outputPathFor', () => {
+  test('mirrors the path under the output directory', () => {
+    expect(outputPathFor('docs/guide.md', 'out')).toBe('out/docs/guide.md');
+    expect(outputPathFor('./notes.txt', 'out/')).toBe('out/notes.txt');
+  });
+
+  test('refuses files outside the current directory', () => {
+    expect(() => outputPathFor('../notes.txt', 'out')).toThrow('outside the current directory');
+  });
+});
+
+describe('processFiles', () => {
+  test('processes each file in its own format', () => {
+    const results = processFiles(['docs/guide.md', 'docs/api/index.html'], {
+      level: 'conservative',
+    });
+    expect(results.map(({ result }) => result.transformed)).toEqual([
+      'We should go.\n',
+      '<p>I wanted to ask.</p>',
+    ]);
+    expect(results[0].outputFile).toBeUndefined();
+  });
+
+  test('writes transformed files to the output tree', () => {
+    const results = processFiles(['notes.txt', 'docs/guide.md'], {
+      level: 'conservative',
+      outDir: 'strong',
+    });
+    expect(results.map((result) => result.outputFile)).toEqual([
+      'strong/notes.txt',
+      'strong/docs/guide.md',
+    ]);
+    expect(readFileSync(join(TEST_DIR, 'strong/docs/guide.md'), 'utf8')).toBe('We should go.\n');
+    rmSync(join(TEST_DIR, 'strong'), { recursive: true });
+  });
+
+  test('rewrites changed files in place and keeps backups', () => {
+    writeFileSync(join(TEST_DIR, 'fix.txt'), 'I think we should go.');
+    writeFileSync(join(TEST_DIR, 'clean.txt'), 'All good.');
+    const results = processFiles(['fix.txt', 'clean.txt'], {
+      level: 'conservative',
+      write: true,
+      backup: true,
+    });
+    expect(results[0]).toMatchObject({ outputFile: 'fix.txt', backupFile: 'fix.txt.bak' });
+    expect(results[1].outputFile).toBeUndefined();
+    expect(readFileSync(join(TEST_DIR, 'fix.txt'), 'utf8')).toBe('We should go.');
+    expect(readFileSync(join(TEST_DIR, 'fix.txt.bak'), 'utf8')).toBe('I think we should go.');
+    expect(existsSync(join(TEST_DIR, 'clean.txt.bak'))).toBe(false);
+    for (const file of ['fix.txt', 'fix.txt.bak', 'clean.txt']) {
+      rmSync(join(TEST_DIR, file));
+    }
+  });
+});
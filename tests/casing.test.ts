@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { detectCaseStyle, matchCase } from '../src/lib/casing.js';
+
+describe('detectCaseStyle', () => {
+  test('detects all-caps spans', () => {
+    expect(detectCaseStyle(['I', 'THINK', 'WE', 'SHOULD'], true)).toBe('upper');
+    expect(detectCaseStyle(["I'M", 'SORRY'], false)).toBe('upper');
+  });
+
+  test('does not read a lone "I" as all caps', () => {
+    expect(detectCaseStyle(['I'], false)).toBe('lower');
+    expect(detectCaseStyle(['I'], true)).toBe('capitalized');
+  });
+
+  test('detects Title Case and allows minor words in lowercase', () => {
+    expect(detectCaseStyle(['I', 'Think', 'We', 'Should'], true)).toBe('title');
+    expect(detectCaseStyle(['Kind', 'of', 'Important'], false)).toBe('title');
+  });
+
+  test('needs two capitalized words for Title Case', () => {
+    expect(detectCaseStyle(['I', 'Think'], false)).toBe('lower');
+    expect(detectCaseStyle(['Just', 'a', 'quick'], true)).toBe('capitalized');
+  });
+
+  test('treats a leading "I" by sentence position', () => {
+    expect(detectCaseStyle(['I', 'think', 'this'], true)).toBe('capitalized');
+    expect(detectCaseStyle(['I', 'think', 'this'], false)).toBe('lower');
+  });
+
+  test('follows the first word otherwise', () => {
+    expect(detectCaseStyle(['maybe', 'we'], false)).toBe('lower');
+    expect(detectCaseStyle(['Maybe', 'we'], true)).toBe('capitalized');
+    expect(detectCaseStyle(['iPhone', 'stuff'], false)).toBe('mixed');
+  });
+});
+
+describe('matchCase', () => {
+  test('upper-cases the replacement of an all-caps span', () => {
+    expect(matchCase('We should', ['I', 'THINK', 'WE', 'SHOULD'], true)).toBe('WE SHOULD');
+  });
+
+  test('title-cases the replacement of a Title Case span', () => {
+    expect(matchCase('I believe that', ['I', 'Think', 'That', 'Works'], true)).toBe(
+      'I Believe That'
+    );
+    expect(matchCase('a sort of plan', ['Kind', 'of', 'Plan'], false)).toBe('A Sort of Plan');
+  });
+
+  test('lower-cases the first word mid-sentence after "I"', () => {
+    expect(matchCase('This', ['I', 'think', 'this'], false)).toBe('this');
+  });
+
+  test('capitalizes the first word at a sentence start', () => {
+    expect(matchCase('this', ['I', 'think', 'this'], true)).toBe('This');
+  });
+
+  test('keeps the pronoun "I" capitalized', () => {
+    expect(matchCase("I'd like to", ['would', 'you', 'mind', 'if'], false)).toBe("I'd like to");
+    expect(matchCase('I believe', ['I', 'think'], false)).toBe('I believe');
+  });
+
+  test("keeps the rule's casing after the first word", () => {
+    expect(matchCase('eine Frage', ['nur', 'eine', 'kurze'], false)).toBe('eine Frage');
+  });
+
+  test('leaves mixed-case spans alone', () => {
+    expect(matchCase('We should', ['iPhone', 'users'], false)).toBe('We should');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { checkThresholds, getThresholds, listFindings } from '../src/lib/check.js';
+import { processText } from '../src/lib/replacer.js';
+import type { CheckThresholds, Match, ProcessResult } from '../src/types/index.js';
+
+function createMatch(category: string, start = 0): Match {
+  return {
+    original: 'I think',
+    replacement: 'I believe',
+    start,
+    end: start + 7,
+    rule: { pattern: 'I think', replacement: 'I believe', level: 'conservative', category },
+  };
+}
+
+function createResult(replacements: Match[], suggestions: Match[] = []): ProcessResult {
+  return { original: '', transformed: '', replacements, suggestions };
+}
+
+const STRICT: CheckThresholds = { maxReplacements: 0, maxSuggestions: 0, categories: {} };
+
+describe('listFindings', () => {
+  test('gives the line and column of each finding in document order', () => {
+    const result = processText(
+      'Hello.\nWell, I think we should go.\r\n\nIn my opinion, I just wanted to ask.',
+      'aggressive'
+    );
+    const findings = listFindings(result);
+    expect(
+      findings.map(({ kind, match }) => [kind, match.line, match.column, match.original])
+    ).toEqual([
+      ['replacement', 2, 7, 'I think we should'],
+      ['suggestion', 4, 1, 'In my opinion'],
+      ['replacement', 4, 16, 'I just wanted to'],
+    ]);
+  });
+});
+
+describe('checkThresholds', () => {
+  test('passes within the limits', () => {
+    const results = [createResult([createMatch('hedging')])];
+    expect(checkThresholds(results, { ...STRICT, maxReplacements: 1 })).toEqual([]);
+  });
+
+  test('adds up findings across results', () => {
+    const results = [
+      createResult([createMatch('hedging')]),
+      createResult([createMatch('minimizing')], [createMatch('filler')]),
+    ];
+    expect(checkThresholds(results, { ...STRICT, maxReplacements: 1 })).toEqual([
+      { name: 'replacements', count: 2, limit: 1 },
+      { name: 'suggestions', count: 1, limit: 0 },
+    ]);
+  });
+
+  test('counts categories with their own limit separately', () => {
+    const results = [
+      createResult([createMatch('hedging'), createMatch('hedging'), createMatch('filler')]),
+    ];
+    expect(checkThresholds(results, { ...STRICT, categories: { hedging: 2 } })).toEqual([
+      { name: 'replacements', count: 1, limit: 0 },
+    ]);
+    expect(checkThresholds(results, { ...STRICT, categories: { hedging: 1, filler: 1 } })).toEqual([
+      { name: 'hedging', count: 2, limit: 1 },
+    ]);
+  });
+});
+
+describe('getThresholds', () => {
+  test('puts command line limits over the config', () => {
+    expect(getThresholds()).toEqual(STRICT);
+    expect(getThresholds({ maxSuggestions: 3, categories: { hedging: 1 } })).toEqual({
+      maxReplacements: 0,
+      maxSuggestions: 3,
+      categories: { hedging: 1 },
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
 import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { $ } from 'bun';
 
@@ -19,10 +20,16 @@ afterAll(() => {
 });
 
 async function runCli(
-  args: string[]
+  args: string[],
+  input?: string
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   try {
-    const result = await $`bun ${CLI_PATH} ${args}`.quiet();
+    // Bun shell hands its children a socket, so sh pipes the input to make a real pipe
+    const command =
+      input === undefined
+        ? $`bun ${CLI_PATH} ${args}`
+        : $`sh -c ${'printf "%s" "$0" | bun "$@"'} ${input} ${CLI_PATH} ${args}`;
+    const result = await command.quiet();
     return {
       stdout: result.stdout.toString(),
       stderr: result.stderr.toString(),
@@ -80,10 +87,11 @@ describe('CLI - Message Input', () => {
     expect(result.exitCode).toBe(0);
   });
 
-  test('shows replacements in output', async () => {
+  test('shows replacements in stderr when stdout is not a terminal', async () => {
     const result = await runCli(['-m', 'I think we should try']);
-    expect(result.stdout).toContain('Replacements');
-    expect(result.stdout).toContain('hedging');
+    expect(result.stderr).toContain('Replacements');
+    expect(result.stderr).toContain('hedging');
+    expect(result.stdout).toBe('We should try');
   });
 
   test('shows stats in stderr', async () => {
@@ -116,6 +124,68 @@ describe('CLI - File Input', () => {
     expect(result.exitCode).toBe(0);
   });
 
+  test('reads .md files as markdown', async () => {
+    const inputFile = join(TEST_DIR, 'notes.md');
+    writeFileSync(inputFile, '**I think** we should go.\n\n```\nI think\n```\n');
+    const outputFile = join(TEST_DIR, 'notes-strong.md');
+    const result = await runCli(['-f', inputFile, '-o', outputFile]);
+    expect(result.exitCode).toBe(0);
+    expect(await Bun.file(outputFile).text()).toBe('We should go.\n\n```\nI think\n```\n');
+  });
+
+  test('reads .html files as html', async () => {
+    const inputFile = join(TEST_DIR, 'email.html');
+    writeFileSync(inputFile, '<p>I <b>just</b> wanted to <em>ask</em>.</p><pre>I think</pre>');
+    const outputFile = join(TEST_DIR, 'email-strong.html');
+    const result = await runCli(['-f', inputFile, '-o', outputFile]);
+    expect(result.exitCode).toBe(0);
+    expect(await Bun.file(outputFile).text()).toBe(
+      '<p>I wanted to <em>ask</em>.</p><pre>I think</pre>'
+    );
+  });
+
+  test('reads .eml files as email', async () => {
+    const inputFile = join(TEST_DIR, 'reply.eml');
+    writeFileSync(
+      inputFile,
+      'Subject: I think\n\nI think we should go.\n\n> I just wanted to ask.\n'
+    );
+    const outputFile = join(TEST_DIR, 'reply-strong.eml');
+    const result = await runCli(['-f', inputFile, '-o', outputFile]);
+    expect(result.exitCode).toBe(0);
+    expect(await Bun.file(outputFile).text()).toBe(
+      'Subject: I think\n\nWe should go.\n\n> I just wanted to ask.\n'
+    );
+  });
+
+  test('reads a plain reply as email with --format', async () => {
+    const inputFile = join(TEST_DIR, 'reply.txt');
+    writeFileSync(inputFile, 'I think we should go.\n-- \nI just sign here\n');
+    const outputFile = join(TEST_DIR, 'reply-strong.txt');
+    const result = await runCli(['-f', inputFile, '--format', 'email', '-o', outputFile]);
+    expect(result.exitCode).toBe(0);
+    expect(await Bun.file(outputFile).text()).toBe('We should go.\n-- \nI just sign here\n');
+  });
+
+  test('reads a plain reply as email without --format', async () => {
+    const inputFile = join(TEST_DIR, 'reply2.txt');
+    writeFileSync(
+      inputFile,
+      'I think we should go.\n\nOn Tue, Sam wrote:\n> I just wanted to ask.\n-- \nI just sign here\n'
+    );
+    const result = await runCli(['-f', inputFile, '-q']);
+    expect(result.stdout).toBe(
+      'We should go.\n\nOn Tue, Sam wrote:\n> I just wanted to ask.\n-- \nI just sign here\n'
+    );
+  });
+
+  test('reads a reply as plain text with --format text', async () => {
+    const inputFile = join(TEST_DIR, 'reply3.txt');
+    writeFileSync(inputFile, 'I think we should go.\n> I just wanted to ask.\n');
+    const result = await runCli(['-f', inputFile, '--format', 'text', '-q']);
+    expect(result.stdout).toBe('We should go.\n> I wanted to ask.\n');
+  });
+
   test('fails gracefully for non-existent file', async () => {
     const result = await runCli(['-f', '/nonexistent/file.txt']);
     expect(result.stderr).toContain('File not found');
@@ -123,7 +193,180 @@ describe('CLI - File Input', () => {
   });
 });
 
+describe('CLI - Stdin Input', () => {
+  test('reads piped text without --file or --message', async () => {
+    const result = await runCli(['-q'], 'I think we should go.\n');
+    expect(result.stdout).toBe('We should go.\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  test('reads text redirected from a file', async () => {
+    const inputFile = join(TEST_DIR, 'redirect.txt');
+    writeFileSync(inputFile, 'I think we should go.\n');
+    const result = await $`bun ${CLI_PATH} -q < ${inputFile}`.quiet();
+    expect(result.stdout.toString()).toBe('We should go.\n');
+  });
+
+  test('reads stdin with -f -', async () => {
+    const result = await runCli(['-f', '-', '--format', 'markdown'], '**I think** we should go.');
+    expect(result.stdout).toBe('We should go.');
+    expect(result.stderr).toContain('Stats');
+  });
+
+  test('reads a piped reply as email', async () => {
+    const result = await runCli(['-q'], 'I think we should go.\n> I just wanted to ask.\n');
+    expect(result.stdout).toBe('We should go.\n> I just wanted to ask.\n');
+  });
+
+  test('keeps line endings of piped text', async () => {
+    const result = await runCli(['-q'], '\uFEFFI think so.\r\n\r\nOk.\r\n');
+    expect(result.stdout).toBe('\uFEFFI believe so.\r\n\r\nOk.\r\n');
+  });
+
+  test('fails to watch stdin', async () => {
+    const result = await runCli(['-f', '-', '--watch'], 'I think so');
+    expect(result.stderr).toContain('cannot watch stdin');
+    expect(result.exitCode).toBe(1);
+  });
+});
+
+describe('CLI - Check', () => {
+  test('summarizes each file and writes the output tree', async () => {
+    const dir = join(TEST_DIR, 'check');
+    mkdirSync(join(dir, 'docs'), { recursive: true });
+    writeFileSync(join(dir, 'docs', 'a.md'), '**I think** we should go.\n');
+    writeFileSync(join(dir, 'docs', 'b.txt'), 'All good.\n');
+    writeFileSync(join(dir, 'docs', 'c.txt'), 'I think so.\n');
+    const result = await $`bun ${CLI_PATH} check docs --exclude c.txt --out-dir strong`
+      .cwd(dir)
+      .quiet();
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.toString()).toMatch(/docs\/a\.md +1 +0 +0/);
+    expect(result.stdout.toString()).toMatch(/docs\/b\.txt +0 +0 +0/);
+    expect(result.stdout.toString()).not.toContain('c.txt');
+    expect(result.stderr.toString()).toContain('2 files checked, 1 with weak language');
+    expect(await Bun.file(join(dir, 'strong', 'docs', 'a.md')).text()).toBe('We should go.\n');
+    expect(await Bun.file(join(dir, 'strong', 'docs', 'b.txt')).text()).toBe('All good.\n');
+  });
+
+  test('refuses to mirror files outside the current directory', async () => {
+    const outside = join(tmpdir(), `speak-strong-outside-${Date.now().toString()}.txt`);
+    writeFileSync(outside, 'I think so.');
+    const result = await runCli(['check', outside, '--out-dir', join(TEST_DIR, 'out')]);
+    rmSync(outside);
+    expect(result.stderr).toContain('outside the current directory');
+    expect(result.exitCode).toBe(1);
+  });
+
+  test('fails without paths', async () => {
+    const result = await runCli(['check']);
+    expect(result.stderr).toContain('check requires at least one');
+    expect(result.exitCode).toBe(1);
+  });
+
+  test('rejects paths without check', async () => {
+    const result = await runCli(['-m', 'test', 'notes.txt']);
+    expect(result.stderr).toContain('Unexpected argument: notes.txt');
+    expect(result.exitCode).toBe(1);
+  });
+});
+
+describe('CLI - Check Mode', () => {
+  test('prints findings and fails over the thresholds', async () => {
+    const inputFile = join(TEST_DIR, 'release-notes.md');
+    writeFileSync(inputFile, '# Notes\n\nI think we should ship.\n');
+    const result = await runCli(['-f', inputFile, '--check']);
+    expect(result.stdout).toBe(`${inputFile}:3:1: hedging: "I think we should" -> "We should"\n`);
+    expect(result.stderr).toContain('replacements: 1 found, 0 allowed');
+    expect(result.exitCode).toBe(4);
+    expect(await Bun.file(inputFile).text()).toBe('# Notes\n\nI think we should ship.\n');
+  });
+
+  test('passes within the thresholds', async () => {
+    const result = await runCli([
+      '-m',
+      'I think we should go',
+      '--check',
+      '--max-category',
+      'hedging=1',
+    ]);
+    expect(result.stderr).toContain('Check passed');
+    expect(result.exitCode).toBe(0);
+  });
+
+  test('checks many files against one set of thresholds', async () => {
+    const dir = join(TEST_DIR, 'lint');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'a.txt'), 'I think we should go.');
+    writeFileSync(join(dir, 'b.txt'), 'Sorry to bother you.');
+    const result = await runCli(['check', dir, '--check', '--max-replacements', '1']);
+    expect(result.stdout).toContain('a.txt:1:1: hedging');
+    expect(result.stdout).toContain('b.txt:1:1: apologizing');
+    expect(result.stderr).toContain('replacements: 2 found, 1 allowed');
+    expect(result.exitCode).toBe(4);
+  });
+
+  test('refuses options that change text', async () => {
+    const result = await runCli(['-m', 'I think so', '--check', '-o', 'out.txt']);
+    expect(result.stderr).toContain('--check never changes text');
+    expect(result.exitCode).toBe(1);
+  });
+
+  test('rejects thresholds without --check', async () => {
+    const result = await runCli(['-m', 'I think so', '--max-replacements', '2']);
+    expect(result.stderr).toContain('need --check');
+    expect(result.exitCode).toBe(1);
+  });
+});
+
 describe('CLI - File Output', () => {
+  test('rewrites the input file with --write and restores it with --undo', async () => {
+    const dir = join(TEST_DIR, 'write');
+    mkdirSync(dir, { recursive: true });
+    const inputFile = join(dir, 'notes.txt');
+    writeFileSync(inputFile, 'I think we should go.\n');
+    const env = { ...process.env, HOME: dir };
+
+    const write = await $`bun ${CLI_PATH} -f ${inputFile} --write --backup -q`.env(env).quiet();
+    expect(write.exitCode).toBe(0);
+    expect(write.stdout.toString()).toBe('');
+    expect(await Bun.file(inputFile).text()).toBe('We should go.\n');
+    expect(await Bun.file(`${inputFile}.bak`).text()).toBe('I think we should go.\n');
+
+    const undo = await $`bun ${CLI_PATH} --undo`.env(env).quiet();
+    expect(undo.exitCode).toBe(0);
+    expect(await Bun.file(inputFile).text()).toBe('I think we should go.\n');
+  });
+
+  test('restores every file of a check --write run with one --undo', async () => {
+    const dir = join(TEST_DIR, 'write-batch');
+    mkdirSync(join(dir, 'docs'), { recursive: true });
+    const files = ['a.txt', 'b.txt', 'c.txt'].map((name) => join(dir, 'docs', name));
+    for (const file of files) {
+      writeFileSync(file, 'I think we should go.\n');
+    }
+    const env = { ...process.env, HOME: dir };
+
+    const write = await $`bun ${CLI_PATH} check docs --write --backup -q`.cwd(dir).env(env).quiet();
+    expect(write.exitCode).toBe(0);
+    for (const file of files) {
+      expect(await Bun.file(file).text()).toBe('We should go.\n');
+    }
+
+    // Undo from another directory, so relative paths would not resolve
+    const undo = await $`bun ${CLI_PATH} --undo`.cwd(tmpdir()).env(env).quiet();
+    expect(undo.exitCode).toBe(0);
+    for (const file of files) {
+      expect(await Bun.file(file).text()).toBe('I think we should go.\n');
+    }
+  });
+
+  test('fails to --write a message', async () => {
+    const result = await runCli(['-m', 'I think so', '--write']);
+    expect(result.stderr).toContain('--write requires --file');
+    expect(result.exitCode).toBe(1);
+  });
+
   test('writes output to file with -o flag', async () => {
     const outputFile = join(TEST_DIR, 'output.txt');
     const result = await runCli(['-m', 'I think we should try', '-o', outputFile]);
@@ -165,11 +408,37 @@ describe('CLI - Strictness Levels', () => {
 
   test('aggressive level adds suggestions', async () => {
     const result = await runCli(['-m', 'In my opinion, this is good', '--aggressive']);
-    expect(result.stdout).toContain('Suggestions');
+    expect(result.stderr).toContain('Suggestions');
     expect(result.stdout).toContain('In my opinion');
   });
 });
 
+describe('CLI - Languages', () => {
+  test('applies the rules for --lang', async () => {
+    const result = await runCli(['-m', 'Ich wollte nur fragen', '--lang', 'de']);
+    expect(result.stdout).toContain('Ich wollte fragen');
+  });
+
+  test('detects the language without --lang', async () => {
+    const result = await runCli(['-m', 'Je pense que le projet est prêt']);
+    expect(result.stdout).toContain('Je suis convaincu que le projet est prêt');
+  });
+
+  test('fails for an unsupported language', async () => {
+    const result = await runCli(['-m', 'test', '--lang', 'xx']);
+    expect(result.stderr).toContain('--lang must be one of');
+    expect(result.exitCode).toBe(1);
+  });
+});
+
+describe('CLI - Formats', () => {
+  test('fails for an unsupported format', async () => {
+    const result = await runCli(['-m', 'test', '--format', 'pdf']);
+    expect(result.stderr).toContain('--format must be one of');
+    expect(result.exitCode).toBe(1);
+  });
+});
+
 describe('CLI - Verbosity Options', () => {
   test('verbose mode shows additional info', async () => {
     const result = await runCli(['-m', 'I think we should try', '--verbose']);
@@ -252,7 +521,7 @@ John`;
 
     expect(result.stdout).toContain('I believe we need more resources');
     expect(result.stdout).toContain('We should hire another developer');
-    expect(result.stdout).toContain('I will get the budget approved');
+    expect(result.stdout).toContain("I'll get the budget approved");
     expect(result.exitCode).toBe(0);
   });
 
@@ -11,6 +11,8 @@ describe('getConfig', () => {
     expect(config.history.maxEntries).toBe(100);
     expect(config.watcher.debounceMs).toBe(300);
     expect(config.rules.cacheEnabled).toBe(true);
+    expect(config.check.maxReplacements).toBe(0);
+    expect(config.check.categories).toEqual({});
   });
 
   test('returns cached config on subsequent calls', () => {
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { convertRuleEntry, findMatches } from '../src/lib/rule-engine.js';
+import type { RuleConstraints } from '../src/types/index.js';
+
+function ruleWith(pattern: string, constraints: RuleConstraints) {
+  return convertRuleEntry(
+    { pattern, category: 'filler', suggestion: 'Consider removing', constraints },
+    'aggressive'
+  );
+}
+
+describe('sentenceInitial', () => {
+  const rule = ruleWith('basically', { sentenceInitial: true });
+
+  test('matches at the start of the text and after a terminator', () => {
+    expect(findMatches('Basically, we start over', [rule])).toHaveLength(1);
+    expect(findMatches('Fine. Basically, we start over', [rule])).toHaveLength(1);
+  });
+
+  test('matches at the start of a line or list item', () => {
+    expect(findMatches('Notes\nbasically done', [rule])).toHaveLength(1);
+    expect(findMatches('Notes:\n- basically done', [rule])).toHaveLength(1);
+  });
+
+  test('skips mid-sentence matches', () => {
+    expect(findMatches('The two are basically identical', [rule])).toHaveLength(0);
+  });
+});
+
+describe('notFollowedBy', () => {
+  const rule = ruleWith('just', { notFollowedBy: ['in case', 'now'] });
+
+  test('skips matches followed by a listed word or phrase', () => {
+    expect(findMatches('just in case', [rule])).toHaveLength(0);
+    expect(findMatches('just now', [rule])).toHaveLength(0);
+  });
+
+  test('matches otherwise', () => {
+    expect(findMatches('just in time', [rule])).toHaveLength(1);
+  });
+});
+
+describe('notPrecededByNegation', () => {
+  const rule = ruleWith('actually', { notPrecededByNegation: true });
+
+  test('skips matches after a nearby negation', () => {
+    expect(findMatches("It's not actually broken", [rule])).toHaveLength(0);
+    expect(findMatches("It doesn't actually matter", [rule])).toHaveLength(0);
+  });
+
+  test('ignores negations in an earlier sentence', () => {
+    expect(findMatches('No. It actually works', [rule])).toHaveLength(1);
+  });
+});
+
+describe('notInQuestion', () => {
+  const rule = ruleWith('actually', { notInQuestion: true });
+
+  test('skips matches inside a question', () => {
+    expect(findMatches('Did it actually ship?', [rule])).toHaveLength(0);
+  });
+
+  test('matches in statements', () => {
+    expect(findMatches('It actually shipped. Did you see?', [rule])).toHaveLength(1);
+  });
+});
+
+describe('previousClass and nextClass', () => {
+  test('requires the neighbouring word classes', () => {
+    const rule = ruleWith('just', { previousClass: 'subject', nextClass: 'modal' });
+    expect(findMatches('we just could not', [rule])).toHaveLength(1);
+    expect(findMatches('a just cause', [rule])).toHaveLength(0);
+  });
+
+  test('rejects unknown word classes', () => {
+    expect(() => ruleWith('just', { nextClass: 'gerund' })).toThrow('Unknown word class');
+  });
+});
+
+describe('previousTag and nextTag', () => {
+  test('requires the neighbouring part-of-speech tags', () => {
+    const rule = ruleWith('just', { nextTag: 'VERB|AUX' });
+    expect(findMatches('We just need more time', [rule])).toHaveLength(1);
+    expect(findMatches("It's just a test", [rule])).toHaveLength(0);
+  });
+
+  test('checks the previous word', () => {
+    const rule = ruleWith('pretty', { previousTag: 'AUX' });
+    expect(findMatches('It is pretty good', [rule])).toHaveLength(1);
+    expect(findMatches('A pretty dress', [rule])).toHaveLength(0);
+  });
+
+  test('rejects unknown tags', () => {
+    expect(() => ruleWith('just', { nextTag: 'GERUND' })).toThrow('Unknown part-of-speech tag');
+  });
+});
+
+describe('combined constraints', () => {
+  test('all constraints must hold', () => {
+    const rule = ruleWith('actually', { notInQuestion: true, notPrecededByNegation: true });
+    expect(findMatches('It actually works.', [rule])).toHaveLength(1);
+    expect(findMatches('Is it not actually done?', [rule])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  applyDocumentReplacements,
+  detectFormat,
+  extractProse,
+  formatForFile,
+  processDocument,
+} from '../src/lib/document.js';
+
+describe('formatForFile', () => {
+  test('reads .md and .markdown files as markdown', () => {
+    expect(formatForFile('docs/README.md')).toBe('markdown');
+    expect(formatForFile('notes.MARKDOWN')).toBe('markdown');
+    expect(formatForFile('email.txt')).toBe('text');
+    expect(formatForFile('export.html')).toBe('html');
+    expect(formatForFile('page.HTM')).toBe('html');
+    expect(formatForFile('reply.eml')).toBe('email');
+  });
+});
+
+describe('detectFormat', () => {
+  test('reads plain text with reply structure as email', () => {
+    expect(detectFormat('I think so.\n\n> Can we go?\n', 'reply.txt')).toBe('email');
+    expect(detectFormat('I think so.\n\nOn Tue, Sam wrote:\nCan we go?\n')).toBe('email');
+    expect(detectFormat('I think so.\n-- \nAlex\n')).toBe('email');
+  });
+
+  test('keeps other text and the format of the extension', () => {
+    expect(detectFormat('I think so.\nOn Tuesday we go.\n', 'notes.txt')).toBe('text');
+    expect(detectFormat('I think 3 > 2.\n')).toBe('text');
+    expect(detectFormat('> I think so.\n', 'notes.md')).toBe('markdown');
+  });
+});
+
+describe('extractProse', () => {
+  test('maps each prose character to its document offset', () => {
+    const [run] = extractProse('**I think** so', 'markdown');
+    expect(run.text).toBe('I think so');
+    expect(run.offsets[0]).toBe(2);
+    expect(run.offsets[run.text.indexOf(' so')]).toBe(11);
+  });
+});
+
+describe('processDocument - markdown', () => {
+  test('leaves code, comments, URLs and front matter untouched', () => {
+    const text = [
+      '---',
+      'summary: I think',
+      '---',
+      '',
+      'I think we should ship. See [I think](https://example.com/i-think).',
+      '',
+      '<!-- I think -->',
+      '',
+      '```',
+      'I think',
+      '```',
+      '',
+    ].join('\n');
+    const result = processDocument(text, 'markdown', 'conservative');
+    expect(result.transformed).toBe(
+      text.replace('I think we should ship.', 'We should ship.').replace('[I think]', '[I believe]')
+    );
+  });
+
+  test('matches across emphasis markers', () => {
+    const result = processDocument('**I think** we should go.', 'markdown', 'conservative');
+    expect(result.transformed).toBe('We should go.');
+  });
+
+  test('keeps emphasis around words that remain', () => {
+    const result = processDocument('I think **we should** go.', 'markdown', 'conservative');
+    expect(result.transformed).toBe('**We should** go.');
+  });
+
+  test('drops emphasis left empty by a deletion', () => {
+    const result = processDocument('Please **just** do it.', 'markdown', 'moderate');
+    expect(result.transformed).toBe('Please do it.');
+  });
+
+  test('writes a replacement outside emphasis whose words were all deleted', () => {
+    const result = processDocument('It is just a *small* issue.', 'markdown', 'aggressive');
+    expect(result.transformed).toBe('It is an issue.');
+  });
+
+  test('keeps emphasis and links around several edits in one paragraph', () => {
+    const emphasis = processDocument(
+      '**I think** we should go. And I think we should stay.',
+      'markdown',
+      'conservative'
+    );
+    expect(emphasis.transformed).toBe('We should go. And we should stay.');
+
+    const link = processDocument(
+      'Sorry to bother you, but see [I think we should](https://x.com) now.',
+      'markdown',
+      'conservative'
+    );
+    expect(link.transformed).toBe('Excuse me, but see [we should](https://x.com) now.');
+
+    const both = processDocument(
+      'I think **we should** go. I just wanted to say [thanks](https://x.com) for **all** of it.',
+      'markdown',
+      'conservative'
+    );
+    expect(both.transformed).toBe(
+      '**We should** go. I wanted to say [thanks](https://x.com) for **all** of it.'
+    );
+  });
+
+  test('maps match offsets back to the file', () => {
+    const text = '# Notes\n\n> So I just wanted to ask.\n';
+    const result = processDocument(text, 'markdown', 'conservative');
+    const [match] = result.replacements;
+    expect(text.slice(match.start, match.end)).toBe('I just wanted to');
+    expect(text.slice(match.sentence?.start, match.sentence?.end)).toBe('So I just wanted to ask.');
+  });
+
+  test('keeps list markers, indentation and line endings', () => {
+    const text = '1. I think it works\r\n2. Maybe we could go\r\n   - nested  item\r\n';
+    const result = processDocument(text, 'markdown', 'conservative');
+    expect(result.transformed).toBe(
+      '1. I believe it works\r\n2. We could go\r\n   - nested  item\r\n'
+    );
+    expect(result.format).toBe('markdown');
+  });
+
+  test('processes plain text as a whole', () => {
+    const result = processDocument('<!-- I think so -->', 'text', 'conservative');
+    expect(result.transformed).toBe('<!-- I believe so -->');
+    expect(result.format).toBe('text');
+  });
+});
+
+describe('processDocument - html', () => {
+  test('matches across inline tags and drops tags left empty', () => {
+    const text = '<p class="x">I <b>just</b> wanted to say hi.</p>';
+    const result = processDocument(text, 'html', 'conservative');
+    expect(result.transformed).toBe('<p class="x">I wanted to say hi.</p>');
+  });
+
+  test('writes a replacement outside tags whose words were all deleted', () => {
+    const text = '<p>It is just a <i>small</i> issue.</p>';
+    const result = processDocument(text, 'html', 'aggressive');
+    expect(result.transformed).toBe('<p>It is an issue.</p>');
+  });
+
+  test('keeps tags around several edits in one paragraph', () => {
+    const text =
+      '<p>I <b>just</b> wanted to ask. Sorry to bother you, but see <a href="x">I think we should</a> go.</p>';
+    const result = processDocument(text, 'html', 'conservative');
+    expect(result.transformed).toBe(
+      '<p>I wanted to ask. Excuse me, but see <a href="x">we should</a> go.</p>'
+    );
+  });
+
+  test('keeps tags, attributes and references around words that remain', () => {
+    const text =
+      '<p>I think&nbsp;we should <a href="https://x.io/?a=1&amp;b=2">ship</a> &amp; go.</p>';
+    const result = processDocument(text, 'html', 'conservative');
+    expect(result.transformed).toBe(
+      '<p>We should <a href="https://x.io/?a=1&amp;b=2">ship</a> &amp; go.</p>'
+    );
+  });
+
+  test('leaves code, pre, script and style untouched', () => {
+    const text =
+      '<pre>I think so</pre><p><code>I think</code></p><script>// I think</script><style>/* I think */</style>';
+    expect(processDocument(text, 'html', 'conservative').transformed).toBe(text);
+  });
+
+  test('maps match offsets back to the file', () => {
+    const text = '<p>Well, I <i>just</i> wanted to ask.</p>';
+    const [match] = processDocument(text, 'html', 'conservative').replacements;
+    expect(text.slice(match.start, match.end)).toBe('I <i>just</i> wanted to');
+  });
+});
+
+describe('applyDocumentReplacements', () => {
+  test('applies only the accepted matches inside the markdown', () => {
+    const text = '- **I think** we should go\n- I just wanted to ask\n\n`I think`\n';
+    const result = processDocument(text, 'markdown', 'conservative');
+    const accepted = result.replacements.filter((m) => m.original.startsWith('I just'));
+    expect(applyDocumentReplacements(text, accepted, 'markdown')).toBe(
+      '- **I think** we should go\n- I wanted to ask\n\n`I think`\n'
+    );
+    expect(applyDocumentReplacements(text, result.replacements, 'markdown')).toBe(
+      result.transformed
+    );
+  });
+
+  test('applies accepted matches inside html', () => {
+    const text = '<p>I <b>just</b> wanted to ask.</p><p>I think so.</p>';
+    const result = processDocument(text, 'html', 'conservative');
+    const accepted = result.replacements.filter((m) => m.original.startsWith('I just'));
+    expect(applyDocumentReplacements(text, accepted, 'html')).toBe(
+      '<p>I wanted to ask.</p><p>I think so.</p>'
+    );
+  });
+});
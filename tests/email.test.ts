@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+import { extractProse, processDocument } from '../src/lib/document.js';
+import { encodeQuotedPrintable, parseEmail } from '../src/lib/email.js';
+
+function prose(text: string): string[] {
+  return extractProse(text, 'email').map((run) => run.text);
+}
+
+const MULTIPART = [
+  'From: Alex <alex@example.com>',
+  'Subject: I think we should talk',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'I just wanted to say caf=C3=A9 is =',
+  'open.',
+  '',
+  '> I think so',
+  '--b1',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>I <b>just</b> wanted to ask.</p><blockquote>I think so</blockquote>',
+  '--b1',
+  'Content-Type: application/pdf',
+  'Content-Disposition: attachment; filename="a.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'SSB0aGluaw==',
+  '--b1--',
+  '',
+].join('\r\n');
+
+describe('parseEmail', () => {
+  test('skips headers of a message', () => {
+    expect(prose('Subject: I think so\nTo: sam@example.com\n\nI think we should go.\n')).toEqual([
+      'I think we should go.',
+    ]);
+  });
+
+  test('reads a reply without headers as plain text, one run per paragraph', () => {
+    expect(prose('Hi Sam,\n\nI think we should go.\n')).toEqual([
+      'Hi Sam,',
+      'I think we should go.',
+    ]);
+  });
+
+  test('skips quoted lines and attribution lines', () => {
+    const text = [
+      'I think we should go.',
+      '',
+      'On Tue, 3 Jun 2025 at 10:00, Sam <sam@example.com>',
+      'wrote:',
+      '> I just wanted to ask.',
+      '>> Maybe later.',
+      '',
+      'Sounds good.',
+      'Am 3. Juni 2025 schrieb Sam:',
+      '> Ich wollte nur fragen',
+    ].join('\n');
+    expect(prose(text)).toEqual(['I think we should go.', 'Sounds good.']);
+  });
+
+  test('stops at the signature and at forwarded messages', () => {
+    expect(prose('I think so.\n-- \nAlex\nI think\n')).toEqual(['I think so.']);
+    expect(prose('See below.\n\n---------- Forwarded message ---------\nI think\n')).toEqual([
+      'See below.',
+    ]);
+  });
+
+  test('reads text parts of a multipart message and skips attachments', () => {
+    expect(prose(MULTIPART)).toEqual([
+      'I just wanted to say café is open.',
+      'I just wanted to ask.',
+    ]);
+  });
+
+  test('maps quoted-printable characters back to the message', () => {
+    const [run] = extractProse(MULTIPART, 'email');
+    const cafe = run.text.indexOf('é');
+    expect(MULTIPART.slice(run.offsets[cafe], run.ends[cafe])).toBe('=C3=A9');
+    const [region] = parseEmail(MULTIPART);
+    expect(region.markup.map((range) => MULTIPART.slice(range.start, range.end))).toEqual([
+      '=\r\n',
+    ]);
+  });
+
+  test('skips parts in encodings it cannot read', () => {
+    const text = [
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'I think caf=E9',
+    ].join('\n');
+    expect(parseEmail(text)).toEqual([]);
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  test('escapes equals signs and non-ASCII characters', () => {
+    expect(encodeQuotedPrintable('a = café')).toBe('a =3D caf=C3=A9');
+  });
+});
+
+describe('processDocument - email', () => {
+  test('rewrites only the new text of a reply', () => {
+    const text =
+      'I think we should go.\n\nOn Mon, Sam wrote:\n> I just wanted to ask.\n-- \nI think\n';
+    expect(processDocument(text, 'email', 'conservative').transformed).toBe(
+      'We should go.\n\nOn Mon, Sam wrote:\n> I just wanted to ask.\n-- \nI think\n'
+    );
+  });
+
+  test('keeps the rest of a multipart message byte for byte', () => {
+    const result = processDocument(MULTIPART, 'email', 'conservative');
+    expect(result.transformed).toBe(
+      MULTIPART.replace('I just wanted to say', 'I wanted to say').replace(
+        '<p>I <b>just</b> wanted to ask.</p>',
+        '<p>I wanted to ask.</p>'
+      )
+    );
+  });
+
+  test('encodes inserted text for the part', () => {
+    const text = [
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Ich denke, dass es gr=C3=BCn ist.',
+    ].join('\n');
+    expect(processDocument(text, 'email', 'conservative', 'de').transformed).toBe(
+      text.replace('Ich denke, dass', 'Ich bin =C3=BCberzeugt, dass')
+    );
+  });
+});
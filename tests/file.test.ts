@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { backupFile, writeTextFile } from '../src/utils/file.js';
+
+const TEST_DIR = join(tmpdir(), `speak-strong-file-${Date.now().toString()}`);
+
+beforeEach(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+});
+
+describe('writeTextFile', () => {
+  test('creates missing directories', () => {
+    const file = join(TEST_DIR, 'a', 'b', 'notes.txt');
+    writeTextFile(file, 'We should go.');
+    expect(readFileSync(file, 'utf8')).toBe('We should go.');
+  });
+
+  test('replaces a file without leaving temporary files', () => {
+    const file = join(TEST_DIR, 'notes.txt');
+    writeFileSync(file, 'I think we should go.');
+    writeTextFile(file, 'We should go.');
+    expect(readFileSync(file, 'utf8')).toBe('We should go.');
+    expect(readdirSync(TEST_DIR)).toEqual(['notes.txt']);
+  });
+
+  test('keeps the permissions of the file it replaces', () => {
+    const file = join(TEST_DIR, 'notes.txt');
+    writeFileSync(file, 'I think so.', { mode: 0o640 });
+    writeTextFile(file, 'I believe so.');
+    expect(statSync(file).mode & 0o777).toBe(0o640);
+  });
+
+  test('writes through a symlink to the file it points at', () => {
+    const file = join(TEST_DIR, 'notes.txt');
+    const link = join(TEST_DIR, 'link.txt');
+    writeFileSync(file, 'I think so.');
+    symlinkSync(file, link);
+    writeTextFile(link, 'I believe so.');
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+    expect(readFileSync(file, 'utf8')).toBe('I believe so.');
+  });
+});
+
+describe('backupFile', () => {
+  test('copies the file next to itself with a .bak suffix', () => {
+    const file = join(TEST_DIR, 'notes.txt');
+    writeFileSync(file, 'I think so.');
+    expect(backupFile(file)).toBe(`${file}.bak`);
+    expect(readFileSync(`${file}.bak`, 'utf8')).toBe('I think so.');
+  });
+
+  test('throws for a missing file', () => {
+    expect(() => backupFile(join(TEST_DIR, 'missing.txt'))).toThrow('Failed to write file');
+  });
+});
@@ -75,6 +75,45 @@ describe('history module', () => {
     expect(entry.outputFile).toBeUndefined();
   });
 
+  test('createEntryFromResult stores absolute paths', async () => {
+    const { createEntryFromResult } = await import('../src/lib/history.js');
+    const result = { original: 'Test', transformed: 'Test', replacements: [], suggestions: [] };
+
+    const entry = createEntryFromResult(result, 'moderate', {
+      inputFile: 'notes.txt',
+      outputFile: 'notes.txt',
+      backupFile: 'notes.txt.bak',
+    });
+
+    expect(entry.inputFile).toBe(join(process.cwd(), 'notes.txt'));
+    expect(entry.outputFile).toBe(join(process.cwd(), 'notes.txt'));
+    expect(entry.backupFile).toBe(join(process.cwd(), 'notes.txt.bak'));
+  });
+
+  test('createBatchEntry records every changed file in one entry', async () => {
+    const { createBatchEntry } = await import('../src/lib/history.js');
+    const { processText } = await import('../src/lib/replacer.js');
+
+    const changed = processText('I think we should go.', 'conservative');
+    const unchanged = processText('We should go.', 'conservative');
+    const entry = createBatchEntry(
+      [
+        { file: 'a.txt', result: changed, outputFile: 'a.txt' },
+        { file: 'b.txt', result: unchanged, outputFile: 'b.txt' },
+        { file: 'c.txt', result: changed, outputFile: 'c.txt', backupFile: 'c.txt.bak' },
+      ],
+      'conservative'
+    );
+
+    expect(entry?.files?.map((file) => file.outputFile)).toEqual([
+      join(process.cwd(), 'a.txt'),
+      join(process.cwd(), 'c.txt'),
+    ]);
+    expect(entry?.files?.[1].backupFile).toBe(join(process.cwd(), 'c.txt.bak'));
+    expect(entry?.replacementCount).toBe(2);
+    expect(createBatchEntry([{ file: 'b.txt', result: unchanged }], 'conservative')).toBeNull();
+  });
+
   test('formatHistoryList returns message when empty', async () => {
     const { formatHistoryList } = await import('../src/lib/history.js');
     const result = formatHistoryList([]);
@@ -187,4 +226,36 @@ describe('history module', () => {
     expect(result.success).toBe(true);
     expect(readFileSync(testFile, 'utf-8')).toBe('Original text');
   });
+
+  test('undoEntry restores every file of a batch entry', async () => {
+    const { undoEntry } = await import('../src/lib/history.js');
+    const { readFileSync } = await import('node:fs');
+
+    const files = ['one.txt', 'two.txt'].map((name) => {
+      const outputFile = join(TEST_DIR, name);
+      writeFileSync(outputFile, 'Transformed text');
+      return {
+        inputFile: outputFile,
+        outputFile,
+        original: `Original ${name}`,
+        transformed: 'Transformed text',
+      };
+    });
+
+    const entry = {
+      id: 'batch1',
+      timestamp: '2024-01-15T10:00:00Z',
+      files,
+      original: '',
+      transformed: '',
+      level: 'conservative' as const,
+      replacementCount: 2,
+      suggestionCount: 0,
+    };
+
+    const result = undoEntry(entry);
+    expect(result.success).toBe(true);
+    expect(readFileSync(files[0].outputFile, 'utf-8')).toBe('Original one.txt');
+    expect(readFileSync(files[1].outputFile, 'utf-8')).toBe('Original two.txt');
+  });
 });
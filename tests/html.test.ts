@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { extractProse } from '../src/lib/document.js';
+import { escapeHtml, parseHtml } from '../src/lib/html.js';
+
+function prose(text: string): string[] {
+  return extractProse(text, 'html').map((run) => run.text);
+}
+
+describe('parseHtml', () => {
+  test('finds the text of each block element', () => {
+    expect(prose('<h1>Title</h1>\n<p>First.</p><ul><li>One</li><li>Two</li></ul>')).toEqual([
+      'Title',
+      'First.',
+      'One',
+      'Two',
+    ]);
+  });
+
+  test('reads text across inline elements', () => {
+    expect(prose('<p>I <b>just</b> wanted <a href="/x">to ask</a>.</p>')).toEqual([
+      'I just wanted to ask.',
+    ]);
+  });
+
+  test('splits text at line breaks', () => {
+    expect(prose('<p>One.<br>Two.</p>')).toEqual(['One.', 'Two.']);
+  });
+
+  test('skips code, pre, script, style and comments', () => {
+    const text =
+      '<style>p {}</style><p>Run <code>I think</code> now<!-- I think --></p><pre>I think</pre><script>1 < 2</script>';
+    expect(prose(text)).toEqual(['Run  now']);
+  });
+
+  test('reads character references as the characters they stand for', () => {
+    const [run] = extractProse('<p>I&nbsp;don&rsquo;t &amp; &#8230; &bogus;</p>', 'html');
+    expect(run.text).toBe('I don’t & … &bogus;');
+    expect(run.offsets[1]).toBe(4);
+    expect(run.ends[1]).toBe(10);
+  });
+
+  test('pairs inline tags by name', () => {
+    const [region] = parseHtml('<p><em>a <b>b</b></em></p>');
+    expect(region.pairs).toEqual([
+      { open: { start: 9, end: 12 }, close: { start: 13, end: 17 } },
+      { open: { start: 3, end: 7 }, close: { start: 17, end: 22 } },
+    ]);
+  });
+});
+
+describe('escapeHtml', () => {
+  test('escapes characters with a meaning in HTML', () => {
+    expect(escapeHtml('a < b & c > d')).toBe('a &lt; b &amp; c &gt; d');
+  });
+});
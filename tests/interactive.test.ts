@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
 import { applyAcceptedReplacements } from '../src/lib/interactive.js';
+import { processText } from '../src/lib/replacer.js';
 import type { Match, Rule } from '../src/types/index.js';
 
 const createMatch = (
@@ -22,6 +23,17 @@ const createMatch = (
 });
 
 describe('applyAcceptedReplacements', () => {
+  test('accepting every replacement gives the processed text', () => {
+    for (const text of [
+      'Sorry, but I think we should go. It is just a small issue.',
+      'I will definitely will go. And I just wanted to ask.',
+      'Sorry to bother you. Hopefully we can talk.  \nThanks',
+    ]) {
+      const result = processText(text, 'aggressive');
+      expect(applyAcceptedReplacements(text, result.replacements)).toBe(result.transformed);
+    }
+  });
+
   test('returns original text when no matches accepted', () => {
     const result = applyAcceptedReplacements('I think we should try', []);
     expect(result).toBe('I think we should try');
@@ -111,12 +123,18 @@ describe('applyAcceptedReplacements', () => {
     expect(result).toContain('\t- First');
   });
 
-  test('collapses multiple spaces within lines but preserves newlines', () => {
+  test('keeps runs of spaces away from edits', () => {
     const original = 'I think  we  should.\n\nMaybe  we  can.';
     const matches = [createMatch('I think', 'I believe', 0, 7)];
     const result = applyAcceptedReplacements(original, matches);
-    expect(result).not.toContain('  '); // Multiple spaces collapsed
-    expect(result).toContain('\n\n'); // Newlines preserved
+    expect(result).toBe('I believe  we  should.\n\nMaybe  we  can.');
+  });
+
+  test('keeps indentation and closes the gap before punctuation on deletion', () => {
+    const original = '    just do it\r\nWe ship it really.\r\n';
+    const matches = [createMatch('just', '', 4, 8), createMatch('really', '', 27, 33)];
+    const result = applyAcceptedReplacements(original, matches);
+    expect(result).toBe('    Do it\r\nWe ship it.\r\n');
   });
 
   test('preserves multi-line formatting', () => {
@@ -133,4 +151,19 @@ John`;
     expect(result).toContain('John');
     expect(result.split('\n').length).toBeGreaterThan(4);
   });
+
+  test('does not capitalize after abbreviations', () => {
+    const text = 'Ask for v2. I guess it helps, e.g. I guess so.';
+    const matches = [createMatch('I guess', '', 35, 42)];
+    expect(applyAcceptedReplacements(text, matches)).toBe('Ask for v2. I guess it helps, e.g. so.');
+  });
+
+  test('keeps a sentence capitalized when its first words are removed', () => {
+    const text = 'Ask for v2. I guess it helps.';
+    const match = {
+      ...createMatch('I guess', '', 12, 19),
+      sentence: { index: 1, start: 12, end: 29 },
+    };
+    expect(applyAcceptedReplacements(text, [match])).toBe('Ask for v2. It helps.');
+  });
 });
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { detectLanguage, isLanguage, LANGUAGES } from '../src/lib/languages.js';
+
+describe('isLanguage', () => {
+  test('accepts supported codes only', () => {
+    for (const language of LANGUAGES) {
+      expect(isLanguage(language)).toBe(true);
+    }
+    expect(isLanguage('it')).toBe(false);
+    expect(isLanguage('EN')).toBe(false);
+  });
+});
+
+describe('detectLanguage', () => {
+  test('detects English', () => {
+    expect(detectLanguage('I think we should review the budget before the launch.')).toBe('en');
+  });
+
+  test('detects Spanish', () => {
+    expect(
+      detectLanguage('Creo que deberíamos revisar el presupuesto, pero no estoy seguro.')
+    ).toBe('es');
+  });
+
+  test('detects German', () => {
+    expect(detectLanguage('Ich denke, wir sollten das Budget prüfen und die Zahlen ändern.')).toBe(
+      'de'
+    );
+  });
+
+  test('detects French', () => {
+    expect(detectLanguage("Je pense qu'on devrait parler à l'équipe avant le lancement.")).toBe(
+      'fr'
+    );
+  });
+
+  test('falls back to English for text without evidence', () => {
+    expect(detectLanguage('')).toBe('en');
+    expect(detectLanguage('Budget 2024: 42')).toBe('en');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { detectTense, inflect, lemmatize, lemmatizeWord, retense } from '../src/lib/lemmatizer.js';
+import { getWordTokens, tokenize } from '../src/lib/tokenizer.js';
+
+function words(text: string) {
+  return getWordTokens(lemmatize(tokenize(text)));
+}
+
+describe('lemmatizeWord', () => {
+  test('reduces regular verb forms', () => {
+    expect(lemmatizeWord('trying')).toEqual({ lemma: 'try', inflection: 'progressive' });
+    expect(lemmatizeWord('tried')).toEqual({ lemma: 'try', inflection: 'past' });
+    expect(lemmatizeWord('tries')).toEqual({ lemma: 'try', inflection: 'present' });
+    expect(lemmatizeWord('hoping')).toEqual({ lemma: 'hope', inflection: 'progressive' });
+    expect(lemmatizeWord('stopped')).toEqual({ lemma: 'stop', inflection: 'past' });
+  });
+
+  test('reduces irregular verb forms', () => {
+    expect(lemmatizeWord('took').lemma).toBe('take');
+    expect(lemmatizeWord('was').lemma).toBe('be');
+    expect(lemmatizeWord('am').lemma).toBe('be');
+  });
+
+  test('prefers the base reading for ambiguous forms', () => {
+    expect(lemmatizeWord('put')).toEqual({ lemma: 'put', inflection: 'base' });
+  });
+
+  test('reduces subject contractions to their subject', () => {
+    expect(lemmatizeWord("I'm").lemma).toBe('i');
+    expect(lemmatizeWord("we'll").lemma).toBe('we');
+    expect(lemmatizeWord("can't").lemma).toBe("can't");
+  });
+
+  test('leaves unknown words unchanged', () => {
+    expect(lemmatizeWord('things')).toEqual({ lemma: 'things' });
+  });
+});
+
+describe('lemmatize', () => {
+  test('fills lemma on word tokens', () => {
+    const tokens = words("I'm trying to help");
+    expect(tokens.map((t) => t.lemma)).toEqual(['i', 'try', 'to', 'help']);
+  });
+});
+
+describe('detectTense', () => {
+  test('detects tense from auxiliaries and verb forms', () => {
+    expect(detectTense(words("I'll try to"))).toBe('future');
+    expect(detectTense(words("I'm trying to"))).toBe('progressive');
+    expect(detectTense(words('I tried to'))).toBe('past');
+    expect(detectTense(words('I was trying to'))).toBe('past');
+    expect(detectTense(words('I try to'))).toBe('present');
+  });
+});
+
+describe('inflect', () => {
+  test('inflects regular and irregular verbs', () => {
+    expect(inflect('fix', 'progressive')).toBe('fixing');
+    expect(inflect('make', 'progressive')).toBe('making');
+    expect(inflect('ship', 'progressive')).toBe('shipping');
+    expect(inflect('take', 'past')).toBe('took');
+    expect(inflect('try', 'present')).toBe('tries');
+  });
+});
+
+describe('retense', () => {
+  const template = ['{subject}', 'will', '{verb}'];
+
+  test('keeps will for present and future matches', () => {
+    expect(retense(template, 'present', 'i', { verb: 'call' })?.words).toBe(template);
+    expect(retense(template, 'future', 'we', { verb: 'call' })?.words).toBe(template);
+  });
+
+  test('agrees with the subject and inflects the following slot', () => {
+    const result = retense(template, 'progressive', 'she', { verb: 'write' });
+    expect(result?.words).toEqual(['{subject}', 'is', '{verb}']);
+    expect(result?.captures.verb).toBe('writing');
+    expect(retense(template, 'progressive', 'i', { verb: 'fix' })?.words[1]).toBe('am');
+    expect(retense(template, 'progressive', 'they', { verb: 'fix' })?.words[1]).toBe('are');
+  });
+
+  test('gives nothing for past matches', () => {
+    expect(retense(template, 'past', 'i', { verb: 'call' })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { extractProse } from '../src/lib/document.js';
+import { parseMarkdown } from '../src/lib/markdown.js';
+
+function prose(text: string): string[] {
+  return extractProse(text, 'markdown').map((run) => run.text);
+}
+
+describe('parseMarkdown', () => {
+  test('finds paragraphs, headings and list items as separate regions', () => {
+    const text = '# Plan\n\nFirst line\nsecond line.\n\n- one\n- two\n  continued\n';
+    expect(prose(text)).toEqual(['Plan', 'First line\nsecond line.', 'one', 'two\ncontinued']);
+  });
+
+  test('skips front matter, code, HTML comments and link definitions', () => {
+    const text = [
+      '---',
+      'title: I think',
+      '---',
+      '',
+      'Prose.',
+      '',
+      '```ts',
+      '// I think',
+      '```',
+      '',
+      '    indented code',
+      '',
+      '<!-- I think',
+      'still a comment -->',
+      '',
+      '[docs]: https://example.com/i-think',
+      '',
+      '***',
+    ].join('\n');
+    expect(prose(text)).toEqual(['Prose.']);
+  });
+
+  test('reads indented lines inside a list as prose', () => {
+    expect(prose('- item\n\n    more about the item\n')).toEqual(['item', 'more about the item']);
+  });
+
+  test('removes blockquote markers and heading hashes', () => {
+    expect(prose('> I think\n> we should\n\n## Title ##\n')).toEqual([
+      'I think\nwe should',
+      'Title',
+    ]);
+  });
+
+  test('reads each table cell as its own region', () => {
+    const text = '| Name | Note |\n|------|------|\n| a | I think so |\n';
+    expect(prose(text)).toEqual(['Name', 'Note', 'a', 'I think so']);
+  });
+
+  test('removes emphasis, link syntax, images and inline HTML from the prose', () => {
+    const text = '**I think** we _should_ read [the docs](https://x.io) ![logo](a.png) <b>now</b>.';
+    expect(prose(text)).toEqual(['I think we should read the docs  now.']);
+  });
+
+  test('keeps inline code, snake_case words and unmatched markers in the prose', () => {
+    expect(prose('Run `a_b *c*` on snake_case and 2 * 3.')).toEqual([
+      'Run `a_b *c*` on snake_case and 2 * 3.',
+    ]);
+  });
+
+  test('pairs emphasis markers and link brackets', () => {
+    const [region] = parseMarkdown('**bold** and [link](url)');
+    expect(region.pairs).toEqual([
+      { open: { start: 0, end: 2 }, close: { start: 6, end: 8 } },
+      { open: { start: 13, end: 14 }, close: { start: 18, end: 24 } },
+    ]);
+  });
+});
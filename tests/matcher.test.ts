@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { lemmatize } from '../src/lib/lemmatizer.js';
+import { candidateRules, compileMatcher } from '../src/lib/matcher.js';
+import { convertRuleEntry, findMatches, processWithRules } from '../src/lib/rule-engine.js';
+import { getWordTokens, tokenize } from '../src/lib/tokenizer.js';
+
+function rule(pattern: string, replacement = '', options: { lemma?: boolean } = {}) {
+  return convertRuleEntry({ pattern, replacement, category: 'test', ...options }, 'moderate');
+}
+
+function words(text: string) {
+  return getWordTokens(lemmatize(tokenize(text)));
+}
+
+describe('compileMatcher', () => {
+  test('orders rules longest pattern first', () => {
+    const matcher = compileMatcher([rule('just'), rule('I just wanted to'), rule('I think')]);
+    expect(matcher.rules.map((r) => r.pattern.length)).toEqual([4, 2, 1]);
+  });
+
+  test('indexes rules by their leading words', () => {
+    const matcher = compileMatcher([rule('I think'), rule('I just'), rule('maybe')]);
+    expect(matcher.unanchored).toEqual([]);
+    expect([...matcher.surface.children.keys()].sort()).toEqual(['i', 'maybe']);
+  });
+
+  test('indexes surface rules under contracted and expanded spellings', () => {
+    const matcher = compileMatcher([rule("I'll try to"), rule('I am not sure')]);
+    const tokens = words('I will try to');
+    expect(candidateRules(matcher, tokens, 0)).toEqual([
+      matcher.rules.findIndex((r) => r.pattern[0].text === "i'll"),
+    ]);
+    expect(candidateRules(matcher, words("I'm not sure"), 0)).toHaveLength(1);
+  });
+
+  test('leaves rules starting with a slot or optional token unanchored', () => {
+    const matcher = compileMatcher([rule('{subject} should'), rule('hello')]);
+    expect(matcher.unanchored).toHaveLength(1);
+    expect(matcher.rules[matcher.unanchored[0]].pattern[0].slot).toBe('subject');
+  });
+
+  test('indexes lemma rules by lemma', () => {
+    const matcher = compileMatcher([rule('try to {verb}', '{verb}', { lemma: true })]);
+    expect(matcher.lemma.children.has('try')).toBe(true);
+    expect(matcher.surface.children.size).toBe(0);
+  });
+
+  test('puts every rule in the scan list without the index', () => {
+    const matcher = compileMatcher([rule('I think'), rule('maybe')], { index: false });
+    expect(matcher.unanchored).toEqual([0, 1]);
+  });
+});
+
+describe('candidateRules', () => {
+  test('returns only rules that can start at the word', () => {
+    const matcher = compileMatcher([rule('I think'), rule('I just'), rule('maybe')]);
+    const tokens = words('I think maybe');
+    const atStart = candidateRules(matcher, tokens, 0).map((i) => matcher.rules[i].id);
+    expect(atStart).toEqual([matcher.rules[0].id]);
+    expect(candidateRules(matcher, tokens, 2).map((i) => matcher.rules[i].pattern[0].text)).toEqual(
+      ['maybe']
+    );
+  });
+
+  test('finds lemma rules through inflected forms', () => {
+    const matcher = compileMatcher([rule('try to {verb}', '{verb}', { lemma: true })]);
+    expect(candidateRules(matcher, words('tried to call'), 0)).toEqual([0]);
+  });
+});
+
+describe('findMatches with a compiled matcher', () => {
+  const rules = [
+    rule('I just wanted to', 'I want to'),
+    rule('just'),
+    rule('I think', 'I believe'),
+    rule('{subject} try to {verb}', '{subject} will {verb}', { lemma: true }),
+  ];
+
+  test('gives the same matches as a full scan', () => {
+    const text = 'I just wanted to say I think we tried to call. Just checking, I think.';
+    const indexed = findMatches(text, compileMatcher(rules));
+    const scanned = findMatches(text, compileMatcher(rules, { index: false }));
+    expect(indexed.map((m) => [m.rule.id, m.textStart, m.textEnd])).toEqual(
+      scanned.map((m) => [m.rule.id, m.textStart, m.textEnd])
+    );
+    expect(indexed).toHaveLength(5);
+  });
+
+  test('can be reused across texts', () => {
+    const matcher = compileMatcher(rules);
+    expect(processWithRules('I think so.', matcher).transformed).toBe('I believe so.');
+    expect(processWithRules('It is just fine.', matcher).transformed).toBe('It is fine.');
+  });
+
+  test('exposes match token indexes on the context', () => {
+    const [match] = findMatches('Well, I think so.', compileMatcher(rules));
+    const { allTokens, startIndex, endIndex } = match.context;
+    expect(
+      allTokens
+        .slice(startIndex, endIndex)
+        .map((t) => t.text)
+        .join('')
+    ).toBe('I think');
+    expect(match.context.before.map((t) => t.text).join('')).toBe('Well, ');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { hasPosTag, parsePosTags, tagTokens } from '../src/lib/pos-tagger.js';
+import { tokenize } from '../src/lib/tokenizer.js';
+
+function tags(text: string): string[] {
+  return tokenize(text)
+    .filter((t) => t.type !== 'whitespace')
+    .map((t) => `${t.text}/${t.pos}`);
+}
+
+function tagOf(text: string, word: string): string | undefined {
+  return tokenize(text).find((t) => t.normalized === word)?.pos;
+}
+
+describe('tagTokens', () => {
+  test('tags closed-class words from the lexicon', () => {
+    expect(tags('I can see the plan.')).toEqual([
+      'I/PRON',
+      'can/AUX',
+      'see/VERB',
+      'the/DET',
+      'plan/NOUN',
+      './PUNCT',
+    ]);
+  });
+
+  test('tells the adverb "just" from the adjective', () => {
+    expect(tagOf('We just need more time', 'just')).toBe('ADV');
+    expect(tagOf('It was a just cause', 'just')).toBe('ADJ');
+  });
+
+  test('tags "pretty" as an adverb only before a modifier', () => {
+    expect(tagOf('The plan is pretty good', 'pretty')).toBe('ADV');
+    expect(tagOf('That is a pretty dress', 'pretty')).toBe('ADJ');
+  });
+
+  test('tells verbs from nouns by the word before', () => {
+    expect(tagOf('We review it daily', 'review')).toBe('VERB');
+    expect(tagOf('The review is done', 'review')).toBe('NOUN');
+    expect(tagOf('I want to deploy today', 'deploy')).toBe('VERB');
+  });
+
+  test('tags "like" as a verb after a subject and a preposition otherwise', () => {
+    expect(tagOf('I like it', 'like')).toBe('VERB');
+    expect(tagOf('I feel like it works', 'like')).toBe('ADP');
+  });
+
+  test('tags "that" by its role', () => {
+    expect(tagOf('I think that it works', 'that')).toBe('SCONJ');
+    expect(tagOf('That idea works', 'that')).toBe('DET');
+    expect(tagOf('I saw that', 'that')).toBe('PRON');
+  });
+
+  test('treats "have" and "do" as auxiliaries only before a verb', () => {
+    expect(tagOf('We have finished', 'have')).toBe('AUX');
+    expect(tagOf('We have time', 'have')).toBe('VERB');
+  });
+
+  test('tags capitalized words inside a sentence as proper nouns', () => {
+    expect(tagOf('We met Alice today', 'alice')).toBe('PROPN');
+    expect(tagOf('Alice met us', 'alice')).not.toBe('PROPN');
+  });
+
+  test('tags contractions, numbers and protected tokens', () => {
+    expect(tagOf("We don't know", "don't")).toBe('AUX');
+    expect(tagOf('It took 3 days', '3')).toBe('NUM');
+    expect(tagOf('Ask @sam now', '@sam')).toBe('PROPN');
+    expect(tagOf('See https://example.com now', 'https://example.com')).toBe('X');
+  });
+
+  test('can be turned off in the tokenizer', () => {
+    expect(tokenize('We just need it', { tagPos: false }).every((t) => !t.pos)).toBe(true);
+    expect(tagTokens(tokenize('We just need it', { tagPos: false }))[2].pos).toBe('ADV');
+  });
+});
+
+describe('parsePosTags', () => {
+  test('parses tag lists case-insensitively', () => {
+    expect(parsePosTags('VERB|aux', 'test')).toEqual(['VERB', 'AUX']);
+  });
+
+  test('rejects unknown tags', () => {
+    expect(() => parsePosTags('VERB|GERUND', 'test')).toThrow(
+      'Unknown part-of-speech tag "GERUND"'
+    );
+  });
+});
+
+describe('hasPosTag', () => {
+  test('checks a token against a tag list', () => {
+    const [we] = tokenize('we');
+    expect(hasPosTag(we, ['PRON', 'NOUN'])).toBe(true);
+    expect(hasPosTag(we, ['VERB'])).toBe(false);
+  });
+});
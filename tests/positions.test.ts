@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { processDocument } from '../src/lib/document.js';
+import { locateMatches, locateOffsets } from '../src/lib/positions.js';
+import { processText } from '../src/lib/replacer.js';
+import type { Match } from '../src/types/index.js';
+
+function createMatch(start: number, end: number): Match {
+  return {
+    original: '',
+    replacement: null,
+    start,
+    end,
+    rule: { pattern: 'I think', level: 'conservative', category: 'hedging' },
+  };
+}
+
+describe('locateOffsets', () => {
+  test('gives 1-based lines and columns', () => {
+    const positions = locateOffsets('Hello.\nI think so.', [9, 0, 6]);
+    expect(positions.get(0)).toMatchObject({ line: 1, column: 1 });
+    expect(positions.get(6)).toMatchObject({ line: 1, column: 7 });
+    expect(positions.get(9)).toMatchObject({ line: 2, column: 3 });
+  });
+
+  test('starts lines after \\n, \\r\\n and a lone \\r', () => {
+    const positions = locateOffsets('a\nb\r\nc\rd', [2, 5, 7]);
+    expect([...positions.values()].map(({ line, column }) => [line, column])).toEqual([
+      [2, 1],
+      [3, 1],
+      [4, 1],
+    ]);
+  });
+
+  test('counts columns in UTF-16 code units, UTF-8 bytes and code points', () => {
+    const text = 'café 😀 I think';
+    const offset = text.indexOf('I think');
+    expect(locateOffsets(text, [offset]).get(offset)).toEqual({
+      line: 1,
+      column: 9,
+      utf8Column: 12,
+      codePointColumn: 8,
+    });
+  });
+
+  test('locates many offsets on one long line in a single pass', () => {
+    const text = 'I think so. '.repeat(20_000);
+    const offsets = Array.from({ length: 20_000 }, (_, i) => i * 12);
+    const positions = locateOffsets(text, offsets);
+    expect(positions.get(239_988)).toMatchObject({ line: 1, column: 239_989 });
+  });
+});
+
+describe('locateMatches', () => {
+  test('gives the end just past the last character', () => {
+    const [match] = locateMatches('Ünd\nI think so', [createMatch(4, 11)]);
+    expect(match).toMatchObject({
+      line: 2,
+      column: 1,
+      endLine: 2,
+      endColumn: 8,
+      utf8: { column: 1, endColumn: 8 },
+      codePoints: { column: 1, endColumn: 8 },
+    });
+  });
+
+  test('spans lines', () => {
+    const [match] = locateMatches('I\r\nthink', [createMatch(0, 8)]);
+    expect(match).toMatchObject({ line: 1, column: 1, endLine: 2, endColumn: 6 });
+  });
+
+  test('keeps positions that are already known', () => {
+    const [located] = locateMatches('I think', [createMatch(0, 7)]);
+    expect(locateMatches('changed\nI think', [located])[0]).toBe(located);
+  });
+});
+
+describe('processing', () => {
+  test('processText locates replacements and suggestions', () => {
+    const result = processText('Hi 👋\nWell, I think we should go.', 'conservative');
+    expect(result.replacements[0]).toMatchObject({
+      original: 'I think we should',
+      line: 2,
+      column: 7,
+      endLine: 2,
+      endColumn: 24,
+    });
+  });
+
+  test('processDocument locates matches in the document', () => {
+    const text = '# Plan\n\n**Well**, I think we should go.\n';
+    const [match] = processDocument(text, 'markdown', 'conservative').replacements;
+    expect(match).toMatchObject({ line: 3, column: 11, endColumn: 28 });
+    expect(text.slice(match.start, match.end)).toBe('I think we should');
+    expect(text.split('\n')[2].slice(10, 27)).toBe('I think we should');
+  });
+});
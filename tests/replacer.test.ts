@@ -1,5 +1,7 @@
-import { describe, expect, test } from 'bun:test';
+import { describe, expect, spyOn, test } from 'bun:test';
 import { getStrictnessLevel, processText } from '../src/lib/replacer.js';
+import { getConfig } from '../src/utils/config.js';
+import { Logger } from '../src/utils/logger.js';
 
 describe('getStrictnessLevel', () => {
   test('returns conservative by default', () => {
@@ -88,8 +90,20 @@ describe('processText - conservative level', () => {
   });
 
   describe('non-committal patterns', () => {
-    test('replaces "I\'ll try to" with "I will"', () => {
+    test('replaces "I\'ll try to" with "I\'ll", keeping the contraction', () => {
       const result = processText("I'll try to get that done", 'conservative');
+      expect(result.transformed).toBe("I'll get that done");
+    });
+
+    test('suggests rewording a past attempt', () => {
+      const result = processText('I tried to call.', 'conservative');
+      expect(result.transformed).toBe('I tried to call.');
+      expect(result.suggestions).toHaveLength(1);
+      expect(result.suggestions[0].rule.suggestion).toContain('Past attempt');
+    });
+
+    test('replaces "I will try to" with "I will"', () => {
+      const result = processText('I will try to get that done', 'conservative');
       expect(result.transformed).toBe('I will get that done');
     });
 
@@ -112,6 +126,63 @@ describe('processText - conservative level', () => {
   });
 });
 
+describe('processText - scope awareness', () => {
+  test('leaves hedges inside a negation alone', () => {
+    const result = processText('I never said I think we should ship.', 'conservative');
+    expect(result.transformed).toBe('I never said I think we should ship.');
+    expect(result.replacements).toHaveLength(0);
+  });
+
+  test('reports hedges inside a question as suggestions', () => {
+    const result = processText('Why do I think this is hard?', 'conservative');
+    expect(result.transformed).toBe('Why do I think this is hard?');
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.suggestions[0].scope).toBe('question');
+    expect(result.suggestions[0].rule.suggestion).toContain('question');
+  });
+
+  test('reports hedges in reported speech as suggestions', () => {
+    const result = processText('She told me I think too much.', 'conservative');
+    expect(result.transformed).toBe('She told me I think too much.');
+    expect(result.suggestions[0].scope).toBe('reported');
+  });
+});
+
+describe('processText - sentences', () => {
+  test('reports the sentence of each match', () => {
+    const result = processText('We met Dr. Lee. I think it went well.', 'conservative');
+    expect(result.replacements[0].sentence).toEqual({ index: 1, start: 16, end: 37 });
+  });
+
+  test('does not capitalize after abbreviations or versions', () => {
+    const result = processText('Costs rose approx. 5%. Ask for v2. I guess it helps.', 'moderate');
+    expect(result.transformed).toBe('Costs rose approx. 5%. Ask for v2. It helps.');
+  });
+
+  test('does not capitalize after "e.g."', () => {
+    const result = processText('Pick a tool, e.g. I guess a linter.', 'moderate');
+    expect(result.transformed).toBe('Pick a tool, e.g. a linter.');
+  });
+});
+
+describe('processText - typographic text', () => {
+  test('matches patterns written with curly apostrophes', () => {
+    const result = processText('I’m sorry, but I can’t attend.', 'conservative');
+    expect(result.transformed).toBe('I can’t attend.');
+    expect(result.replacements[0]).toMatchObject({ original: 'I’m sorry, but', start: 0, end: 14 });
+  });
+
+  test('writes replacement apostrophes in the style of the input', () => {
+    const result = processText('Would you mind if we talk? It’s fine.', 'moderate');
+    expect(result.transformed).toBe('I’d like to talk? It’s fine.');
+  });
+
+  test('leaves non-breaking spaces outside matches untouched', () => {
+    const result = processText('See you\u00A0soon. I think we should ship.', 'conservative');
+    expect(result.transformed).toBe('See you\u00A0soon. We should ship.');
+  });
+});
+
 describe('processText - case preservation', () => {
   test('preserves all uppercase', () => {
     const result = processText('I THINK we should proceed', 'conservative');
@@ -125,7 +196,7 @@ describe('processText - case preservation', () => {
 
   test('preserves lowercase', () => {
     const result = processText('and i think we should proceed', 'conservative');
-    expect(result.transformed).toBe('And we should proceed');
+    expect(result.transformed).toBe('and we should proceed');
   });
 });
 
@@ -172,6 +243,39 @@ describe('processText - moderate level', () => {
     expect(result.transformed).toBe("I'd like to take this task?");
   });
 
+  test('replaces "would you mind if" for subjects other than I', () => {
+    const result = processText('Would you mind if we discuss this?', 'moderate');
+    expect(result.transformed).toBe("I'd like to discuss this?");
+  });
+
+  test('restructures "would you mind if I" into a statement', () => {
+    const result = processText('Would you mind if I took Friday off?', 'moderate');
+    expect(result.transformed).toBe("I'm taking Friday off.");
+  });
+
+  test('does not add a period the text did not have', () => {
+    expect(processText('Would you mind if I took Friday off\nThanks', 'moderate').transformed).toBe(
+      "I'm taking Friday off\nThanks"
+    );
+    expect(processText('Would you mind if I took Friday off', 'moderate').transformed).toBe(
+      "I'm taking Friday off"
+    );
+  });
+
+  test('leaves "would you mind if I" alone before a modal or auxiliary', () => {
+    expect(processText('Would you mind if I could join?', 'moderate').transformed).toBe(
+      'Would you mind if I could join?'
+    );
+    expect(processText('Would you mind if I was late?', 'moderate').transformed).toBe(
+      'Would you mind if I was late?'
+    );
+  });
+
+  test('restructures "is it possible for you to" into a request', () => {
+    const result = processText('Is it possible for you to review the draft?', 'moderate');
+    expect(result.transformed).toBe('Please review the draft.');
+  });
+
   test('removes "this might be a stupid question, but"', () => {
     const result = processText(
       'This might be a stupid question, but how does this work?',
@@ -297,11 +401,46 @@ I think we should meet.`;
     expect(result.transformed).toContain('\t- First item');
   });
 
-  test('collapses multiple spaces within lines but preserves newlines', () => {
-    const input = 'I think  we  should  try.\n\nMaybe  we  can  do  this.';
+  test('keeps runs of spaces away from edits', () => {
+    const input = 'I think we  should  try.\n\nMaybe we  can  do  this.';
     const result = processText(input, 'conservative');
-    expect(result.transformed).not.toContain('  '); // Multiple spaces collapsed
-    expect(result.transformed).toContain('\n\n'); // Newlines preserved
+    expect(result.transformed).toBe('We should  try.\n\nWe can  do  this.');
+  });
+
+  test('keeps indented lists and code blocks byte for byte', () => {
+    const input =
+      '# Plan\n\n  - I think we should ship\n    - nested   item\n\n    const  x = 1;  \n';
+    const result = processText(input, 'conservative');
+    expect(result.transformed).toBe(
+      '# Plan\n\n  - We should ship\n    - nested   item\n\n    const  x = 1;  \n'
+    );
+  });
+
+  test('round-trips CRLF line endings and a BOM', () => {
+    const input = '\uFEFFHello.\r\nI think we should go.\r\n\r\n| a  | b |\r\n';
+    const result = processText(input, 'conservative');
+    expect(result.transformed).toBe('\uFEFFHello.\r\nWe should go.\r\n\r\n| a  | b |\r\n');
+  });
+
+  test('keeps trailing spaces before a line break', () => {
+    const input = 'A line I think this  \nnext line.';
+    expect(processText(input, 'conservative').transformed).toBe('A line this  \nnext line.');
+  });
+
+  test('capitalizes only sentences whose first words were removed', () => {
+    for (const [input, expected] of [
+      ['npm install, I think we should go.', 'npm install, we should go.'],
+      ['iPhone users: I think we should go.', 'iPhone users: we should go.'],
+      ['first line\nsecond line I think this works', 'first line\nsecond line this works'],
+      ['Done. just do it.', 'Done. Do it.'],
+    ]) {
+      expect(processText(input, 'moderate').transformed).toBe(expected);
+    }
+  });
+
+  test('leaves text without matches unchanged', () => {
+    const input = '\uFEFF  Indented   text ,with odd spacing .\r\n\tand tabs\r\n';
+    expect(processText(input, 'conservative').transformed).toBe(input);
   });
 
   test('preserves formatting in structured text', () => {
@@ -336,3 +475,64 @@ John`;
     expect(lineCount).toBeGreaterThan(4);
   });
 });
+
+describe('processText - languages', () => {
+  test('detects the language and applies its rules', () => {
+    const result = processText('Creo que deberíamos revisar el presupuesto.', 'conservative');
+    expect(result.language).toBe('es');
+    expect(result.transformed).toBe('Deberíamos revisar el presupuesto.');
+  });
+
+  test('uses the given language over detection', () => {
+    const result = processText('Ich wollte nur fragen.', 'conservative', 'de');
+    expect(result.language).toBe('de');
+    expect(result.transformed).toBe('Ich wollte fragen.');
+  });
+
+  test('matches French patterns across elisions', () => {
+    const result = processText("J'essaierai de finir aujourd'hui.", 'conservative', 'fr');
+    expect(result.transformed).toBe("Je vais finir aujourd'hui.");
+    expect(result.replacements[0].rule.pattern).toBe("j'essaierai de");
+  });
+
+  test('matches Spanish inverted question marks', () => {
+    const result = processText('Es una idea. ¿Tiene sentido?', 'conservative', 'es');
+    expect(result.transformed).toBe('Es una idea.');
+  });
+
+  test('leaves English grammar repairs out of other languages', () => {
+    const result = processText('Je voulais juste vous vous dire merci.', 'conservative', 'fr');
+    expect(result.repairs).toEqual([]);
+    expect(result.transformed).toBe('Je voulais vous vous dire merci.');
+  });
+});
+
+describe('processText - rule caching', () => {
+  const compiledMatchers = (debug: ReturnType<typeof spyOn>) =>
+    debug.mock.calls.filter(([message]) => String(message).startsWith('Compiled matcher')).length;
+
+  test('reuses the compiled matcher when caching is enabled', () => {
+    processText('I think so.', 'moderate');
+    const debug = spyOn(Logger, 'debug');
+    try {
+      processText('I think so.', 'moderate');
+      expect(compiledMatchers(debug)).toBe(0);
+    } finally {
+      debug.mockRestore();
+    }
+  });
+
+  test('rebuilds rules and matcher on every call when caching is disabled', () => {
+    const config = getConfig();
+    const debug = spyOn(Logger, 'debug');
+    config.rules.cacheEnabled = false;
+    try {
+      processText('I think so.', 'moderate');
+      processText('I think so.', 'moderate');
+      expect(compiledMatchers(debug)).toBe(2);
+    } finally {
+      config.rules.cacheEnabled = true;
+      debug.mockRestore();
+    }
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { formatOutput } from '../src/lib/reporter.js';
+import { formatBatchSummary, formatFindings, formatOutput } from '../src/lib/reporter.js';
 import type { ProcessResult } from '../src/types/index.js';
 
 function createMockResult(overrides: Partial<ProcessResult> = {}): ProcessResult {
@@ -149,4 +149,70 @@ describe('formatOutput', () => {
     const output = formatOutput(result, true);
     expect(output).toContain('often adds no meaning');
   });
+
+  test('lists grammar repairs', () => {
+    const result = createMockResult({
+      replacements: [
+        {
+          original: 'just a small',
+          replacement: 'a',
+          start: 6,
+          end: 18,
+          rule: {
+            pattern: 'just a small',
+            replacement: 'a',
+            level: 'conservative',
+            category: 'minimizing',
+          },
+        },
+      ],
+      repairs: [{ kind: 'article', original: 'a issue', replacement: 'an issue' }],
+    });
+    const output = formatOutput(result, true);
+    expect(output).toContain('Grammar repairs');
+    expect(output).toContain('an issue');
+  });
+});
+
+describe('formatBatchSummary', () => {
+  test('lists each file with aligned counts', () => {
+    const output = formatBatchSummary([
+      {
+        file: 'docs/guide.md',
+        result: createMockResult({
+          repairs: [{ kind: 'article', original: 'a issue', replacement: 'an issue' }],
+        }),
+      },
+      { file: 'a.txt', result: createMockResult() },
+    ]);
+    const lines = output.split('\n');
+    expect(lines[1]).toContain('File           Replaced  Repairs  Suggestions');
+    expect(lines[2]).toContain('docs/guide.md         0        1            0');
+    expect(lines[3]).toContain('a.txt                 0        0            0');
+  });
+});
+
+describe('formatFindings', () => {
+  test('prints one line per finding with its location', () => {
+    const match = {
+      original: 'I think',
+      replacement: '',
+      start: 9,
+      end: 16,
+      rule: { pattern: 'I think', level: 'aggressive' as const, category: 'hedging' },
+      line: 2,
+      column: 5,
+      endLine: 2,
+      endColumn: 12,
+      utf8: { column: 5, endColumn: 12 },
+      codePoints: { column: 5, endColumn: 12 },
+    };
+    const output = formatFindings('notes.md', [
+      { kind: 'replacement', match },
+      { kind: 'suggestion', match: { ...match, line: 3, column: 1 } },
+    ]);
+    expect(output).toBe(
+      'notes.md:2:5: hedging: "I think" -> (remove)\nnotes.md:3:1: hedging: "I think" (Consider revising)'
+    );
+  });
 });
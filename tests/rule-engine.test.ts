@@ -3,8 +3,10 @@ import {
   applyMatches,
   convertLegacyRule,
   convertRuleEntry,
+  editRanges,
   findMatches,
   processWithRules,
+  repairGrammar,
 } from '../src/lib/rule-engine.js';
 
 describe('convertLegacyRule', () => {
@@ -46,7 +48,7 @@ describe('convertLegacyRule', () => {
     expect(rule.suggestion).toBe('Consider removing');
   });
 
-  test('strips punctuation from pattern except apostrophes', () => {
+  test('keeps pattern punctuation as separate tokens', () => {
     const rule = convertLegacyRule({
       pattern: "I'm not sure, but",
       replacement: '',
@@ -57,6 +59,7 @@ describe('convertLegacyRule', () => {
       { text: "i'm" },
       { text: 'not' },
       { text: 'sure' },
+      { text: ',', punctuation: true },
       { text: 'but' },
     ]);
   });
@@ -138,6 +141,159 @@ describe('findMatches', () => {
   });
 });
 
+describe('slot patterns', () => {
+  test('parses slot tokens with word classes and lengths', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'maybe {who:subject} {modal} {rest:1-3}', replacement: '', category: 'hedging' },
+      'conservative'
+    );
+    expect(rule.pattern).toEqual([
+      { text: 'maybe' },
+      { text: '{who:subject}', slot: 'who', wordClass: 'subject' },
+      { text: '{modal}', slot: 'modal', wordClass: 'modal' },
+      { text: '{rest:1-3}', slot: 'rest', minTokens: 1, maxTokens: 3 },
+    ]);
+  });
+
+  test('does not take inherited object keys for word classes', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'maybe {constructor}', replacement: '{constructor}', category: 'hedging' },
+      'conservative'
+    );
+    expect(rule.pattern[1]).toEqual({ text: '{constructor}', slot: 'constructor' });
+    expect(processWithRules('so maybe later', [rule]).transformed).toBe('so later');
+    expect(() =>
+      convertRuleEntry({ pattern: 'maybe {x:tostring}', category: 'hedging' }, 'conservative')
+    ).toThrow('Unknown word class');
+  });
+
+  test('one rule covers a phrase family', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'maybe {pronoun} {modal}', replacement: '{pronoun} {modal}', category: 'hedging' },
+      'conservative'
+    );
+    expect(processWithRules('and maybe we should go', [rule]).transformed).toBe('and we should go');
+    expect(processWithRules('so maybe they could help', [rule]).transformed).toBe(
+      'so they could help'
+    );
+    expect(findMatches('maybe pizza should', [rule])).toHaveLength(0);
+  });
+
+  test('captures slot text for the replacement', () => {
+    const rule = convertRuleEntry(
+      { pattern: "I'll try to {verb}", replacement: 'I will {verb}', category: 'non-committal' },
+      'conservative'
+    );
+    const matches = findMatches("I'll try to finish today", [rule]);
+    expect(matches[0].captures).toEqual({ verb: 'finish' });
+    expect(matches[0].replacementText).toBe("I'll finish");
+  });
+
+  test('keeps the original casing of captured text', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'ask {name} about', replacement: 'tell {name} about', category: 'weak-request' },
+      'conservative'
+    );
+    const result = processWithRules('We should ask Sarah about it', [rule]);
+    expect(result.transformed).toBe('We should tell Sarah about it');
+  });
+
+  test('capitalizes a leading slot at sentence start', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'hopefully {subject} can', replacement: '{subject} will', category: 'hedging' },
+      'conservative'
+    );
+    const matches = findMatches('Hopefully we can ship', [rule]);
+    expect(matches[0].replacementText).toBe('We will');
+  });
+
+  test('variable-length slots backtrack to let the rest of the pattern match', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'is {thing:1-3} possible', replacement: '', category: 'weak-request' },
+      'conservative'
+    );
+    const matches = findMatches('is this fix possible today', [rule]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].captures).toEqual({ thing: 'this fix' });
+  });
+
+  test('rejects unknown word classes', () => {
+    expect(() =>
+      convertRuleEntry({ pattern: 'maybe {x:adverbial}', category: 'hedging' }, 'conservative')
+    ).toThrow('Unknown word class');
+  });
+
+  test('rejects replacements that reference missing slots', () => {
+    expect(() =>
+      convertRuleEntry(
+        { pattern: 'maybe {modal}', replacement: '{verb}', category: 'hedging' },
+        'conservative'
+      )
+    ).toThrow('unknown slot');
+  });
+});
+
+describe('lemma matching', () => {
+  const rule = convertRuleEntry(
+    {
+      pattern: '{subject} try to {verb}',
+      replacement: '{subject} will {verb}',
+      category: 'non-committal',
+      lemma: true,
+    },
+    'conservative'
+  );
+
+  test('matches any present or future form of the pattern verbs', () => {
+    for (const text of ["I'll try to call", "I'm trying to call", 'we try to call']) {
+      expect(findMatches(text, [rule])).toHaveLength(1);
+    }
+  });
+
+  test('does not match other verbs', () => {
+    expect(findMatches('I want to call', [rule])).toHaveLength(0);
+  });
+
+  test('writes will and the base form for present and future matches', () => {
+    expect(processWithRules("I'll try to call", [rule]).transformed).toBe("I'll call");
+    expect(processWithRules('I try to be nice.', [rule]).transformed).toBe('I will be nice.');
+    expect(processWithRules('They try to help.', [rule]).transformed).toBe('They will help.');
+    expect(processWithRules('She tries to help.', [rule]).transformed).toBe('She will help.');
+  });
+
+  test('carries the progressive into the replacement', () => {
+    expect(processWithRules("I'm trying to fix it.", [rule]).transformed).toBe("I'm fixing it.");
+    expect(processWithRules('I am trying to call.', [rule]).transformed).toBe('I am calling.');
+    expect(processWithRules('She is trying to write.', [rule]).transformed).toBe('She is writing.');
+    expect(processWithRules("We're trying to fix it", [rule]).transformed).toBe("We're fixing it");
+  });
+
+  test('reports past and perfect matches as suggestions', () => {
+    for (const text of [
+      'I tried to call.',
+      'We were trying to help.',
+      'I have tried to help.',
+      "I've tried to help.",
+    ]) {
+      const result = processWithRules(text, [rule]);
+      expect(result.transformed).toBe(text);
+      expect(result.matches).toHaveLength(0);
+      expect(result.suggestions).toHaveLength(1);
+      expect(result.suggestions[0].tense).toBe('past');
+    }
+  });
+
+  test('literal rules do not match other tenses', () => {
+    const literal = convertLegacyRule({
+      pattern: "I'll try to",
+      replacement: 'I will',
+      level: 'conservative',
+      category: 'non-committal',
+    });
+    expect(findMatches("I'm trying to call", [literal])).toHaveLength(0);
+  });
+});
+
 describe('applyMatches', () => {
   test('applies single replacement', () => {
     const rule = convertLegacyRule({
@@ -204,7 +360,7 @@ describe('applyMatches', () => {
     });
     const matches = findMatches('and maybe we should try', [rule]);
     const result = applyMatches('and maybe we should try', matches);
-    expect(result).toBe('And we should try');
+    expect(result).toBe('and we should try');
   });
 });
 
@@ -252,6 +408,511 @@ describe('sentence restructuring', () => {
   });
 });
 
+describe('part-of-speech patterns', () => {
+  test('parses tag suffixes on words and slots', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'just/ADV {action}/VERB|AUX', replacement: '{action}', category: 'minimizing' },
+      'moderate'
+    );
+    expect(rule.pattern).toEqual([
+      { text: 'just', pos: ['ADV'] },
+      { text: '{action}', slot: 'action', pos: ['VERB', 'AUX'] },
+    ]);
+  });
+
+  test('matches only words with the required tag', () => {
+    const rule = convertRuleEntry({ pattern: 'just/ADV', category: 'minimizing' }, 'moderate');
+    expect(findMatches('We just need more time', [rule])).toHaveLength(1);
+    expect(findMatches('It was a just cause', [rule])).toHaveLength(0);
+  });
+
+  test('checks tags on slot words', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'just {action}/VERB', replacement: '{action}', category: 'minimizing' },
+      'moderate'
+    );
+    expect(processWithRules('We just ship it.', [rule]).transformed).toBe('We ship it.');
+    expect(findMatches('It is just the start', [rule])).toHaveLength(0);
+  });
+
+  test('rejects unknown tags', () => {
+    expect(() =>
+      convertRuleEntry({ pattern: 'just/ADVERB', category: 'minimizing' }, 'moderate')
+    ).toThrow('Unknown part-of-speech tag');
+  });
+});
+
+describe('protected spans', () => {
+  const hedge = convertRuleEntry(
+    { pattern: 'I think', replacement: 'I believe', category: 'hedging' },
+    'conservative'
+  );
+
+  test('skips quoted speech by default', () => {
+    const result = processWithRules("The client said 'I think we should wait'. I think so.", [
+      hedge,
+    ]);
+    expect(result.transformed).toBe("The client said 'I think we should wait'. I believe so.");
+    expect(result.matches).toHaveLength(1);
+  });
+
+  test('does not pair apostrophes as quotes', () => {
+    const result = processWithRules(
+      "The '90s were fun and I think we should go back to the kids' park.",
+      [hedge]
+    );
+    expect(result.transformed).toBe(
+      "The '90s were fun and I believe we should go back to the kids' park."
+    );
+  });
+
+  test('skips code spans, URLs and mentions', () => {
+    const just = convertRuleEntry({ pattern: 'just', category: 'minimizing' }, 'conservative');
+    const text = 'Run `just build`, see https://example.com/just and ask @just.';
+    expect(processWithRules(text, [just]).transformed).toBe(text);
+  });
+
+  test('matches inside spans a rule allows', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'I think', replacement: 'I believe', category: 'hedging', allowIn: ['quote'] },
+      'conservative'
+    );
+    const result = processWithRules('My draft reads "I think we can".', [rule]);
+    expect(result.transformed).toBe('My draft reads "I believe we can".');
+  });
+
+  test('lets longer rules win over rules allowed in spans', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'think', replacement: 'believe', category: 'hedging', allowIn: ['quote'] },
+      'conservative'
+    );
+    const result = processWithRules('I think "they think".', [rule, hedge]);
+    expect(result.transformed).toBe('I believe "they believe".');
+    expect(result.matches.map((m) => m.rule.id)).toEqual([hedge.id, rule.id]);
+  });
+});
+
+describe('restructure templates', () => {
+  const requestRule = convertRuleEntry(
+    {
+      pattern: 'is it possible for you to',
+      replacement: 'please',
+      category: 'weak-request',
+      restructure: {
+        template: 'Please $request.',
+        captures: [{ name: 'request', untilPunctuation: true }],
+      },
+    },
+    'moderate'
+  );
+
+  test('captures the clause and replaces the terminator', () => {
+    const result = processWithRules('Is it possible for you to review X? Thanks.', [requestRule]);
+    expect(result.transformed).toBe('Please review X. Thanks.');
+    expect(result.matches[0].captures).toEqual({ request: 'review X' });
+  });
+
+  test('keeps the sentence going when the clause ends at a comma', () => {
+    const result = processWithRules('Is it possible for you to review X, if you have time?', [
+      requestRule,
+    ]);
+    expect(result.transformed).toBe('Please review X, if you have time?');
+  });
+
+  test('follows the case of the match mid-sentence', () => {
+    const result = processWithRules('So is it possible for you to help?', [requestRule]);
+    expect(result.transformed).toBe('So please help.');
+  });
+
+  test('falls back to the plain replacement when a capture is missing', () => {
+    const result = processWithRules('Is it possible for you to?', [requestRule]);
+    expect(result.transformed).toBe('Please?');
+  });
+
+  test('reorders captures and inflects them', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: 'would you mind if {subject}',
+        category: 'weak-request',
+        restructure: {
+          template: '$subject plan on $action $rest.',
+          captures: [
+            { name: 'action', afterTokens: 1, inflect: 'progressive' },
+            { name: 'rest', stopAt: ['because'], optional: true },
+          ],
+        },
+      },
+      'moderate'
+    );
+    const result = processWithRules('Would you mind if we took Friday off because of travel?', [
+      rule,
+    ]);
+    expect(result.transformed).toBe('We plan on taking Friday off because of travel?');
+  });
+
+  test('respects capture word classes', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: 'would you mind if',
+        replacement: "I'd like to",
+        category: 'weak-request',
+        restructure: {
+          template: '$who will go.',
+          captures: [{ name: 'who', afterTokens: 1, wordClass: 'subject' }],
+        },
+      },
+      'moderate'
+    );
+    expect(processWithRules('Would you mind if Bob went?', [rule]).transformed).toBe(
+      "I'd like to Bob went?"
+    );
+  });
+
+  test('respects capture verb forms', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: 'would you mind if I',
+        replacement: "I'd like to",
+        category: 'weak-request',
+        restructure: {
+          template: "I'm $action.",
+          captures: [{ name: 'action', afterTokens: 1, form: 'past', inflect: 'progressive' }],
+        },
+      },
+      'moderate'
+    );
+    expect(processWithRules('Would you mind if I left?', [rule]).transformed).toBe("I'm leaving.");
+    expect(processWithRules('Would you mind if I leave?', [rule]).transformed).toBe(
+      "I'd like to leave?"
+    );
+  });
+
+  test('takes the terminator from the text', () => {
+    expect(processWithRules('Is it possible for you to review X', [requestRule]).transformed).toBe(
+      'Please review X'
+    );
+    expect(
+      processWithRules('Is it possible for you to review X\nThanks', [requestRule]).transformed
+    ).toBe('Please review X\nThanks');
+    expect(processWithRules('Is it possible for you to review X!', [requestRule]).transformed).toBe(
+      'Please review X!'
+    );
+  });
+
+  test('consumes the captures into the replacement without a template', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: 'is it possible for you to',
+        replacement: 'please {request}',
+        category: 'weak-request',
+        restructure: { captures: [{ name: 'request', afterTokens: 1 }] },
+      },
+      'moderate'
+    );
+    const result = processWithRules('Is it possible for you to call me?', [rule]);
+    expect(result.transformed).toBe('Please call me?');
+    expect(result.matches[0].captures).toEqual({ request: 'call' });
+    expect(processWithRules('Is it possible for you to?', [rule]).matches).toHaveLength(0);
+  });
+
+  test('rejects templates that reference unknown captures', () => {
+    expect(() =>
+      convertRuleEntry(
+        {
+          pattern: 'is it possible',
+          category: 'weak-request',
+          restructure: { template: 'Please $missing.' },
+        },
+        'moderate'
+      )
+    ).toThrow('unknown capture');
+  });
+});
+
+describe('punctuation in patterns', () => {
+  test('requires the punctuation the pattern contains', () => {
+    const rule = convertRuleEntry(
+      { pattern: "I'm sorry, but", replacement: '', category: 'apologizing' },
+      'conservative'
+    );
+    expect(findMatches("I'm sorry, but we can't", [rule])).toHaveLength(1);
+    expect(findMatches("I'm sorry but we can't", [rule])).toHaveLength(0);
+  });
+
+  test('still ignores punctuation a pattern leaves out', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'sorry but', category: 'apologizing' },
+      'conservative'
+    );
+    expect(findMatches('Sorry, but no', [rule])).toHaveLength(1);
+  });
+
+  test('consumes leading and trailing punctuation', () => {
+    const rule = convertRuleEntry(
+      { pattern: ', right?', category: 'hedging', suggestion: 'Drop the tag question' },
+      'moderate'
+    );
+    const [match] = findMatches('We ship Friday, right? Thanks', [rule]);
+    expect(match.matchedTokens.map((t) => t.text).join('')).toBe(', right?');
+    expect(findMatches('Right, we ship', [rule])).toHaveLength(0);
+  });
+
+  test('combines punctuation runs across pattern words', () => {
+    const rule = convertRuleEntry({ pattern: 'right ?!', category: 'hedging' }, 'moderate');
+    expect(rule.pattern).toEqual([{ text: 'right' }, { text: '?!', punctuation: true }]);
+    expect(findMatches('Right?! Sure.', [rule])).toHaveLength(1);
+    expect(findMatches('Right? Sure.', [rule])).toHaveLength(0);
+  });
+
+  test('can consume a trailing comma', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: 'to be honest',
+        replacement: '',
+        category: 'filler',
+        punctuation: { consumeTrailingComma: true },
+      },
+      'moderate'
+    );
+    const result = processWithRules('To be honest, this is late.', [rule]);
+    expect(result.matches[0].textEnd).toBe(13);
+    expect(result.transformed).toBe('This is late.');
+  });
+
+  test('can keep the sentence terminator', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: ', if that makes sense.',
+        replacement: '',
+        category: 'hedging',
+        punctuation: { keepTerminator: true },
+      },
+      'moderate'
+    );
+    expect(
+      processWithRules('We ship Friday, if that makes sense. Thanks', [rule]).transformed
+    ).toBe('We ship Friday. Thanks');
+  });
+});
+
+describe('case of replacements', () => {
+  const rules = [
+    convertRuleEntry(
+      { pattern: 'I think we should', replacement: 'We should', category: 'hedging' },
+      'conservative'
+    ),
+    convertRuleEntry(
+      { pattern: 'I think this', replacement: 'This', category: 'hedging' },
+      'conservative'
+    ),
+    convertRuleEntry(
+      { pattern: 'I think', replacement: 'I believe', category: 'hedging' },
+      'conservative'
+    ),
+  ];
+
+  test('keeps an all-caps heading in caps', () => {
+    expect(processWithRules('I THINK WE SHOULD SHIP', rules).transformed).toBe('WE SHOULD SHIP');
+  });
+
+  test('keeps a Title Case heading in Title Case', () => {
+    expect(processWithRules('Why I Think We Should Ship', rules).transformed).toBe(
+      'Why We Should Ship'
+    );
+  });
+
+  test('does not capitalize a replacement in the middle of a sentence', () => {
+    expect(processWithRules('Honestly, I think this is fine.', rules).transformed).toBe(
+      'Honestly, this is fine.'
+    );
+  });
+
+  test('capitalizes a replacement that starts a sentence', () => {
+    expect(processWithRules('Done. I think this is fine.', rules).transformed).toBe(
+      'Done. This is fine.'
+    );
+  });
+
+  test('keeps "I" capitalized mid-sentence', () => {
+    expect(processWithRules('So I think it works.', rules).transformed).toBe(
+      'So I believe it works.'
+    );
+  });
+});
+
+describe('numbers, compounds and paths', () => {
+  const just = convertRuleEntry({ pattern: 'just', category: 'minimizing' }, 'moderate');
+
+  test('never matches inside compounds, links or paths', () => {
+    const text = 'Use just-in-time at https://x.com/just-a-fix and docs/just/a/note.md';
+    expect(findMatches(text, [just])).toHaveLength(0);
+  });
+
+  test('matches a hyphenated pattern as a whole word', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'follow-up', replacement: 'reminder', category: 'test' },
+      'moderate'
+    );
+    expect(processWithRules('A quick follow-up here.', [rule]).transformed).toBe(
+      'A quick reminder here.'
+    );
+  });
+
+  test('keeps the space before a path or decimal after a replacement', () => {
+    expect(processWithRules('Just run ./build.sh with .5 seconds', [just]).transformed).toBe(
+      'Run ./build.sh with .5 seconds'
+    );
+  });
+});
+
+describe('contraction-equivalent matching', () => {
+  const contracted = convertRuleEntry(
+    { pattern: "I'll try to", replacement: 'I will', category: 'non-committal' },
+    'moderate'
+  );
+  const expanded = convertRuleEntry(
+    { pattern: 'I am not sure, but', replacement: '', category: 'hedging' },
+    'moderate'
+  );
+
+  test('matches the expansion of a contraction in the pattern', () => {
+    expect(processWithRules('I will try to call.', [contracted]).transformed).toBe('I will call.');
+  });
+
+  test('matches a contraction in the text against an expanded pattern', () => {
+    expect(processWithRules("I'm not sure, but it works.", [expanded]).transformed).toBe(
+      'It works.'
+    );
+    expect(processWithRules('I am not sure, but it works.', [expanded]).transformed).toBe(
+      'It works.'
+    );
+  });
+
+  test('follows the contracted register of the text', () => {
+    const rule = convertRuleEntry(
+      { pattern: 'I am just', replacement: 'I am', category: 'minimizing' },
+      'moderate'
+    );
+    expect(processWithRules("I'm just asking.", [rule]).transformed).toBe("I'm asking.");
+    expect(processWithRules('I’m just asking.', [rule]).transformed).toBe('I’m asking.');
+  });
+
+  test('follows the expanded register of the text', () => {
+    const rule = convertRuleEntry(
+      { pattern: "I'm just", replacement: "I'm", category: 'minimizing' },
+      'moderate'
+    );
+    expect(processWithRules('I am just asking.', [rule]).transformed).toBe('I am asking.');
+  });
+
+  test('follows the register of text matched by lemma and slot rules', () => {
+    const rule = convertRuleEntry(
+      {
+        pattern: '{subject} try to {verb}',
+        replacement: '{subject} will {verb}',
+        category: 'non-committal',
+        lemma: true,
+      },
+      'moderate'
+    );
+    expect(processWithRules("I'll try to help.", [rule]).transformed).toBe("I'll help.");
+    expect(processWithRules('I will try to help.', [rule]).transformed).toBe('I will help.');
+    expect(processWithRules('They try to help.', [rule]).transformed).toBe('They will help.');
+  });
+
+  test('does not treat other words as a contraction', () => {
+    expect(findMatches('I wall try to call.', [contracted])).toHaveLength(0);
+  });
+});
+
+describe('repairGrammar', () => {
+  const rules = [
+    convertRuleEntry(
+      { pattern: 'just a small', replacement: 'a', category: 'minimizing' },
+      'moderate'
+    ),
+    convertRuleEntry({ pattern: 'sorry', replacement: '', category: 'apologizing' }, 'moderate'),
+    convertRuleEntry({ pattern: 'definitely', replacement: '', category: 'filler' }, 'moderate'),
+    convertRuleEntry({ pattern: 'really', replacement: '', category: 'filler' }, 'moderate'),
+  ];
+
+  test('fixes article agreement after a replacement', () => {
+    const result = processWithRules('It is just a small issue.', rules);
+    expect(result.transformed).toBe('It is an issue.');
+    expect(result.repairs).toEqual([
+      { kind: 'article', original: 'a issue', replacement: 'an issue' },
+    ]);
+  });
+
+  test('fixes articles exposed by a deletion', () => {
+    expect(processWithRules('It was an really bad call.', rules).transformed).toBe(
+      'It was a bad call.'
+    );
+    expect(processWithRules('A really honest answer.', rules).transformed).toBe(
+      'An honest answer.'
+    );
+  });
+
+  test('removes doubled words', () => {
+    const result = processWithRules('I will definitely will go.', rules);
+    expect(result.transformed).toBe('I will go.');
+    expect(result.repairs).toEqual([
+      { kind: 'duplicate', original: 'will will', replacement: 'will' },
+    ]);
+  });
+
+  test('removes conjunctions left at the start of a sentence', () => {
+    const result = processWithRules('Sorry, but I need this today.', rules);
+    expect(result.transformed).toBe('I need this today.');
+    expect(result.repairs).toEqual([{ kind: 'conjunction', original: ', But', replacement: '' }]);
+    expect(processWithRules('Done. Sorry, and we are late.', rules).transformed).toBe(
+      'Done. We are late.'
+    );
+  });
+
+  test('leaves text away from replacements alone', () => {
+    const result = processWithRules('We wrote a essay. It is just a small fix.', rules);
+    expect(result.transformed).toBe('We wrote a essay. It is a fix.');
+    expect(result.repairs).toEqual([]);
+  });
+
+  test('repairs every copy when a text has many edits', () => {
+    const result = processWithRules(
+      'It is just a small issue. Sorry, but I will definitely will go. '.repeat(3),
+      rules
+    );
+    expect(result.transformed).toBe('It is an issue. I will go. '.repeat(3));
+    expect(result.repairs.map((repair) => repair.kind)).toEqual(
+      Array(3).fill(['article', 'conjunction', 'duplicate']).flat()
+    );
+  });
+
+  test('picks articles by sound', () => {
+    const edit = (text: string) => repairGrammar(text, [{ start: 0, end: 1 }]).text;
+    expect(edit('a hour')).toBe('an hour');
+    expect(edit('an user')).toBe('a user');
+    expect(edit('an unit')).toBe('a unit');
+    expect(edit('a unimportant')).toBe('an unimportant');
+    expect(edit('a FAQ')).toBe('an FAQ');
+    expect(edit('a 8-hour day')).toBe('an 8-hour day');
+    expect(edit('an one-off')).toBe('a one-off');
+  });
+});
+
+describe('editRanges', () => {
+  test('maps replaced spans to their ranges after replacement', () => {
+    expect(
+      editRanges([
+        { start: 10, end: 15, replacement: '' },
+        { start: 0, end: 4, replacement: 'a' },
+      ])
+    ).toEqual([
+      { start: 0, end: 1 },
+      { start: 7, end: 7 },
+    ]);
+  });
+});
+
 describe('processWithRules', () => {
   test('separates replacements from suggestions', () => {
     const rules = [
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import {
   AppConfigSchema,
   formatValidationErrors,
+  RuleEntrySchema,
   RulesDatabaseSchema,
   validateRulesDatabase,
 } from '../src/utils/schemas.js';
@@ -84,6 +85,180 @@ describe('RulesDatabaseSchema', () => {
   });
 });
 
+describe('RuleEntrySchema constraints', () => {
+  test('accepts declarative constraints', () => {
+    const validDb = {
+      version: '1.0.0',
+      conservative: [],
+      moderate: [],
+      aggressive: [
+        {
+          pattern: 'actually',
+          category: 'filler',
+          suggestion: 'Consider removing',
+          constraints: { notInQuestion: true, notFollowedBy: ['true'], nextClass: 'modal' },
+        },
+      ],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(validDb);
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects malformed constraints', () => {
+    const invalidDb = {
+      version: '1.0.0',
+      conservative: [
+        { pattern: 'just', category: 'minimizing', constraints: { notFollowedBy: 'now' } },
+      ],
+      moderate: [],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(invalidDb);
+    expect(result.success).toBe(false);
+  });
+
+  test('accepts part-of-speech constraints', () => {
+    const result = RuleEntrySchema.safeParse({
+      pattern: 'just/ADV',
+      category: 'minimizing',
+      constraints: { previousTag: 'PRON', nextTag: 'VERB|AUX' },
+    });
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('RuleEntrySchema scope', () => {
+  test('accepts scope actions', () => {
+    const validDb = {
+      version: '1.0.0',
+      conservative: [
+        {
+          pattern: 'I think',
+          replacement: 'I believe',
+          category: 'hedging',
+          scope: { negation: 'skip', question: 'suggest' },
+        },
+      ],
+      moderate: [],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(validDb);
+    expect(result.success).toBe(true);
+  });
+
+  test('accepts protected span overrides', () => {
+    const validDb = {
+      version: '1.0.0',
+      conservative: [{ pattern: 'I think', category: 'hedging', allowIn: ['quote', 'code'] }],
+      moderate: [],
+      aggressive: [],
+    };
+
+    expect(RulesDatabaseSchema.safeParse(validDb).success).toBe(true);
+    validDb.conservative[0].allowIn = ['prose'];
+    expect(RulesDatabaseSchema.safeParse(validDb).success).toBe(false);
+  });
+
+  test('rejects unknown scope actions', () => {
+    const invalidDb = {
+      version: '1.0.0',
+      conservative: [{ pattern: 'I think', category: 'hedging', scope: { negation: 'ignore' } }],
+      moderate: [],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(invalidDb);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('RuleEntrySchema punctuation', () => {
+  test('accepts punctuation handling', () => {
+    const result = RuleEntrySchema.safeParse({
+      pattern: ', if that makes sense.',
+      replacement: '',
+      category: 'hedging',
+      punctuation: { consumeTrailingComma: false, keepTerminator: true },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects non-boolean options', () => {
+    const result = RuleEntrySchema.safeParse({
+      pattern: 'to be honest',
+      category: 'filler',
+      punctuation: { consumeTrailingComma: 'yes' },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('RuleEntrySchema restructure', () => {
+  test('accepts a restructure template with captures', () => {
+    const validDb = {
+      version: '1.0.0',
+      conservative: [],
+      moderate: [
+        {
+          pattern: 'would you mind if I',
+          category: 'weak-request',
+          restructure: {
+            template: "I'm $action $rest.",
+            captures: [
+              { name: 'action', afterTokens: 1, form: 'past', inflect: 'progressive' },
+              { name: 'rest', untilPunctuation: true, optional: true },
+            ],
+          },
+        },
+      ],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(validDb);
+    expect(result.success).toBe(true);
+  });
+
+  test('accepts captures without a template', () => {
+    const validDb = {
+      version: '1.0.0',
+      conservative: [],
+      moderate: [
+        {
+          pattern: 'is it possible for you to',
+          replacement: 'please {request}',
+          category: 'weak-request',
+          restructure: { captures: [{ name: 'request', afterTokens: 1 }] },
+        },
+      ],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(validDb);
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects captures with an unknown inflection', () => {
+    const invalidDb = {
+      version: '1.0.0',
+      conservative: [],
+      moderate: [
+        {
+          pattern: 'would you mind if',
+          category: 'weak-request',
+          restructure: { captures: [{ name: 'action', inflect: 'future' }] },
+        },
+      ],
+      aggressive: [],
+    };
+
+    const result = RulesDatabaseSchema.safeParse(invalidDb);
+    expect(result.success).toBe(false);
+  });
+});
+
 describe('AppConfigSchema', () => {
   test('validates a valid config', () => {
     const validConfig = {
@@ -109,9 +284,22 @@ describe('AppConfigSchema', () => {
       expect(result.data.history.maxEntries).toBe(100);
       expect(result.data.watcher.debounceMs).toBe(300);
       expect(result.data.rules.cacheEnabled).toBe(true);
+      expect(result.data.check).toEqual({ maxReplacements: 0, maxSuggestions: 0, categories: {} });
     }
   });
 
+  test('rejects negative check thresholds', () => {
+    const invalidConfig = {
+      history: {},
+      watcher: {},
+      rules: {},
+      check: { categories: { hedging: -1 } },
+    };
+
+    const result = AppConfigSchema.safeParse(invalidConfig);
+    expect(result.success).toBe(false);
+  });
+
   test('rejects negative maxEntries', () => {
     const invalidConfig = {
       history: { maxEntries: -1 },
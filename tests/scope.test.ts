@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { convertRuleEntry, findMatches, processWithRules } from '../src/lib/rule-engine.js';
+import { detectScopes, resolveScope } from '../src/lib/scope.js';
+import type { RuleScope } from '../src/types/index.js';
+
+function scopesOf(text: string, pattern = 'I think') {
+  const rule = convertRuleEntry(
+    { pattern, replacement: 'I believe', category: 'hedging', allowIn: ['quote'] },
+    'moderate'
+  );
+  const [match] = findMatches(text, [rule]);
+  return detectScopes(match.context);
+}
+
+function hedge(scope: RuleScope) {
+  return convertRuleEntry(
+    { pattern: 'I think', replacement: 'I believe', category: 'hedging', scope },
+    'conservative'
+  );
+}
+
+describe('detectScopes', () => {
+  test('finds no scope in a plain statement', () => {
+    expect(scopesOf('I think we should ship.')).toEqual([]);
+  });
+
+  test('detects a negation earlier in the clause', () => {
+    expect(scopesOf('I never said I think we should ship.')).toContain('negation');
+    expect(scopesOf("It's not that I think it matters.")).toContain('negation');
+  });
+
+  test('ignores negations in an earlier clause or sentence', () => {
+    expect(scopesOf("That isn't done. I think we should ship.")).toEqual([]);
+    expect(scopesOf('No, I think we should ship.')).toEqual([]);
+  });
+
+  test('detects questions by question mark', () => {
+    expect(scopesOf('Why do I think this is hard?')).toEqual(['question']);
+  });
+
+  test('detects inverted questions without a question mark', () => {
+    expect(scopesOf('Do you think we should ship', 'you think')).toEqual(['question']);
+    expect(scopesOf('Do I think so')).toEqual(['question']);
+  });
+
+  test('detects reported speech after a reporting verb', () => {
+    expect(scopesOf('She told me I think too much.')).toEqual(['reported']);
+    expect(scopesOf('He claimed I think slowly.')).toEqual(['reported']);
+  });
+
+  test('detects quoted speech', () => {
+    expect(scopesOf('Her words were "I think we can".')).toEqual(['reported']);
+    expect(scopesOf('"Fine." I think we can.')).toEqual([]);
+  });
+});
+
+describe('resolveScope', () => {
+  test('only checks the scopes the policy covers', () => {
+    const rule = hedge({});
+    const [match] = findMatches('I never said I think so.', [rule]);
+    expect(resolveScope({ question: 'skip' }, match.context)).toBeUndefined();
+    expect(resolveScope({ negation: 'suggest' }, match.context)).toEqual({
+      kind: 'negation',
+      action: 'suggest',
+    });
+  });
+
+  test('prefers skipping over downgrading', () => {
+    const rule = hedge({});
+    const [match] = findMatches("Didn't she say I think so?", [rule]);
+    expect(resolveScope({ negation: 'suggest', reported: 'skip' }, match.context)).toEqual({
+      kind: 'reported',
+      action: 'skip',
+    });
+  });
+});
+
+describe('scoped rules', () => {
+  test('skip matches inside the scope', () => {
+    const result = processWithRules('I never said I think so.', [hedge({ negation: 'skip' })]);
+    expect(result.transformed).toBe('I never said I think so.');
+    expect(result.matches).toHaveLength(0);
+    expect(result.suggestions).toHaveLength(0);
+  });
+
+  test('downgrade matches inside the scope to suggestions', () => {
+    const result = processWithRules('Why do I think this?', [hedge({ question: 'suggest' })]);
+    expect(result.transformed).toBe('Why do I think this?');
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.suggestions[0].scope).toBe('question');
+    expect(result.suggestions[0].replacementText).toBeNull();
+  });
+
+  test('still rewrite matches outside the scope', () => {
+    const result = processWithRules('I think so. Why?', [hedge({ question: 'suggest' })]);
+    expect(result.transformed).toBe('I believe so. Why?');
+  });
+
+  test('rewrite in every scope without a policy', () => {
+    const result = processWithRules('I never said I think so.', [hedge({})]);
+    expect(result.transformed).toBe('I never said I believe so.');
+  });
+});
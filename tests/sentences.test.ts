@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { capitalizeSentences, segmentSentences, sentenceAt } from '../src/lib/sentences.js';
+
+function split(text: string): string[] {
+  return segmentSentences(text).map((s) => text.slice(s.start, s.end));
+}
+
+describe('segmentSentences', () => {
+  test('splits on terminal punctuation', () => {
+    expect(split('We ship today. Are you ready? Yes!')).toEqual([
+      'We ship today.',
+      'Are you ready?',
+      'Yes!',
+    ]);
+  });
+
+  test('records offsets, indexes and terminators', () => {
+    const sentences = segmentSentences('  One. Two?!');
+    expect(sentences).toEqual([
+      { index: 0, start: 2, end: 6, terminator: '.' },
+      { index: 1, start: 7, end: 12, terminator: '?!' },
+    ]);
+  });
+
+  test('keeps a final sentence without punctuation', () => {
+    const [last] = segmentSentences('no punctuation here\n').slice(-1);
+    expect(last).toMatchObject({ start: 0, end: 19, terminator: undefined });
+  });
+
+  test('does not split after abbreviations', () => {
+    expect(split('Use a tool, e.g. a linter. Ask Dr. Smith vs. Mr. Jones.')).toEqual([
+      'Use a tool, e.g. a linter.',
+      'Ask Dr. Smith vs. Mr. Jones.',
+    ]);
+    expect(split('It takes approx. ten minutes.')).toHaveLength(1);
+  });
+
+  test('splits after terminal abbreviations only before a capital', () => {
+    expect(split('Apples, pears, etc. are fine.')).toHaveLength(1);
+    expect(split('Apples, pears, etc. The rest can wait.')).toHaveLength(2);
+  });
+
+  test('does not split decimals, versions or numbered references', () => {
+    expect(split('Pi is 3.14 and we run v2. then v3 ships.')).toHaveLength(1);
+    expect(split('See No. 5 on p. 12 for details.')).toHaveLength(1);
+    expect(split('The answer is no. It works.')).toHaveLength(2);
+  });
+
+  test('treats initialisms as sentence ends only before a capital', () => {
+    expect(split('Shipping to the U.S. next week.')).toHaveLength(1);
+    expect(split('We ship to the U.S. They ship to Canada.')).toHaveLength(2);
+  });
+
+  test('continues across ellipses followed by lowercase', () => {
+    expect(split('I was... thinking. Well… Maybe not.')).toEqual([
+      'I was... thinking.',
+      'Well…',
+      'Maybe not.',
+    ]);
+  });
+
+  test('keeps closing quotes with their sentence', () => {
+    expect(split('She said "Done." Then she left.')).toEqual([
+      'She said "Done."',
+      'Then she left.',
+    ]);
+    expect(split('"Really?" she asked.')).toHaveLength(1);
+  });
+
+  test('splits on blank lines and list items', () => {
+    expect(split('Intro line\n\nNext paragraph\n- first item\n- second item\n1. numbered')).toEqual(
+      ['Intro line', 'Next paragraph', 'first item', 'second item', 'numbered']
+    );
+  });
+
+  test('joins hard-wrapped lines', () => {
+    expect(split('This sentence wraps\nonto a second line.')).toHaveLength(1);
+  });
+});
+
+describe('sentenceAt', () => {
+  test('finds the sentence containing an offset', () => {
+    const sentences = segmentSentences('One. Two. Three.');
+    expect(sentenceAt(sentences, 0)?.index).toBe(0);
+    expect(sentenceAt(sentences, 6)?.index).toBe(1);
+    expect(sentenceAt(sentences, 15)?.index).toBe(2);
+  });
+
+  test('returns undefined for empty text', () => {
+    expect(sentenceAt(segmentSentences(''), 0)).toBeUndefined();
+  });
+});
+
+describe('capitalizeSentences', () => {
+  test('capitalizes sentence starts after terminators', () => {
+    expect(capitalizeSentences('done. next step! and then? ok')).toBe(
+      'Done. Next step! And then? Ok'
+    );
+  });
+
+  test('leaves words after abbreviations and ellipses alone', () => {
+    const text = 'Use e.g. a linter, approx. two, v2. later, or wait... then go.';
+    expect(capitalizeSentences(text)).toBe(`U${text.slice(1)}`);
+  });
+
+  test('leaves list items and paragraphs without terminators alone', () => {
+    expect(capitalizeSentences('Items:\n- apples\n- pears')).toBe('Items:\n- apples\n- pears');
+  });
+});
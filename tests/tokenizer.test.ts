@@ -1,6 +1,9 @@
 import { describe, expect, test } from 'bun:test';
 import {
+  contractWords,
+  expandContraction,
   getWordTokens,
+  normalizeForMatching,
   tokenAtPosition,
   tokenize,
   tokenSlice,
@@ -64,6 +67,287 @@ describe('tokenize', () => {
   });
 });
 
+describe('tokenize - protected spans', () => {
+  function typesOf(text: string) {
+    return tokenize(text)
+      .filter((t) => t.type !== 'whitespace' && t.type !== 'punctuation')
+      .map((t) => [t.text, t.type]);
+  }
+
+  test('keeps URLs whole without trailing punctuation', () => {
+    const tokens = tokenize('See https://example.com/just-do-it?a=1. Then www.example.org');
+    expect(tokens.filter((t) => t.type === 'url').map((t) => t.text)).toEqual([
+      'https://example.com/just-do-it?a=1',
+      'www.example.org',
+    ]);
+    expect(tokens.find((t) => t.text === '.')).toBeDefined();
+  });
+
+  test('classifies emails, mentions and hashtags', () => {
+    expect(typesOf('Mail jo.doe@example.co.uk, @sam and #launch')).toEqual([
+      ['Mail', 'word'],
+      ['jo.doe@example.co.uk', 'email'],
+      ['@sam', 'mention'],
+      ['and', 'word'],
+      ['#launch', 'hashtag'],
+    ]);
+  });
+
+  test('does not treat "#1" or a mid-word "@" as protected', () => {
+    expect(typesOf('#1 priority at@home')).toEqual([
+      ['1', 'number'],
+      ['priority', 'word'],
+      ['at', 'word'],
+      ['home', 'word'],
+    ]);
+  });
+
+  test('marks words inside double and curly quotes', () => {
+    expect(typesOf('she said "I think" and “we can”')).toEqual([
+      ['she', 'word'],
+      ['said', 'word'],
+      ['I', 'quote'],
+      ['think', 'quote'],
+      ['and', 'word'],
+      ['we', 'quote'],
+      ['can', 'quote'],
+    ]);
+  });
+
+  test('marks words inside single quotes but not possessives', () => {
+    expect(typesOf("the students' view: 'I think so'")).toEqual([
+      ['the', 'word'],
+      ['students', 'word'],
+      ['view', 'word'],
+      ['I', 'quote'],
+      ['think', 'quote'],
+      ['so', 'quote'],
+    ]);
+  });
+
+  test('does not open quotes at elided numbers or close them at plural possessives', () => {
+    const types = typesOf("The '90s were fun and I think we should go back to the kids' park.");
+    expect(types.filter(([, type]) => type === 'quote')).toEqual([]);
+    expect(typesOf("the '90s and 'I think so'")).toEqual([
+      ['the', 'word'],
+      ['90s', 'word'],
+      ['and', 'word'],
+      ['I', 'quote'],
+      ['think', 'quote'],
+      ['so', 'quote'],
+    ]);
+  });
+
+  test('keeps leading elisions as words', () => {
+    expect(typesOf("rock 'n' roll 'til dawn")).toContainEqual(["'til", 'word']);
+  });
+
+  test('marks words inside backtick code spans', () => {
+    expect(typesOf('run `just build` or ``I think``')).toEqual([
+      ['run', 'word'],
+      ['just', 'code'],
+      ['build', 'code'],
+      ['or', 'word'],
+      ['I', 'code'],
+      ['think', 'code'],
+    ]);
+  });
+
+  test('ignores quotes left open at the end of a paragraph', () => {
+    expect(typesOf('he said "I think\n\nwe should')).toEqual([
+      ['he', 'word'],
+      ['said', 'word'],
+      ['I', 'word'],
+      ['think', 'word'],
+      ['we', 'word'],
+      ['should', 'word'],
+    ]);
+  });
+
+  test('can be turned off', () => {
+    const tokens = tokenize('"I think" @sam', { protectSpans: false });
+    expect(tokens.some((t) => t.type === 'quote' || t.type === 'mention')).toBe(false);
+  });
+});
+
+describe('tokenize - typographic normalization', () => {
+  test('keeps curly apostrophes inside contractions', () => {
+    const [token] = tokenize('I’m here');
+    expect(token).toMatchObject({ text: 'I’m', type: 'contraction', normalized: "i'm" });
+  });
+
+  test('keeps closing curly quotes out of words', () => {
+    const tokens = tokenize('She said ‘I think’ twice');
+    const think = tokens.find((t) => t.normalized === 'think');
+    expect(think?.text).toBe('think');
+    expect(think?.type).toBe('quote');
+  });
+
+  test('reads words across zero-width characters', () => {
+    const text = 'We jus\u200Bt need it';
+    const just = tokenize(text)[2];
+    expect(just).toMatchObject({ text: 'jus\u200Bt', normalized: 'just', start: 3, end: 8 });
+    expect(text.slice(just.start, just.end)).toBe(just.text);
+  });
+
+  test('treats non-breaking spaces as whitespace', () => {
+    const tokens = tokenize('I\u00A0think');
+    expect(tokens.map((t) => t.type)).toEqual(['word', 'whitespace', 'word']);
+    expect(tokens[1]).toMatchObject({ text: '\u00A0', normalized: ' ' });
+  });
+
+  test('unifies compatibility forms and letters in any script', () => {
+    expect(tokenize('ｊｕｓｔ')[0].normalized).toBe('just');
+    expect(getWordTokens(tokenize('café naïve')).map((t) => t.text)).toEqual(['café', 'naïve']);
+  });
+
+  test('round-trips the original text exactly', () => {
+    const text = '“I’m sorry,” she said\u00A0— jus\u200Bt ﬁne.';
+    expect(tokensToText(tokenize(text))).toBe(text);
+  });
+});
+
+describe('tokenize - numbers, compounds and paths', () => {
+  const typed = (text: string) =>
+    tokenize(text)
+      .filter((t) => t.type !== 'whitespace')
+      .map((t) => [t.text, t.type]);
+
+  test('keeps numbers, decimals, times, dates and versions whole', () => {
+    expect(typed('v2.3.0 at 10:30 on 10/12/2024 costs 1,000 or 3.14')).toEqual([
+      ['v2.3.0', 'number'],
+      ['at', 'word'],
+      ['10:30', 'number'],
+      ['on', 'word'],
+      ['10/12/2024', 'number'],
+      ['costs', 'word'],
+      ['1,000', 'number'],
+      ['or', 'word'],
+      ['3.14', 'number'],
+    ]);
+  });
+
+  test('does not take sentence punctuation into a number', () => {
+    expect(typed('Released 2.0.0-beta.1.')).toEqual([
+      ['Released', 'word'],
+      ['2.0.0-beta.1', 'number'],
+      ['.', 'punctuation'],
+    ]);
+  });
+
+  test('keeps hyphenated compounds whole', () => {
+    expect(typed('a well-known 3-year-old re‑evaluation')).toEqual([
+      ['a', 'word'],
+      ['well-known', 'hyphenated'],
+      ['3-year-old', 'hyphenated'],
+      ['re‑evaluation', 'hyphenated'],
+    ]);
+  });
+
+  test('does not join words around dashes', () => {
+    expect(typed('fast -- or - not')).toEqual([
+      ['fast', 'word'],
+      ['-', 'punctuation'],
+      ['-', 'punctuation'],
+      ['or', 'word'],
+      ['-', 'punctuation'],
+      ['not', 'word'],
+    ]);
+  });
+
+  test('keeps file paths whole', () => {
+    expect(typed('See src/lib/tokenizer.ts, /etc/hosts and C:\\Users\\me\\notes.txt.')).toEqual([
+      ['See', 'word'],
+      ['src/lib/tokenizer.ts', 'path'],
+      [',', 'punctuation'],
+      ['/etc/hosts', 'path'],
+      ['and', 'word'],
+      ['C:\\Users\\me\\notes.txt', 'path'],
+      ['.', 'punctuation'],
+    ]);
+  });
+
+  test('does not treat slashed word pairs as paths', () => {
+    expect(typed('and/or')).toEqual([
+      ['and', 'word'],
+      ['/', 'punctuation'],
+      ['or', 'word'],
+    ]);
+  });
+
+  test('keeps camelCase identifiers whole', () => {
+    expect(typed('justDoIt')).toEqual([['justDoIt', 'word']]);
+  });
+
+  test('keeps exact offsets', () => {
+    const text = 'Try re-evaluate at ./scripts/run.sh v1.2';
+    for (const token of tokenize(text)) {
+      expect(text.slice(token.start, token.end)).toBe(token.text);
+    }
+  });
+});
+
+describe('tokenize - languages', () => {
+  test('keeps accented words whole', () => {
+    const words = getWordTokens(tokenize('Müßte señora ça', { language: 'de' }));
+    expect(words.map((t) => t.text)).toEqual(['Müßte', 'señora', 'ça']);
+  });
+
+  test('splits French elisions into their own tokens', () => {
+    const tokens = getWordTokens(tokenize("J'ai vu l’équipe qu'hier", { language: 'fr' }));
+    expect(tokens.map((t) => t.normalized)).toEqual([
+      "j'",
+      'ai',
+      'vu',
+      "l'",
+      'équipe',
+      "qu'",
+      'hier',
+    ]);
+    expect(tokens[0]).toMatchObject({ type: 'contraction', start: 0, end: 2 });
+  });
+
+  test('keeps French words that contain an apostrophe whole', () => {
+    const tokens = getWordTokens(tokenize("aujourd'hui", { language: 'fr' }));
+    expect(tokens.map((t) => t.text)).toEqual(["aujourd'hui"]);
+  });
+
+  test('uses the contraction list of the language', () => {
+    expect(getWordTokens(tokenize("Wie geht's?", { language: 'de' }))[1].type).toBe('contraction');
+    expect(getWordTokens(tokenize("I'm here", { language: 'de' }))[0].type).toBe('word');
+  });
+
+  test('only tags English', () => {
+    expect(tokenize('Ich denke', { language: 'de' })[0].pos).toBeUndefined();
+  });
+});
+
+describe('normalizeForMatching', () => {
+  test('folds quotes, apostrophes and zero-width characters', () => {
+    expect(normalizeForMatching('I’M ‘FINE’ “OK”\u200B')).toBe("i'm 'fine' \"ok\"");
+  });
+});
+
+describe('expandContraction', () => {
+  test('lists every reading of a contraction', () => {
+    expect(expandContraction("i'll")).toEqual([['i', 'will']]);
+    expect(expandContraction("i'd")).toEqual([
+      ['i', 'would'],
+      ['i', 'had'],
+    ]);
+    expect(expandContraction('hello')).toEqual([]);
+    expect(expandContraction('constructor')).toEqual([]);
+  });
+});
+
+describe('contractWords', () => {
+  test('finds the contraction for an expansion', () => {
+    expect(contractWords(['i', 'am'])).toBe("i'm");
+    expect(contractWords(['cannot'])).toBe("can't");
+    expect(contractWords(['i', 'think'])).toBeUndefined();
+  });
+});
+
 describe('getWordTokens', () => {
   test('filters to words and contractions only', () => {
     const tokens = tokenize("Hello, I'm here!");